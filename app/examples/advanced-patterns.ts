@@ -1,6 +1,20 @@
 // Advanced usage patterns and real-world scenarios
 
-import { ZombieFactory, generateZombie } from '../src/zombieFactory'
+import { createElement } from 'react'
+import { toZombieError, withRetry } from '../src/errors'
+import { ZombieIndexer } from '../src/indexer'
+import { useCreateZombie, useZombieCount, useZombies } from '../src/react'
+import type { ReactiveZombieStore } from '../src/reactiveZombieStore'
+import { ZombieFactory, decodeZombieDna } from '../src/zombieFactory'
+import { validateZombieName } from '../src/zombieName'
+import {
+  MemoryZombieStore,
+  toStoredZombie,
+  type StoredZombie,
+  type ZombiePage,
+  type ZombieQuery,
+  type ZombieStore,
+} from '../src/zombieStore'
 import {
   demonstrateEventListening,
   testEventListening,
@@ -11,11 +25,35 @@ import {
  */
 export class ZombieApp {
   private zombieFactory: ZombieFactory
+  private indexer: ZombieIndexer
   private eventCleanup: (() => void) | null = null
-  private zombies: Map<string, any> = new Map()
-
-  constructor(contractAddress: `0x${string}`) {
+  private store: ZombieStore
+  private loaded = false
+
+  // deploymentBlock: block the contract was deployed in, where the history starts
+  // store: where zombies are kept, ex: new IndexedDbZombieStore('zombies') to
+  // keep them across reloads
+  constructor(
+    contractAddress: `0x${string}`,
+    deploymentBlock = 0n,
+    store: ZombieStore = new MemoryZombieStore()
+  ) {
     this.zombieFactory = new ZombieFactory(contractAddress)
+    this.store = store
+    this.indexer = new ZombieIndexer({
+      publicClient: this.zombieFactory.publicClient,
+      address: contractAddress,
+      fromBlock: deploymentBlock,
+      // Resume from where the stored zombies end
+      checkpointStore: store.checkpoints,
+      // Two blocks behind the head, out of reach of the usual reorg
+      confirmations: 2n,
+      onZombies: (zombies) => this.addZombies(zombies.map(toStoredZombie)),
+      onTransfers: (transfers) => this.store.applyTransfers(transfers),
+      onRewind: (fromBlock) => this.store.removeFromBlock(fromBlock),
+      onOwners: (owners) => this.store.setOwners(owners),
+      onError: (error) => console.error('❌ Indexer error:', error),
+    })
   }
 
   /**
@@ -24,12 +62,12 @@ export class ZombieApp {
   async initialize() {
     console.log('🚀 Initializing Zombie App...')
 
-    // Start listening for events
-    this.startEventListening()
-
-    // Load existing zombies (if you have a way to get them)
+    // Load every zombie created since the deployment
     await this.loadExistingZombies()
 
+    // Then keep following new blocks
+    this.startEventListening()
+
     console.log('✅ Zombie App initialized')
   }
 
@@ -37,35 +75,57 @@ export class ZombieApp {
    * Create a new zombie with error handling and user feedback
    */
   async createZombie(name: string): Promise<boolean> {
-    if (!name.trim()) {
-      this.showError('Please enter a zombie name')
-      return false
-    }
-
-    if (name.length > 32) {
-      this.showError('Zombie name too long (max 32 characters)')
+    // The contract's name policy, checked before anything is signed
+    const validation = validateZombieName(name)
+    if (!validation.valid) {
+      this.showError(validation.message)
       return false
     }
 
     try {
+      if (!(await this.zombieFactory.isNameAvailable(name))) {
+        this.showError(`${name} is already taken`)
+        return false
+      }
+
       this.showLoading('Creating zombie...')
 
-      const txHash = await this.zombieFactory.createRandomZombie(name)
+      const result = await this.zombieFactory.createRandomZombie(name, {
+        confirmations: 2,
+        onStatus: (update) => {
+          if (update.status === 'submitted') {
+            this.showLoading(`Waiting for transaction ${update.txHash}...`)
+          }
+        },
+      })
+
+      if (result.status === 'reverted') {
+        this.showError('Transaction reverted - zombie was not created')
+        return false
+      }
+      if (result.status === 'replaced') {
+        this.showError(`Transaction was ${result.reason} in the wallet`)
+        return false
+      }
 
-      this.showSuccess(`Zombie creation started! Transaction: ${txHash}`)
-      console.log('🧟 Zombie creation transaction:', txHash)
+      this.showSuccess(`Zombie #${result.zombieId} created! ${result.txHash}`)
+      console.log('🧟 Zombie created:', result)
 
       return true
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ Failed to create zombie:', error)
 
       // Handle specific error types
-      if (error.message.includes('User rejected')) {
-        this.showError('Transaction was cancelled')
-      } else if (error.message.includes('insufficient funds')) {
-        this.showError('Insufficient funds for transaction')
-      } else {
-        this.showError('Failed to create zombie. Please try again.')
+      const zombieError = toZombieError(error)
+      switch (zombieError.kind) {
+        case 'USER_REJECTED':
+          this.showError('Transaction was cancelled')
+          break
+        case 'INSUFFICIENT_FUNDS':
+          this.showError('Insufficient funds for transaction')
+          break
+        default:
+          this.showError(ZombieErrorHandler.handleContractError(zombieError))
       }
 
       return false
@@ -75,34 +135,71 @@ export class ZombieApp {
   }
 
   /**
-   * Get zombie details with caching
+   * Create many zombies at once, ex: for an event. Wallets with EIP-5792
+   * atomic batching sign once; others get one prompt per zombie
    */
-  async getZombie(zombieId: bigint): Promise<any | null> {
-    const id = zombieId.toString()
+  async createZombies(names: string[]): Promise<bigint[]> {
+    try {
+      this.showLoading(`Creating ${names.length} zombies...`)
+
+      const { mode, outcomes } = await this.zombieFactory.createRandomZombies(
+        names,
+        {
+          onStatus: (update) => {
+            if (update.status === 'polled') {
+              this.showLoading(`Batch ${update.callsStatus}...`)
+            }
+          },
+        }
+      )
+      console.log(
+        `🧟 Sent as ${mode === 'batch' ? 'one batch' : 'one tx each'}`
+      )
 
-    // Check cache first
-    if (this.zombies.has(id)) {
-      return this.zombies.get(id)
+      const created: bigint[] = []
+      for (const { name, result, error } of outcomes) {
+        if (result?.status === 'confirmed') {
+          created.push(result.zombieId)
+        } else {
+          console.warn(`⚠️ ${name}:`, error?.message ?? result?.status)
+        }
+      }
+      this.showSuccess(`${created.length} of ${names.length} zombies created`)
+      return created
+    } catch (error) {
+      this.showError(
+        ZombieErrorHandler.handleContractError(toZombieError(error))
+      )
+      return []
+    } finally {
+      this.hideLoading()
     }
+  }
+
+  /**
+   * Get zombie details from the store, or from the contract when it was not
+   * indexed yet
+   */
+  async getZombie(
+    zombieId: bigint
+  ): Promise<Pick<StoredZombie, 'id' | 'name' | 'dna' | 'traits'> | null> {
+    const stored = await this.store.get(zombieId)
+    if (stored) return stored
 
     try {
-      const zombie = await this.zombieFactory.getZombie(zombieId)
-      const visualDetails = generateZombie(zombieId, zombie.name, zombie.dna)
+      // Reads are safe to repeat, so retry RPC hiccups
+      const zombie = await withRetry(() =>
+        this.zombieFactory.getZombie(zombieId)
+      )
 
-      const fullZombie = {
+      return {
         id: zombieId,
         name: zombie.name,
         dna: zombie.dna,
-        visual: visualDetails,
-        loadedAt: new Date(),
+        traits: decodeZombieDna(zombie.dna, zombieId),
       }
-
-      // Cache the result
-      this.zombies.set(id, fullZombie)
-
-      return fullZombie
     } catch (error) {
-      console.error(`❌ Failed to get zombie ${id}:`, error)
+      console.error(`❌ Failed to get zombie ${zombieId}:`, error)
       return null
     }
   }
@@ -111,49 +208,32 @@ export class ZombieApp {
    * Start listening for zombie creation events
    */
   private startEventListening() {
-    this.eventCleanup = this.zombieFactory.watchNewZombieEvents((event) => {
-      console.log('🎉 New zombie detected:', event)
-
-      // Generate visual details
-      const visualDetails = generateZombie(
-        event.zombieId,
-        event.name,
-        event.dna
-      )
-
-      const zombie = {
-        id: event.zombieId,
-        name: event.name,
-        dna: event.dna,
-        visual: visualDetails,
-        createdAt: new Date(),
-      }
-
-      // Add to cache
-      this.zombies.set(event.zombieId.toString(), zombie)
-
-      // Update UI
-      this.onNewZombie(zombie)
-    })
+    this.eventCleanup = this.indexer.start()
   }
 
   /**
-   * Load existing zombies (you'd implement this based on your needs)
+   * Load existing zombies from the NewZombie history, resuming from the
+   * indexer's checkpoint
    */
   private async loadExistingZombies() {
-    // This is just an example - you'd implement based on your data source
     console.log('📖 Loading existing zombies...')
 
-    // Example: Load first 10 zombies
-    for (let i = 0; i < 10; i++) {
-      try {
-        const zombie = await this.getZombie(BigInt(i))
-        if (zombie) {
-          console.log(`✅ Loaded zombie ${i}:`, zombie.name)
-        }
-      } catch (error) {
-        // Zombie doesn't exist, stop loading
-        break
+    const lastBlock = await this.indexer.sync()
+    this.loaded = true
+
+    console.log(
+      `✅ Loaded ${await this.store.count()} zombies up to block ${lastBlock ?? '-'}`
+    )
+  }
+
+  private async addZombies(zombies: StoredZombie[]) {
+    await this.store.put(zombies)
+
+    // Update UI for zombies created after the initial load
+    if (this.loaded) {
+      for (const zombie of zombies) {
+        console.log('🎉 New zombie detected:', zombie)
+        this.onNewZombie(zombie)
       }
     }
   }
@@ -167,25 +247,30 @@ export class ZombieApp {
       this.eventCleanup = null
     }
 
-    this.zombies.clear()
+    // The store is kept, so the next start resumes from its checkpoint
     console.log('🧹 Zombie App cleaned up')
   }
 
   /**
-   * Get all cached zombies
+   * Get all stored zombies, page by page
    */
-  getAllZombies(): any[] {
-    return Array.from(this.zombies.values())
+  async getAllZombies(): Promise<StoredZombie[]> {
+    const zombies: StoredZombie[] = []
+    let cursor: string | undefined
+    do {
+      const page = await this.store.query({ cursor, limit: 500 })
+      zombies.push(...page.zombies)
+      cursor = page.nextCursor
+    } while (cursor)
+    return zombies
   }
 
   /**
-   * Search zombies by name
+   * Search zombies by name, or by traits, ids and creation block
+   * ex: searchZombies({ traits: { headChoice: { min: 3, max: 5 } }, sortBy: 'name' })
    */
-  searchZombies(query: string): any[] {
-    const lowerQuery = query.toLowerCase()
-    return this.getAllZombies().filter((zombie) =>
-      zombie.name.toLowerCase().includes(lowerQuery)
-    )
+  searchZombies(query: string | ZombieQuery): Promise<ZombiePage> {
+    return this.store.query(typeof query === 'string' ? { name: query } : query)
   }
 
   // UI feedback methods (implement based on your UI framework)
@@ -209,83 +294,101 @@ export class ZombieApp {
     // Show error notification
   }
 
-  private onNewZombie(zombie: any) {
+  private onNewZombie(zombie: StoredZombie) {
     console.log('🆕 New zombie added to app:', zombie)
     // Update your UI with the new zombie
   }
 }
 
 /**
- * React Hook example (if you're using React)
+ * React: one ReactiveZombieStore for the whole app, read through the hooks of
+ * src/react.ts. Create the store outside of components, ex:
+ *   const store = new ReactiveZombieStore(new ZombieFactory(address))
+ *   createRoot(container).render(
+ *     <StrictMode><ZombieStoreProvider store={store}><ZombieList /></ZombieStoreProvider></StrictMode>
+ *   )
  */
-export function useZombieFactory(contractAddress: `0x${string}`) {
-  // This would be implemented as a proper React hook
-  // Just showing the pattern here
-
-  const zombieApp = new ZombieApp(contractAddress)
-
-  // In real React hook, you'd use useEffect for cleanup
-  // useEffect(() => {
-  //   zombieApp.initialize()
-  //   return () => zombieApp.destroy()
-  // }, [])
-
-  return {
-    createZombie: (name: string) => zombieApp.createZombie(name),
-    getZombie: (id: bigint) => zombieApp.getZombie(id),
-    getAllZombies: () => zombieApp.getAllZombies(),
-    searchZombies: (query: string) => zombieApp.searchZombies(query),
-  }
+export function ZombieList({ limit = 20 }: { limit?: number }) {
+  const count = useZombieCount()
+  // Newest first
+  const page = useZombies({ order: 'desc', limit })
+  const { transaction, createZombie, reset } = useCreateZombie()
+
+  const sending = transaction && !transaction.result && !transaction.error
+  const status = transaction?.error
+    ? ZombieErrorHandler.handleContractError(transaction.error)
+    : (transaction?.result?.status ?? transaction?.update?.status)
+
+  return createElement(
+    'section',
+    null,
+    createElement('h2', null, `Zombies (${count.data ?? '…'})`),
+    page.status === 'error' &&
+      createElement('p', { role: 'alert' }, page.error!.message),
+    createElement(
+      'ul',
+      null,
+      page.data?.zombies.map((zombie) =>
+        createElement('li', { key: zombie.id.toString() }, zombie.name)
+      )
+    ),
+    createElement(
+      'button',
+      {
+        disabled: sending,
+        // The outcome is shown from `transaction`
+        onClick: () => createZombie('Zombie').catch(() => {}),
+      },
+      'Create zombie'
+    ),
+    status && createElement('p', { onClick: reset }, status)
+  )
 }
 
 /**
- * Vue Composable example (if you're using Vue)
+ * Any other framework (Vue, Svelte, plain DOM): subscribe on mount, read
+ * getSnapshot() on every change, unsubscribe on unmount. In Vue, the
+ * callback would set a shallowRef, with onMounted/onUnmounted around it
  */
-export function useZombieFactoryVue(contractAddress: `0x${string}`) {
-  const zombieApp = new ZombieApp(contractAddress)
-
-  // In real Vue composable, you'd use onMounted/onUnmounted
-  // onMounted(() => zombieApp.initialize())
-  // onUnmounted(() => zombieApp.destroy())
-
-  return {
-    createZombie: (name: string) => zombieApp.createZombie(name),
-    getZombie: (id: bigint) => zombieApp.getZombie(id),
-    getAllZombies: () => zombieApp.getAllZombies(),
-    searchZombies: (query: string) => zombieApp.searchZombies(query),
+export function bindZombieCount(
+  store: ReactiveZombieStore,
+  element: HTMLElement
+): () => void {
+  const render = () => {
+    const count = store.getCountState()
+    element.textContent =
+      count.status === 'error' ? count.error!.message : `${count.data ?? '…'}`
   }
+
+  const unsubscribe = store.subscribe(render)
+  render()
+  void store.loadCount()
+  return unsubscribe
 }
 
 /**
  * Error handling patterns
  */
 export class ZombieErrorHandler {
-  static handleContractError(error: any): string {
-    if (error.message.includes('User rejected')) {
-      return 'Transaction was cancelled by user'
-    }
-
-    if (error.message.includes('insufficient funds')) {
-      return 'Insufficient funds for gas fees'
+  static handleContractError(error: unknown): string {
+    const zombieError = toZombieError(error)
+
+    switch (zombieError.details.kind) {
+      case 'CONTRACT_REVERTED':
+        return zombieError.details.reason
+          ? `Transaction failed - ${zombieError.details.reason}`
+          : zombieError.message
+      case 'NETWORK':
+      case 'TIMEOUT':
+      case 'RATE_LIMITED':
+        return `${zombieError.message}. Retrying may help.`
+      default:
+        return zombieError.message
     }
-
-    if (error.message.includes('execution reverted')) {
-      return 'Transaction failed - contract rejected the operation'
-    }
-
-    if (error.message.includes('network')) {
-      return 'Network error - please check your connection'
-    }
-
-    return 'An unexpected error occurred'
   }
 
-  static isRetryableError(error: any): boolean {
-    const retryableErrors = ['network', 'timeout', 'rate limit', 'temporary']
-
-    return retryableErrors.some((keyword) =>
-      error.message.toLowerCase().includes(keyword)
-    )
+  static isRetryableError(error: unknown): boolean {
+    return toZombieError(error).retryable
   }
 }
 
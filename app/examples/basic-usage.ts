@@ -1,27 +1,46 @@
 // Example usage of the refactored ZombieFactory with Viem
 
-import {
-  ZombieFactory,
-  setupZombieFactoryUI,
-  generateZombie,
-} from '../src/zombieFactory'
+import { ZombieFactory, generateZombie } from '../src/zombieFactory'
+import { WalletManager } from '../src/walletManager'
+import { defineZombieElements } from '../src/zombieElements'
+import { renderZombieSvg } from '../src/zombieRenderer'
 
 // Example: Initialize and use ZombieFactory
 export async function initializeApp() {
-  // Replace with your actual deployed contract address
-  const CONTRACT_ADDRESS =
-    '0x1234567890123456789012345678901234567890' as `0x${string}`
+  // Find the installed wallets and restore the last one without a prompt;
+  // writes connect and switch chain on demand
+  const walletManager = new WalletManager()
+  walletManager.discover()
+  await walletManager.reconnect()
 
-  // Create ZombieFactory instance
-  const zombieFactory = new ZombieFactory(CONTRACT_ADDRESS)
+  // Create ZombieFactory instance, with the address the network registry
+  // has for the app's chain
+  const zombieFactory = ZombieFactory.forChain(walletManager.chain.id, {
+    walletManager,
+  })
 
-  // Setup UI event listeners
-  const cleanup = setupZombieFactoryUI()
+  // Enable <zombie-create-form>, <zombie-card> and <zombie-feed> on the page;
+  // they use this instance unless given their own
+  defineZombieElements(zombieFactory)
+  document.addEventListener('zombie-created', (event) => {
+    console.log('Zombie created from the form:', event.detail.zombieId)
+  })
+  document.addEventListener('zombie-error', (event) => {
+    console.error('Zombie UI error:', event.detail.kind, event.detail.message)
+  })
 
   // Example: Create a zombie programmatically
   try {
-    const txHash = await zombieFactory.createRandomZombie('MyAwesomeZombie')
-    console.log('Zombie creation transaction:', txHash)
+    // What it will cost, L1 data fee included on OP-stack chains
+    const quote = await zombieFactory.quoteCreateZombie('MyAwesomeZombie')
+    console.log(`This zombie costs ~${quote.expected.eth} ETH`)
+
+    const result = await zombieFactory.createRandomZombie('MyAwesomeZombie')
+    if (result.status === 'confirmed') {
+      console.log('Zombie created:', result.zombieId, 'in', result.txHash)
+    } else {
+      console.log('Zombie was not created:', result)
+    }
   } catch (error) {
     console.error('Failed to create zombie:', error)
   }
@@ -31,15 +50,25 @@ export async function initializeApp() {
     const zombie = await zombieFactory.getZombie(BigInt(0))
     console.log('Zombie details:', zombie)
 
+    // Level, cooldown and battle record
+    const stats = await zombieFactory.getZombieStats(BigInt(0))
+    console.log('Zombie stats:', stats)
+
     // Generate visual details
-    const visualDetails = generateZombie(BigInt(0), zombie.name, zombie.dna)
+    const visualDetails = generateZombie(
+      BigInt(0),
+      zombie.name,
+      zombie.dna,
+      stats.level
+    )
     console.log('Visual details:', visualDetails)
+
+    // Draw it, the same DNA always gives the same SVG
+    const container = document.getElementById('zombie')
+    if (container) container.innerHTML = renderZombieSvg(visualDetails)
   } catch (error) {
     console.error('Failed to get zombie:', error)
   }
-
-  // Cleanup when done (e.g., component unmount)
-  // cleanup()
 }
 
 // Initialize when DOM is ready
@@ -1,5 +1,6 @@
 // Event listening examples - demonstrates real-time blockchain event handling
 
+import { DEFAULT_CHAIN } from '../src/client'
 import { ZombieFactory } from '../src/zombieFactory'
 
 /**
@@ -7,8 +8,7 @@ import { ZombieFactory } from '../src/zombieFactory'
  * Use this in real applications to react to zombie creation events
  */
 export function demonstrateEventListening() {
-  const CONTRACT_ADDRESS = '0x...' as `0x${string}`
-  const zombieFactory = new ZombieFactory(CONTRACT_ADDRESS)
+  const zombieFactory = ZombieFactory.forChain(DEFAULT_CHAIN.id)
 
   console.log('🎧 Starting event listener...')
 
@@ -32,43 +32,38 @@ export function demonstrateEventListening() {
 }
 
 /**
- * Complete test cycle - creates a zombie AND listens for the event
+ * Complete test cycle - creates a zombie and checks the NewZombie event
+ * decoded from its own receipt, no matter who else is creating zombies
  * Use this for testing/debugging to verify everything works
  */
 export async function testEventListening() {
-  const CONTRACT_ADDRESS = '0x...' as `0x${string}`
-  const zombieFactory = new ZombieFactory(CONTRACT_ADDRESS)
+  const zombieFactory = ZombieFactory.forChain(DEFAULT_CHAIN.id)
 
   console.log('🧪 Starting complete event test...')
 
-  // 1. Start listening for events
-  console.log('1️⃣ Setting up event listener...')
-  const unwatch = zombieFactory.watchNewZombieEvents((event) => {
-    console.log('🔥 Event captured successfully!', event)
-    console.log('✅ Event listening is working correctly!')
-  })
-
-  // 2. Create a zombie to trigger the event
-  console.log('2️⃣ Creating test zombie...')
+  console.log('1️⃣ Creating test zombie...')
   try {
-    const txHash = await zombieFactory.createRandomZombie('TestZombie')
-    console.log('3️⃣ Transaction sent:', txHash)
-    console.log(
-      '4️⃣ Waiting for event... (may take a few seconds for block confirmation)'
-    )
+    const result = await zombieFactory.createRandomZombie('TestZombie', {
+      onStatus: (update) => {
+        if (update.status === 'submitted') {
+          console.log('2️⃣ Transaction sent:', update.txHash)
+        }
+        if (update.status === 'mined') {
+          console.log('3️⃣ Mined in block', update.blockNumber)
+        }
+      },
+    })
+
+    if (result.status !== 'confirmed') {
+      console.error('❌ Zombie was not created:', result)
+      return
+    }
+
+    console.log('🔥 Event captured successfully!', result)
+    console.log('✅ Event decoding is working correctly!')
   } catch (error) {
     console.error('❌ Failed to create zombie:', error)
-    unwatch() // Clean up on error
-    return
   }
-
-  // 3. Auto-cleanup after 30 seconds
-  setTimeout(() => {
-    console.log('5️⃣ Test completed, stopping event listener...')
-    unwatch()
-  }, 30000)
-
-  console.log('⏰ Test will auto-complete in 30 seconds')
 }
 
 /**
@@ -76,8 +71,7 @@ export async function testEventListening() {
  * Example of how to build a live dashboard showing zombie activity
  */
 export function createZombieDashboard() {
-  const CONTRACT_ADDRESS = '0x...' as `0x${string}`
-  const zombieFactory = new ZombieFactory(CONTRACT_ADDRESS)
+  const zombieFactory = ZombieFactory.forChain(DEFAULT_CHAIN.id)
 
   let stats = {
     totalZombies: 0,
@@ -0,0 +1,47 @@
+// Serves zombie metadata and images for one deployment:
+//
+//   ZOMBIE_FACTORY_ADDRESS=0x... RPC_URL=https://... npm run metadata-server
+//
+// Without ZOMBIE_FACTORY_ADDRESS, it serves the deployment of DEFAULT_CHAIN,
+// ex: the one `npx hardhat dev` wrote to .env.local, which the npm script
+// loads. PORT defaults to 3000 and IMAGE_BASE_URL to this server's /zombies
+// path
+import { http, isAddress } from 'viem'
+import { DEFAULT_CHAIN } from '../src/client'
+import { isZombieError } from '../src/errors'
+import { createMetadataServer } from '../src/metadataServer'
+import { ZombieFactory } from '../src/zombieFactory'
+
+function zombieFactory(): ZombieFactory {
+  const address = process.env.ZOMBIE_FACTORY_ADDRESS
+  const rpcUrl = process.env.RPC_URL
+  if (address) {
+    if (!isAddress(address)) {
+      console.error(`ZOMBIE_FACTORY_ADDRESS is not an address: ${address}`)
+      process.exit(1)
+    }
+    return new ZombieFactory(address, { transport: http(rpcUrl) })
+  }
+  try {
+    return ZombieFactory.forChain(DEFAULT_CHAIN.id, {
+      rpcUrls: rpcUrl ? { [DEFAULT_CHAIN.id]: rpcUrl } : undefined,
+    })
+  } catch (error) {
+    if (!isZombieError(error, 'NO_DEPLOYMENT')) throw error
+    console.error(
+      `${error.message}. Set ZOMBIE_FACTORY_ADDRESS, or run \`npx hardhat dev\` in web3/`
+    )
+    process.exit(1)
+  }
+}
+
+const port = Number(process.env.PORT ?? 3000)
+const server = createMetadataServer({
+  zombieFactory: zombieFactory(),
+  imageBaseUrl:
+    process.env.IMAGE_BASE_URL ?? `http://localhost:${port}/zombies`,
+})
+
+server.listen(port, () => {
+  console.log(`Zombie metadata on http://localhost:${port}/zombies/:id`)
+})
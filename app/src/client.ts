@@ -1,17 +1,83 @@
-import { createPublicClient, http, custom, createWalletClient } from 'viem'
-import { mainnet } from 'viem/chains'
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  http,
+  type Account,
+  type Chain,
+  type EIP1193Provider,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem'
+import { sepolia } from 'viem/chains'
+import { ZombieError } from './errors'
+import { getChain } from './networks'
 import './window.d.ts'
-// ou a rede que você estiver utilizando (ex: goerli, sepolia)
+
+// Rede padrão: sepolia, a rede pública do ZombieFactory. A variável
+// ZOMBIE_CHAIN_ID troca por outra, ex: 31337 com `npx hardhat dev`
+export const DEFAULT_CHAIN: Chain =
+  getChain(
+    Number(typeof process === 'undefined' ? 0 : process.env.ZOMBIE_CHAIN_ID)
+  ) ?? sepolia
+
+export interface ReadClientOptions {
+  chain?: Chain
+  // Use um provedor HTTP, como Infura ou Alchemy (opcionalmente passando URL)
+  transport?: Transport
+}
 
 // Para leitura de dados
-const publicClient = createPublicClient({
-  chain: mainnet, // Especifique a rede
-  transport: http(), // Use um provedor HTTP, como Infura ou Alchemy (opcionalmente passando URL)
-})
-
-// Para escrita de dados (conectando a uma carteira, ex: MetaMask no navegador)
-// Certifique-se de que a carteira do usuário esteja disponível no objeto global (window.ethereum)
-const walletClient = createWalletClient({
-  chain: mainnet,
-  transport: custom(window.ethereum!),
-})
+export function createReadClient({
+  chain = DEFAULT_CHAIN,
+  transport = http(),
+}: ReadClientOptions = {}): PublicClient {
+  return createPublicClient({ chain, transport })
+}
+
+export interface WriteClientOptions {
+  chain?: Chain
+  // EIP-1193 provider (ex: MetaMask). Defaults to window.ethereum.
+  provider?: EIP1193Provider
+  // Transport used when signing with a local account (private key, mnemonic)
+  transport?: Transport
+  account?: Account
+}
+
+// Para escrita de dados. A local account signs by itself and only needs a
+// transport to broadcast; otherwise we need an injected wallet.
+export function createWriteClient({
+  chain = DEFAULT_CHAIN,
+  provider,
+  transport,
+  account,
+}: WriteClientOptions = {}): WalletClient {
+  if (account?.type === 'local') {
+    return createWalletClient({
+      chain,
+      account,
+      transport: transport ?? (provider ? custom(provider) : http()),
+    })
+  }
+
+  const injected = provider ?? getInjectedProvider()
+  if (!injected) {
+    throw new ZombieError(
+      { kind: 'NO_WALLET' },
+      'No wallet available: pass a provider, a local account or a wallet client'
+    )
+  }
+
+  return createWalletClient({
+    chain,
+    account,
+    transport: custom(injected),
+  })
+}
+
+// Returns window.ethereum when running in a browser with an injected wallet
+export function getInjectedProvider(): EIP1193Provider | undefined {
+  if (typeof window === 'undefined' || !window.ethereum) return undefined
+  return window.ethereum as EIP1193Provider
+}
@@ -0,0 +1,51 @@
+// Generated by `npx hardhat generate-abis` from contracts/Counter.sol. Do not edit.
+import type { Abi } from 'viem'
+
+export const CounterAbi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'by',
+        type: 'uint256',
+      },
+    ],
+    name: 'Increment',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'inc',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'by',
+        type: 'uint256',
+      },
+    ],
+    name: 'incBy',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'x',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const satisfies Abi
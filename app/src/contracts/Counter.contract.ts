@@ -0,0 +1,82 @@
+// Generated by `npx hardhat generate-abis` from contracts/Counter.sol. Do not edit.
+import type {
+  Account,
+  Address,
+  ContractFunctionArgs,
+  Hash,
+  PublicClient,
+  WalletClient,
+  WatchContractEventOnLogsFn,
+} from 'viem'
+import { CounterAbi as abi } from './Counter.abi'
+
+// Typed reads, writes and event watchers for a deployed Counter
+export class CounterContract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+
+  x() {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'x',
+    })
+  }
+
+  async inc(): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'inc',
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async incBy(
+    args: ContractFunctionArgs<typeof abi, 'nonpayable' | 'payable', 'incBy'>
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'incBy',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  watchIncrement(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'Increment', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'Increment',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('CounterContract needs a wallet client to write')
+    }
+    return this.walletClient
+  }
+
+  private async getAccount(
+    walletClient: WalletClient
+  ): Promise<Account | Address> {
+    if (walletClient.account) return walletClient.account
+    const [address] = await walletClient.requestAddresses()
+    return address
+  }
+}
@@ -0,0 +1,218 @@
+// Generated by `npx hardhat generate-abis` from contracts/ERC721.sol. Do not edit.
+import type {
+  Account,
+  Address,
+  ContractFunctionArgs,
+  Hash,
+  PublicClient,
+  WalletClient,
+  WatchContractEventOnLogsFn,
+} from 'viem'
+import { ERC721Abi as abi } from './ERC721.abi'
+
+// Typed reads, writes and event watchers for a deployed ERC721
+export class ERC721Contract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+
+  balanceOf(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'balanceOf'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'balanceOf',
+      args,
+    })
+  }
+
+  getApproved(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'getApproved'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'getApproved',
+      args,
+    })
+  }
+
+  isApprovedForAll(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'isApprovedForAll'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'isApprovedForAll',
+      args,
+    })
+  }
+
+  ownerOf(args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'ownerOf'>) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'ownerOf',
+      args,
+    })
+  }
+
+  supportsInterface(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'supportsInterface'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'supportsInterface',
+      args,
+    })
+  }
+
+  async approve(
+    args: ContractFunctionArgs<typeof abi, 'nonpayable' | 'payable', 'approve'>
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'approve',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async safeTransferFrom(
+    args: Extract<
+      ContractFunctionArgs<
+        typeof abi,
+        'nonpayable' | 'payable',
+        'safeTransferFrom'
+      >,
+      { length: 3 }
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'safeTransferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async safeTransferFromWithData(
+    args: Extract<
+      ContractFunctionArgs<
+        typeof abi,
+        'nonpayable' | 'payable',
+        'safeTransferFrom'
+      >,
+      { length: 4 }
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'safeTransferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async setApprovalForAll(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'setApprovalForAll'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'setApprovalForAll',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async transferFrom(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'transferFrom'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'transferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  watchApproval(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'Approval', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'Approval',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchApprovalForAll(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'ApprovalForAll', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'ApprovalForAll',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchTransfer(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'Transfer', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'Transfer',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('ERC721Contract needs a wallet client to write')
+    }
+    return this.walletClient
+  }
+
+  private async getAccount(
+    walletClient: WalletClient
+  ): Promise<Account | Address> {
+    if (walletClient.account) return walletClient.account
+    const [address] = await walletClient.requestAddresses()
+    return address
+  }
+}
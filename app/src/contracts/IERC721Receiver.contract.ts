@@ -0,0 +1,54 @@
+// Generated by `npx hardhat generate-abis` from contracts/ERC721.sol. Do not edit.
+import type {
+  Account,
+  Address,
+  ContractFunctionArgs,
+  Hash,
+  PublicClient,
+  WalletClient,
+} from 'viem'
+import { IERC721ReceiverAbi as abi } from './IERC721Receiver.abi'
+
+// Typed reads, writes and event watchers for a deployed IERC721Receiver
+export class IERC721ReceiverContract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+
+  async onERC721Received(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'onERC721Received'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'onERC721Received',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('IERC721ReceiverContract needs a wallet client to write')
+    }
+    return this.walletClient
+  }
+
+  private async getAccount(
+    walletClient: WalletClient
+  ): Promise<Account | Address> {
+    if (walletClient.account) return walletClient.account
+    const [address] = await walletClient.requestAddresses()
+    return address
+  }
+}
@@ -0,0 +1,69 @@
+// Generated by `npx hardhat generate-abis` from contracts/ZombieFeeding.sol. Do not edit.
+import type { Abi } from 'viem'
+
+export const KittyInterfaceAbi = [
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: '_id',
+        type: 'uint256',
+      },
+    ],
+    name: 'getKitty',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: 'isGestating',
+        type: 'bool',
+      },
+      {
+        internalType: 'bool',
+        name: 'isReady',
+        type: 'bool',
+      },
+      {
+        internalType: 'uint256',
+        name: 'cooldownIndex',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'nextActionAt',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'siringWithId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'birthTime',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'matronId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'sireId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'generation',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'genes',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const satisfies Abi
@@ -0,0 +1,30 @@
+// Generated by `npx hardhat generate-abis` from contracts/ZombieFeeding.sol. Do not edit.
+import type {
+  Address,
+  ContractFunctionArgs,
+  PublicClient,
+  WalletClient,
+} from 'viem'
+import { KittyInterfaceAbi as abi } from './KittyInterface.abi'
+
+// Typed reads, writes and event watchers for a deployed KittyInterface
+export class KittyInterfaceContract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+
+  getKitty(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'getKitty'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'getKitty',
+      args,
+    })
+  }
+}
@@ -0,0 +1,381 @@
+// Generated by `npx hardhat generate-abis` from contracts/ZombieFactory.sol. Do not edit.
+import type {
+  Account,
+  Address,
+  ContractFunctionArgs,
+  Hash,
+  PublicClient,
+  WalletClient,
+  WatchContractEventOnLogsFn,
+} from 'viem'
+import { ZombieFactoryAbi as abi } from './ZombieFactory.abi'
+
+// Typed reads, writes and event watchers for a deployed ZombieFactory
+export class ZombieFactoryContract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+
+  MAX_NAME_LENGTH() {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'MAX_NAME_LENGTH',
+    })
+  }
+
+  REVEAL_DELAY() {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'REVEAL_DELAY',
+    })
+  }
+
+  REVEAL_WINDOW() {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'REVEAL_WINDOW',
+    })
+  }
+
+  balanceOf(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'balanceOf'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'balanceOf',
+      args,
+    })
+  }
+
+  commitments(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'commitments'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'commitments',
+      args,
+    })
+  }
+
+  getApproved(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'getApproved'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'getApproved',
+      args,
+    })
+  }
+
+  getZombiesByOwner(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'getZombiesByOwner'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'getZombiesByOwner',
+      args,
+    })
+  }
+
+  getZombiesCount() {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'getZombiesCount',
+    })
+  }
+
+  isApprovedForAll(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'isApprovedForAll'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'isApprovedForAll',
+      args,
+    })
+  }
+
+  nameTaken(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'nameTaken'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'nameTaken',
+      args,
+    })
+  }
+
+  ownerOf(args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'ownerOf'>) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'ownerOf',
+      args,
+    })
+  }
+
+  supportsInterface(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'supportsInterface'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'supportsInterface',
+      args,
+    })
+  }
+
+  zombieToCreator(
+    args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'zombieToCreator'>
+  ) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'zombieToCreator',
+      args,
+    })
+  }
+
+  zombies(args: ContractFunctionArgs<typeof abi, 'pure' | 'view', 'zombies'>) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: 'zombies',
+      args,
+    })
+  }
+
+  async approve(
+    args: ContractFunctionArgs<typeof abi, 'nonpayable' | 'payable', 'approve'>
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'approve',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async commitZombie(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'commitZombie'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'commitZombie',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async createRandomZombie(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'createRandomZombie'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'createRandomZombie',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async revealZombie(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'revealZombie'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'revealZombie',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async safeTransferFrom(
+    args: Extract<
+      ContractFunctionArgs<
+        typeof abi,
+        'nonpayable' | 'payable',
+        'safeTransferFrom'
+      >,
+      { length: 3 }
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'safeTransferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async safeTransferFromWithData(
+    args: Extract<
+      ContractFunctionArgs<
+        typeof abi,
+        'nonpayable' | 'payable',
+        'safeTransferFrom'
+      >,
+      { length: 4 }
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'safeTransferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async setApprovalForAll(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'setApprovalForAll'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'setApprovalForAll',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  async transferFrom(
+    args: ContractFunctionArgs<
+      typeof abi,
+      'nonpayable' | 'payable',
+      'transferFrom'
+    >
+  ): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: 'transferFrom',
+      args,
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }
+
+  watchApproval(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'Approval', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'Approval',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchApprovalForAll(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'ApprovalForAll', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'ApprovalForAll',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchNewZombie(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'NewZombie', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'NewZombie',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchTransfer(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'Transfer', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'Transfer',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  watchZombieCommitted(
+    onLogs: WatchContractEventOnLogsFn<typeof abi, 'ZombieCommitted', true>
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: 'ZombieCommitted',
+      strict: true,
+      onLogs,
+    })
+  }
+
+  private requireWalletClient(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('ZombieFactoryContract needs a wallet client to write')
+    }
+    return this.walletClient
+  }
+
+  private async getAccount(
+    walletClient: WalletClient
+  ): Promise<Account | Address> {
+    if (walletClient.account) return walletClient.account
+    const [address] = await walletClient.requestAddresses()
+    return address
+  }
+}
@@ -0,0 +1,29 @@
+// Generated by `npx hardhat generate-registry` from hardhat.config.ts and deployments.json. Do not edit.
+import type { Address, Hash } from 'viem'
+
+export interface DeployedContract {
+  address: Address
+  // Block of the deployment transaction, where event scans can start
+  startBlock: bigint
+  transactionHash: Hash
+}
+
+export interface RegistryNetwork {
+  // Network name in hardhat.config.ts
+  network: string
+  chainType: string
+  // Configuration variable holding the RPC URL, ex: SEPOLIA_RPC_URL
+  rpcUrlVariable?: string
+  // Latest deployment of each contract
+  contracts: Partial<Record<string, DeployedContract>>
+}
+
+export const networkRegistry: Record<number, RegistryNetwork> = {
+  31337: { network: 'localhost', chainType: 'l1', contracts: {} },
+  11155111: {
+    network: 'sepolia',
+    chainType: 'l1',
+    rpcUrlVariable: 'SEPOLIA_RPC_URL',
+    contracts: {},
+  },
+}
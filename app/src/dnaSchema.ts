@@ -0,0 +1,323 @@
+import dnaSchemas from './dnaSchemas.json'
+import type { ZombieTraits } from './zombieFactory'
+
+// A trait read from a slice of the DNA digits
+interface TraitDigits {
+  // Key of the decoded trait, ex: headChoice
+  name: string
+  // Shown to people, ex: the trait_type of the token metadata
+  label: string
+  // Digits [start, start + length) of the DNA written with dnaDigits digits
+  // (zero-padded), counting from the left
+  start: number
+  length: number
+}
+
+// 1 to `variants`: the slice modulo `variants`, plus one
+export interface VariantTrait extends TraitDigits {
+  kind: 'variant'
+  variants: number
+}
+
+// 0 to 359 degrees: the slice as a fraction of 10^length, times 360
+export interface HueTrait extends TraitDigits {
+  kind: 'hue'
+}
+
+export type TraitSlice = VariantTrait | HueTrait
+
+export interface DnaSchema {
+  version: number
+  // First zombie minted with this layout; older ones keep the previous one
+  fromZombieId: bigint
+  // The contract's dnaDigits: every DNA is below 10^dnaDigits
+  dnaDigits: number
+  traits: TraitSlice[]
+}
+
+export type DecodedTraits = Record<string, number>
+
+// Invalid schema, or DNA / traits that do not fit it
+export class DnaError extends Error {
+  readonly trait?: string
+
+  constructor(message: string, trait?: string) {
+    super(message)
+    this.name = 'DnaError'
+    this.trait = trait
+  }
+}
+
+// Longest slice whose digits still parse to a safe integer
+const MAX_SLICE_LENGTH = 15
+
+// The contract ends every DNA with a species marker (decodeZombieSpecies),
+// whatever the schema version: no trait may use these last digits
+export const SPECIES_MARKER_DIGITS = 2
+
+export function decodeSpeciesMarker(dna: bigint): bigint {
+  return dna % 10n ** BigInt(SPECIES_MARKER_DIGITS)
+}
+
+// Traits the app relies on (renderZombieSvg, the store filters), which every
+// version must keep
+const ZOMBIE_TRAIT_NAMES: readonly (keyof ZombieTraits)[] = [
+  'headChoice',
+  'eyeChoice',
+  'shirtChoice',
+  'skinColorChoice',
+  'eyeColorChoice',
+  'clothesColorChoice',
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+function parseTraitSlice(input: unknown, dnaDigits: number): TraitSlice {
+  if (!isRecord(input) || typeof input.name !== 'string' || !input.name) {
+    throw new DnaError('Every trait needs a name')
+  }
+  const { name, label = name, start, length, kind, variants } = input
+  const fail = (problem: string) => new DnaError(`${name}: ${problem}`, name)
+
+  if (typeof label !== 'string') throw fail('label must be a string')
+  if (!isIndex(start) || !isIndex(length) || length === 0) {
+    throw fail('start and length must be integers, with length > 0')
+  }
+  if (length > MAX_SLICE_LENGTH) {
+    throw fail(`length must be at most ${MAX_SLICE_LENGTH}`)
+  }
+  if (start + length > dnaDigits) {
+    throw fail(`digits ${start}-${start + length - 1} are past dnaDigits`)
+  }
+  if (start + length > dnaDigits - SPECIES_MARKER_DIGITS) {
+    throw fail(
+      `digits ${start}-${start + length - 1} overlap the species marker, the last ${SPECIES_MARKER_DIGITS}`
+    )
+  }
+
+  const slice = { name, label, start, length }
+  if (kind === 'hue') return { ...slice, kind }
+  if (kind !== 'variant') throw fail('kind must be "variant" or "hue"')
+  if (!Number.isInteger(variants) || (variants as number) < 1) {
+    throw fail('variants must be a positive integer')
+  }
+  if ((variants as number) > 10 ** length) {
+    throw fail(`${length} digits cannot hold ${variants} variants`)
+  }
+  return { ...slice, kind, variants: variants as number }
+}
+
+// Checks a schema (ex: parsed from JSON) and returns it typed
+export function parseDnaSchema(input: unknown): DnaSchema {
+  if (!isRecord(input)) throw new DnaError('A schema must be an object')
+  const { version, fromZombieId = 0, dnaDigits, traits } = input
+
+  if (!Number.isInteger(version)) {
+    throw new DnaError('version must be an integer')
+  }
+  if (
+    (typeof fromZombieId !== 'string' || !/^\d+$/.test(fromZombieId)) &&
+    !isIndex(fromZombieId)
+  ) {
+    throw new DnaError(`v${version}: fromZombieId must be a zombie id`)
+  }
+  if (
+    !isIndex(dnaDigits) ||
+    dnaDigits <= SPECIES_MARKER_DIGITS ||
+    dnaDigits > 77
+  ) {
+    throw new DnaError(
+      `v${version}: dnaDigits must be from ${SPECIES_MARKER_DIGITS + 1} to 77`
+    )
+  }
+  if (!Array.isArray(traits) || traits.length === 0) {
+    throw new DnaError(`v${version}: traits must be a non-empty list`)
+  }
+
+  const slices = traits.map((trait) => parseTraitSlice(trait, dnaDigits))
+  const owners: (string | undefined)[] = new Array(dnaDigits)
+  const names = new Set<string>()
+  for (const slice of slices) {
+    if (names.has(slice.name)) {
+      throw new DnaError(`v${version}: ${slice.name} is listed twice`)
+    }
+    names.add(slice.name)
+    for (let i = slice.start; i < slice.start + slice.length; i++) {
+      if (owners[i]) {
+        throw new DnaError(
+          `v${version}: ${slice.name} and ${owners[i]} both use digit ${i}`,
+          slice.name
+        )
+      }
+      owners[i] = slice.name
+    }
+  }
+
+  return {
+    version: version as number,
+    fromZombieId: BigInt(fromZombieId),
+    dnaDigits,
+    traits: slices,
+  }
+}
+
+// Checks a `{ versions: [...] }` list, ordered by version and fromZombieId
+export function parseDnaSchemas(input: unknown): DnaSchema[] {
+  if (!isRecord(input) || !Array.isArray(input.versions)) {
+    throw new DnaError('Expected { "versions": [...] }')
+  }
+  const schemas = input.versions.map(parseDnaSchema)
+  if (schemas.length === 0 || schemas[0].fromZombieId !== 0n) {
+    throw new DnaError('The first version must start at zombie 0')
+  }
+  for (let i = 1; i < schemas.length; i++) {
+    const [previous, schema] = [schemas[i - 1], schemas[i]]
+    if (
+      schema.version <= previous.version ||
+      schema.fromZombieId <= previous.fromZombieId
+    ) {
+      throw new DnaError(
+        `v${schema.version} must come after v${previous.version}, with a higher version and fromZombieId`
+      )
+    }
+  }
+  return schemas
+}
+
+function requireZombieTraits(schema: DnaSchema): DnaSchema {
+  for (const name of ZOMBIE_TRAIT_NAMES) {
+    if (!schema.traits.some((trait) => trait.name === name)) {
+      throw new DnaError(`v${schema.version} is missing ${name}`, name)
+    }
+  }
+  return schema
+}
+
+// The versions in dnaSchemas.json. Adding a trait means adding a version
+// there, starting at the next zombie id to be minted
+export const DNA_SCHEMAS: readonly DnaSchema[] =
+  parseDnaSchemas(dnaSchemas).map(requireZombieTraits)
+
+export const LATEST_DNA_SCHEMA = DNA_SCHEMAS[DNA_SCHEMAS.length - 1]
+
+// The schema a zombie was minted with
+export function schemaForZombie(
+  zombieId: bigint,
+  schemas: readonly DnaSchema[] = DNA_SCHEMAS
+): DnaSchema {
+  const schema = schemas.findLast((schema) => schema.fromZombieId <= zombieId)
+  if (!schema) throw new DnaError(`No DNA schema covers zombie ${zombieId}`)
+  return schema
+}
+
+// Kept as (n / 10^length) * 360 in floating point, like the original UI,
+// so existing zombies keep exactly the same colors
+function decodeHue(n: number, length: number): number {
+  return Math.floor((n / 10 ** length) * 360)
+}
+
+export function decodeDna(dna: bigint, schema: DnaSchema): DecodedTraits {
+  if (dna < 0n || dna >= 10n ** BigInt(schema.dnaDigits)) {
+    throw new DnaError(
+      `DNA ${dna} does not fit in ${schema.dnaDigits} digits (v${schema.version})`
+    )
+  }
+  const digits = dna.toString().padStart(schema.dnaDigits, '0')
+
+  const traits: DecodedTraits = {}
+  for (const trait of schema.traits) {
+    const n = parseInt(
+      digits.substring(trait.start, trait.start + trait.length)
+    )
+    traits[trait.name] =
+      trait.kind === 'variant'
+        ? (n % trait.variants) + 1
+        : decodeHue(n, trait.length)
+  }
+  return traits
+}
+
+// decodeDna for a zombie, whose schema holds every trait of ZombieTraits:
+// a schema without one throws rather than leave it undefined
+export function decodeZombieTraits(
+  dna: bigint,
+  schema: DnaSchema
+): ZombieTraits & DecodedTraits {
+  const traits = decodeDna(dna, schema)
+  const trait = (name: keyof ZombieTraits) => {
+    const value = traits[name]
+    if (value === undefined) {
+      throw new DnaError(`v${schema.version} is missing ${name}`, name)
+    }
+    return value
+  }
+  return {
+    ...traits,
+    headChoice: trait('headChoice'),
+    eyeChoice: trait('eyeChoice'),
+    shirtChoice: trait('shirtChoice'),
+    skinColorChoice: trait('skinColorChoice'),
+    eyeColorChoice: trait('eyeColorChoice'),
+    clothesColorChoice: trait('clothesColorChoice'),
+  }
+}
+
+// Smallest slice value that decodes to the trait value
+function encodeTrait(trait: TraitSlice, value: number): number {
+  const fail = (problem: string) =>
+    new DnaError(`${trait.name} ${value}: ${problem}`, trait.name)
+
+  if (trait.kind === 'variant') {
+    if (!Number.isInteger(value) || value < 1 || value > trait.variants) {
+      throw fail(`must be an integer from 1 to ${trait.variants}`)
+    }
+    return value - 1
+  }
+
+  if (!Number.isInteger(value) || value < 0 || value >= 360) {
+    throw fail('must be an integer from 0 to 359')
+  }
+  // With n digits only 10^n hues exist, so not every degree can be encoded
+  const scale = 10 ** trait.length
+  const guess = Math.ceil((value * scale) / 360)
+  const n = [guess - 1, guess, guess + 1].find(
+    (n) => n >= 0 && n < scale && decodeHue(n, trait.length) === value
+  )
+  if (n === undefined) {
+    throw fail(`no ${trait.length}-digit value decodes to this hue`)
+  }
+  return n
+}
+
+/**
+ * Inverse of decodeDna: the smallest DNA decoding to `traits`, with the
+ * digits no trait uses set to 0, the species marker of zombies included. Every trait of the schema is required and
+ * no other key is accepted.
+ */
+export function encodeTraits(traits: DecodedTraits, schema: DnaSchema): bigint {
+  for (const name of Object.keys(traits)) {
+    if (!schema.traits.some((trait) => trait.name === name)) {
+      throw new DnaError(`v${schema.version} has no trait ${name}`, name)
+    }
+  }
+
+  const digits = new Array<string>(schema.dnaDigits).fill('0')
+  for (const trait of schema.traits) {
+    if (traits[trait.name] === undefined) {
+      throw new DnaError(`${trait.name} is missing`, trait.name)
+    }
+    const n = encodeTrait(trait, traits[trait.name])
+    digits.splice(
+      trait.start,
+      trait.length,
+      ...n.toString().padStart(trait.length, '0')
+    )
+  }
+  return BigInt(digits.join(''))
+}
@@ -0,0 +1,272 @@
+import {
+  BaseError,
+  ChainDisconnectedError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  LimitExceededRpcError,
+  ProviderDisconnectedError,
+  RpcError,
+  SocketClosedError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WaitForCallsStatusTimeoutError,
+  WaitForTransactionReceiptTimeoutError,
+  WebSocketRequestError,
+  type Hex,
+} from 'viem'
+
+// What went wrong, with the data each kind of failure carries
+export type ZombieErrorDetails =
+  | { kind: 'USER_REJECTED' }
+  | { kind: 'INSUFFICIENT_FUNDS' }
+  | {
+      kind: 'CONTRACT_REVERTED'
+      // require() message, or the custom error name
+      reason?: string
+      errorName?: string
+      args?: readonly unknown[]
+      data?: Hex
+    }
+  | { kind: 'NO_WALLET' }
+  // The wallet stayed on another chain than the app's
+  | { kind: 'WRONG_CHAIN'; chainId?: number; expectedChainId: number }
+  // No ZombieFactory in the network registry for that chain
+  | { kind: 'NO_DEPLOYMENT'; chainId: number; deployedChainIds: number[] }
+  // No secret kept for the commitment, or no such commitment on chain: not
+  // made from this storage, already revealed, or its commit is not mined yet
+  | { kind: 'UNKNOWN_COMMITMENT'; commitment: Hex }
+  // Not revealed within REVEAL_WINDOW blocks of its reveal block
+  | { kind: 'COMMITMENT_EXPIRED'; commitment: Hex; revealBlock: bigint }
+  // Checked before committing, as the contract only checks at the reveal
+  | {
+      kind: 'INVALID_NAME'
+      name: string
+      reason: 'length' | 'character' | 'taken'
+    }
+  | { kind: 'RATE_LIMITED' }
+  | { kind: 'TIMEOUT' }
+  // The request did not reach the node, or its answer did not come back
+  | { kind: 'NETWORK'; status?: number }
+  // The node answered with a JSON-RPC error, ex: -32602 for invalid params:
+  // the same request gets the same answer
+  | { kind: 'RPC_ERROR'; code: number }
+  | { kind: 'UNKNOWN' }
+
+export type ZombieErrorKind = ZombieErrorDetails['kind']
+
+// Failures that may go away by sending the same request again
+const RETRYABLE_KINDS: ReadonlySet<ZombieErrorKind> = new Set([
+  'RATE_LIMITED',
+  'TIMEOUT',
+  'NETWORK',
+])
+
+const DEFAULT_MESSAGES: Record<ZombieErrorKind, string> = {
+  USER_REJECTED: 'Transaction was cancelled by user',
+  INSUFFICIENT_FUNDS: 'Insufficient funds for gas fees',
+  CONTRACT_REVERTED: 'Transaction failed - contract rejected the operation',
+  NO_WALLET: 'No wallet available',
+  WRONG_CHAIN: 'Wallet is connected to the wrong network',
+  NO_DEPLOYMENT: 'ZombieFactory is not deployed on this network',
+  UNKNOWN_COMMITMENT: 'There is no pending zombie for this commitment',
+  COMMITMENT_EXPIRED: 'The zombie was not revealed in time - commit again',
+  INVALID_NAME: 'This zombie name cannot be used',
+  RATE_LIMITED: 'Too many requests to the RPC - please wait and try again',
+  TIMEOUT: 'The RPC took too long to answer',
+  NETWORK: 'Network error - please check your connection',
+  RPC_ERROR: 'The RPC refused the request',
+  UNKNOWN: 'An unexpected error occurred',
+}
+
+/**
+ * Error thrown by ZombieFactory. `details.kind` says what went wrong without
+ * depending on the wallet's or node's wording; the original error is kept as
+ * `cause`.
+ */
+export class ZombieError extends Error {
+  readonly details: ZombieErrorDetails
+  readonly retryable: boolean
+
+  constructor(
+    details: ZombieErrorDetails,
+    message: string = DEFAULT_MESSAGES[details.kind],
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, options)
+    this.name = 'ZombieError'
+    this.details = details
+    this.retryable = RETRYABLE_KINDS.has(details.kind)
+  }
+
+  get kind(): ZombieErrorKind {
+    return this.details.kind
+  }
+}
+
+export function isZombieError(
+  error: unknown,
+  kind?: ZombieErrorKind
+): error is ZombieError {
+  return (
+    error instanceof ZombieError && (kind === undefined || error.kind === kind)
+  )
+}
+
+/**
+ * Classifies any error thrown by viem (or by the wallet) by walking its cause
+ * chain, so a rejection buried under a ContractFunctionExecutionError is still
+ * reported as USER_REJECTED.
+ */
+export function toZombieError(error: unknown): ZombieError {
+  if (error instanceof ZombieError) return error
+
+  const find = (predicate: (cause: unknown) => boolean): unknown =>
+    error instanceof BaseError
+      ? error.walk(predicate)
+      : predicate(error)
+        ? error
+        : null
+  const options = { cause: error }
+
+  // Codes also cover the errors of wallets and nodes that viem did not wrap
+  const hasCode = (...codes: number[]) =>
+    find((cause) => codes.includes(rpcErrorCode(cause) ?? NaN))
+
+  if (hasCode(UserRejectedRequestError.code)) {
+    return new ZombieError({ kind: 'USER_REJECTED' }, undefined, options)
+  }
+
+  if (find((cause) => cause instanceof InsufficientFundsError)) {
+    return new ZombieError({ kind: 'INSUFFICIENT_FUNDS' }, undefined, options)
+  }
+
+  const reverted = find(
+    (cause) => cause instanceof ContractFunctionRevertedError
+  )
+  if (reverted instanceof ContractFunctionRevertedError) {
+    const errorName = reverted.data?.errorName
+    const reason = reverted.reason ?? errorName
+    return new ZombieError(
+      {
+        kind: 'CONTRACT_REVERTED',
+        reason,
+        errorName,
+        args: reverted.data?.args,
+        data: reverted.raw,
+      },
+      reason ? `Transaction reverted: ${reason}` : undefined,
+      options
+    )
+  }
+
+  // A revert without the contract's ABI, ex: from a raw eth_call
+  if (
+    find((cause) => cause instanceof ExecutionRevertedError) ||
+    hasCode(ExecutionRevertedError.code)
+  ) {
+    return new ZombieError({ kind: 'CONTRACT_REVERTED' }, undefined, options)
+  }
+
+  const found = find((cause) => cause instanceof HttpRequestError)
+  const httpError = found instanceof HttpRequestError ? found : undefined
+  if (httpError?.status === 429 || hasCode(LimitExceededRpcError.code)) {
+    return new ZombieError({ kind: 'RATE_LIMITED' }, undefined, options)
+  }
+
+  if (
+    find(
+      (cause) =>
+        cause instanceof TimeoutError ||
+        cause instanceof WaitForTransactionReceiptTimeoutError ||
+        cause instanceof WaitForCallsStatusTimeoutError
+    )
+  ) {
+    return new ZombieError({ kind: 'TIMEOUT' }, undefined, options)
+  }
+
+  // Only failures of the transport itself may go away on a retry
+  if (
+    httpError ||
+    find(
+      (cause) =>
+        cause instanceof WebSocketRequestError ||
+        cause instanceof SocketClosedError
+    ) ||
+    hasCode(ProviderDisconnectedError.code, ChainDisconnectedError.code)
+  ) {
+    return new ZombieError(
+      { kind: 'NETWORK', status: httpError?.status },
+      undefined,
+      options
+    )
+  }
+
+  // The node's own error, else the RpcError viem wrapped it in
+  const rpcError =
+    find(
+      (cause) =>
+        !(cause instanceof RpcError) && rpcErrorCode(cause) !== undefined
+    ) ?? find((cause) => cause instanceof RpcError)
+  const code = rpcErrorCode(rpcError)
+  if (code !== undefined) {
+    const { details } =
+      rpcError instanceof BaseError
+        ? rpcError
+        : { details: (rpcError as { message?: string }).message }
+    return new ZombieError(
+      { kind: 'RPC_ERROR', code },
+      `RPC error ${code}: ${details}`,
+      options
+    )
+  }
+
+  return new ZombieError(
+    { kind: 'UNKNOWN' },
+    error instanceof BaseError ? error.shortMessage : undefined,
+    options
+  )
+}
+
+// The JSON-RPC or EIP-1193 code of an error, wrapped by viem or not
+function rpcErrorCode(error: unknown): number | undefined {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'number' ? code : undefined
+}
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number
+  // Delay before the first retry, doubled on each following one
+  baseDelayMs?: number
+  maxDelayMs?: number
+  onRetry?: (error: ZombieError, attempt: number, delayMs: number) => void
+}
+
+/**
+ * Runs `fn` again with exponential backoff while it fails with a retryable
+ * ZombieError. Anything else (a rejection, a revert) is thrown right away.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 8_000,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      const zombieError = toZombieError(error)
+      if (!zombieError.retryable || attempt >= retries) throw zombieError
+
+      const delayMs = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs)
+      onRetry?.(zombieError, attempt + 1, delayMs)
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    }
+  }
+}
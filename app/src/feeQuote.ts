@@ -0,0 +1,107 @@
+import {
+  formatEther,
+  type Abi,
+  type Account,
+  type Address,
+  type PublicClient,
+} from 'viem'
+import { estimateContractL1Fee } from 'viem/op-stack'
+import { networkRegistry } from './contracts/registry'
+import { toZombieError } from './errors'
+
+// The GasPriceOracle predeploy, at the same address on every OP-stack chain
+const GAS_PRICE_ORACLE_ADDRESS: Address =
+  '0x420000000000000000000000000000000000000F'
+
+export interface FeeAmount {
+  wei: bigint
+  // formatEther(wei), ex: '0.000123'
+  eth: string
+}
+
+/**
+ * What a transaction should cost before it is signed. The execution fee is
+ * gasLimit times the fee per gas, somewhere between the base fee plus the
+ * tip (`expected`) and maxFeePerGas (`max`, the most the wallet would let
+ * it pay). On OP-stack chains both totals include `l1DataFee`, charged on
+ * top for posting the transaction to L1, which is 0 on other chains.
+ */
+export interface FeeQuote {
+  gasLimit: bigint
+  // EIP-1559 fees per gas, in wei, as a wallet would fill them in now
+  baseFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  maxFeePerGas: bigint
+  // In wei, 0 but on OP-stack chains
+  l1DataFee: bigint
+  expected: FeeAmount
+  max: FeeAmount
+}
+
+export interface ContractWriteRequest {
+  address: Address
+  abi: Abi
+  functionName: string
+  args: readonly unknown[]
+  // The sender matters: the call is estimated as it would run for it
+  account: Account | Address
+  // Wei sent along, for payable functions
+  value?: bigint
+}
+
+export interface QuoteOptions {
+  // Chain type of the network in hardhat.config.ts, ex: 'op'. Defaults to
+  // the registry's for the client's chainId
+  chainType?: string
+}
+
+/**
+ * Estimates the gas and fees of a contract write against `publicClient`'s
+ * node. Networks of the `op` chain type (Optimism, Base...) are OP-stack
+ * chains, and get the L1 data fee too. A call that would revert throws a
+ * CONTRACT_REVERTED ZombieError
+ */
+export async function quoteContractWrite(
+  publicClient: PublicClient,
+  request: ContractWriteRequest,
+  { chainType }: QuoteOptions = {}
+): Promise<FeeQuote> {
+  try {
+    const chainId = publicClient.chain?.id ?? (await publicClient.getChainId())
+    const isOpStack =
+      (chainType ?? networkRegistry[chainId]?.chainType) === 'op'
+    const [gasLimit, block, fees, l1DataFee] = await Promise.all([
+      publicClient.estimateContractGas(request),
+      publicClient.getBlock(),
+      publicClient.estimateFeesPerGas(),
+      isOpStack
+        ? estimateContractL1Fee(publicClient, {
+            ...request,
+            chain: undefined,
+            gasPriceOracleAddress: GAS_PRICE_ORACLE_ADDRESS,
+          })
+        : 0n,
+    ])
+    const { maxFeePerGas, maxPriorityFeePerGas } = fees
+    const baseFeePerGas = block.baseFeePerGas ?? 0n
+
+    let expectedFeePerGas = baseFeePerGas + maxPriorityFeePerGas
+    if (expectedFeePerGas > maxFeePerGas) expectedFeePerGas = maxFeePerGas
+
+    return {
+      gasLimit,
+      baseFeePerGas,
+      maxPriorityFeePerGas,
+      maxFeePerGas,
+      l1DataFee,
+      expected: toFeeAmount(gasLimit * expectedFeePerGas + l1DataFee),
+      max: toFeeAmount(gasLimit * maxFeePerGas + l1DataFee),
+    }
+  } catch (error) {
+    throw toZombieError(error)
+  }
+}
+
+function toFeeAmount(wei: bigint): FeeAmount {
+  return { wei, eth: formatEther(wei) }
+}
@@ -0,0 +1,165 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type {
+  CheckpointStore,
+  IndexedTransfer,
+  IndexerCheckpoint,
+  ZombieOwner,
+} from './indexer'
+import {
+  applyQuery,
+  deserializeZombie,
+  serializeZombie,
+  toZombieOwner,
+  type SerializedZombie,
+  type StoredZombie,
+  type ZombieQuery,
+  type ZombieStore,
+} from './zombieStore'
+
+// 2: zombies have an owner. Older files have to be indexed again
+const FILE_VERSION = 2
+
+interface ZombieFile {
+  version: typeof FILE_VERSION
+  checkpoint?: {
+    blockNumber: string
+    blockHash: IndexerCheckpoint['blockHash']
+  }
+  zombies: SerializedZombie[]
+}
+
+/**
+ * Node store: keeps everything in memory and writes the whole JSON file
+ * after each change (tmp file + rename, so a crash never leaves it half
+ * written). Meant for backend jobs with up to a few hundred thousand zombies.
+ */
+export class FileZombieStore implements ZombieStore {
+  readonly checkpoints: CheckpointStore
+  private filePath: string
+  private zombies?: Map<bigint, StoredZombie>
+  private checkpoint?: IndexerCheckpoint
+  private loading?: Promise<Map<bigint, StoredZombie>>
+  // Writes are chained so they land in the order they were made; a failed
+  // write does not block the next ones
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.checkpoints = {
+      load: async () => {
+        await this.load()
+        return this.checkpoint
+      },
+      save: async (checkpoint) => {
+        await this.load()
+        this.checkpoint = checkpoint
+        await this.persist()
+      },
+    }
+  }
+
+  async put(zombies: StoredZombie[]) {
+    const stored = await this.load()
+    for (const zombie of zombies) stored.set(zombie.id, zombie)
+    await this.persist()
+  }
+
+  async applyTransfers(transfers: IndexedTransfer[]) {
+    await this.setOwners(transfers.map(toZombieOwner))
+  }
+
+  async setOwners(owners: ZombieOwner[]) {
+    const stored = await this.load()
+    for (const { zombieId, owner } of owners) {
+      const zombie = stored.get(zombieId)
+      if (zombie) stored.set(zombieId, { ...zombie, owner })
+    }
+    await this.persist()
+  }
+
+  async get(id: bigint) {
+    return (await this.load()).get(id)
+  }
+
+  async query(query?: ZombieQuery) {
+    return applyQuery((await this.load()).values(), query)
+  }
+
+  async count() {
+    return (await this.load()).size
+  }
+
+  async removeFromBlock(blockNumber: bigint) {
+    const stored = await this.load()
+    for (const [id, zombie] of stored) {
+      if (zombie.blockNumber >= blockNumber) stored.delete(id)
+    }
+    await this.persist()
+  }
+
+  async clear() {
+    const stored = await this.load()
+    stored.clear()
+    this.checkpoint = undefined
+    await this.persist()
+  }
+
+  private load(): Promise<Map<bigint, StoredZombie>> {
+    this.loading ??= this.readFile()
+    return this.loading
+  }
+
+  private async readFile(): Promise<Map<bigint, StoredZombie>> {
+    let content: string
+    try {
+      content = await readFile(this.filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      this.zombies = new Map()
+      return this.zombies
+    }
+
+    const file: ZombieFile = JSON.parse(content)
+    if (file.version !== FILE_VERSION) {
+      throw new Error(
+        `${this.filePath} has version ${file.version}, expected ${FILE_VERSION}`
+      )
+    }
+
+    this.checkpoint = file.checkpoint && {
+      blockNumber: BigInt(file.checkpoint.blockNumber),
+      blockHash: file.checkpoint.blockHash,
+    }
+    this.zombies = new Map(
+      file.zombies.map((zombie) => {
+        const stored = deserializeZombie(zombie)
+        return [stored.id, stored]
+      })
+    )
+    return this.zombies
+  }
+
+  private persist(): Promise<void> {
+    this.writing = this.writing
+      .catch(() => {})
+      .then(async () => {
+        const file: ZombieFile = {
+          version: FILE_VERSION,
+          checkpoint: this.checkpoint && {
+            blockNumber: this.checkpoint.blockNumber.toString(),
+            blockHash: this.checkpoint.blockHash,
+          },
+          zombies: [...(this.zombies ?? new Map()).values()].map(
+            serializeZombie
+          ),
+        }
+
+        const tmpPath = `${this.filePath}.tmp`
+        await mkdir(path.dirname(this.filePath), { recursive: true })
+        await writeFile(tmpPath, JSON.stringify(file, null, 2))
+        await rename(tmpPath, this.filePath)
+      })
+    return this.writing
+  }
+}
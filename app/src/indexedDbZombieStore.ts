@@ -0,0 +1,276 @@
+import type {
+  CheckpointStore,
+  IndexedTransfer,
+  IndexerCheckpoint,
+  ZombieOwner,
+} from './indexer'
+import {
+  applyQuery,
+  deserializeZombie,
+  serializeZombie,
+  toZombieOwner,
+  ZombiePageBuilder,
+  type SerializedZombie,
+  type StoredZombie,
+  type ZombiePage,
+  type ZombieQuery,
+  type ZombieStore,
+} from './zombieStore'
+
+// 2: records have an owner, indexed as ownerKey. Older databases are
+// dropped and indexed again
+const DB_VERSION = 2
+const ZOMBIES = 'zombies'
+const META = 'meta'
+const CHECKPOINT_KEY = 'checkpoint'
+
+// IndexedDB keys cannot be bigints: numbers are stored as zero-padded
+// strings (78 digits fit any uint256) so that key order is numeric order
+interface ZombieRecord extends SerializedZombie {
+  key: string
+  blockKey: string
+  // Lowercased, as addresses come checksummed or not
+  ownerKey: string
+}
+
+function toKey(value: bigint): string {
+  return value.toString().padStart(78, '0')
+}
+
+function toRecord(zombie: StoredZombie): ZombieRecord {
+  return {
+    ...serializeZombie(zombie),
+    key: toKey(zombie.id),
+    blockKey: toKey(zombie.blockNumber),
+    ownerKey: zombie.owner.toLowerCase(),
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Browser store backed by IndexedDB, so the zombies and the indexer
+ * checkpoint survive reloads. Owner queries read the owner index; id and
+ * block ordered queries walk a cursor from the page's cursor and stop once
+ * the page is full. Sorting by name reads the id range and sorts in memory,
+ * as IndexedDB does not compare strings like localeCompare does.
+ */
+export class IndexedDbZombieStore implements ZombieStore {
+  readonly checkpoints: CheckpointStore
+  private dbName: string
+  private db?: Promise<IDBDatabase>
+
+  // One database per contract and chain, ex: `zombies-1-0xabc...`
+  constructor(dbName: string) {
+    this.dbName = dbName
+    this.checkpoints = {
+      load: async () => {
+        const stored = await this.read<{
+          blockNumber: string
+          blockHash: IndexerCheckpoint['blockHash']
+        }>(META, (store) => store.get(CHECKPOINT_KEY))
+        return (
+          stored && {
+            blockNumber: BigInt(stored.blockNumber),
+            blockHash: stored.blockHash,
+          }
+        )
+      },
+      save: (checkpoint) =>
+        this.write([META], (tx) => {
+          const meta = tx.objectStore(META)
+          if (checkpoint) {
+            meta.put(
+              {
+                blockNumber: checkpoint.blockNumber.toString(),
+                blockHash: checkpoint.blockHash,
+              },
+              CHECKPOINT_KEY
+            )
+          } else {
+            meta.delete(CHECKPOINT_KEY)
+          }
+        }),
+    }
+  }
+
+  async put(zombies: StoredZombie[]) {
+    await this.write([ZOMBIES], (tx) => {
+      const store = tx.objectStore(ZOMBIES)
+      for (const zombie of zombies) store.put(toRecord(zombie))
+    })
+  }
+
+  async applyTransfers(transfers: IndexedTransfer[]) {
+    await this.setOwners(transfers.map(toZombieOwner))
+  }
+
+  async setOwners(owners: ZombieOwner[]) {
+    await this.write([ZOMBIES], (tx) => {
+      const store = tx.objectStore(ZOMBIES)
+      // Requests of a transaction run in order, so each get sees the put
+      // of an earlier owner of the same zombie
+      for (const { zombieId, owner } of owners) {
+        const req = store.get(toKey(zombieId))
+        req.onsuccess = () => {
+          const record: ZombieRecord | undefined = req.result
+          if (!record) return
+          store.put({ ...record, owner, ownerKey: owner.toLowerCase() })
+        }
+      }
+    })
+  }
+
+  async get(id: bigint) {
+    const record = await this.read<ZombieRecord | undefined>(ZOMBIES, (store) =>
+      store.get(toKey(id))
+    )
+    return record && deserializeZombie(record)
+  }
+
+  async query(query: ZombieQuery = {}): Promise<ZombiePage> {
+    const { owner, sortBy = 'id', order = 'asc' } = query
+
+    if (owner !== undefined) {
+      const records = await this.read<ZombieRecord[]>(ZOMBIES, (store) =>
+        store.index('ownerKey').getAll(owner.toLowerCase())
+      )
+      return applyQuery(records.map(deserializeZombie), query)
+    }
+    if (sortBy === 'name') {
+      const records = await this.read<ZombieRecord[]>(ZOMBIES, (store) =>
+        store.getAll(this.keyRange(query.id?.min, query.id?.max))
+      )
+      return applyQuery(records.map(deserializeZombie), query)
+    }
+
+    // Narrow the walk by the range on the sort key and by where the
+    // previous page ended. Same-block zombies come by id within the
+    // blockKey index, so a block cursor starts at its block and the
+    // builder skips the ones already listed
+    const builder = new ZombiePageBuilder(query)
+    let { min, max } = (sortBy === 'id' ? query.id : query.blockNumber) ?? {}
+    if (builder.after) {
+      const [key, id] = builder.after as [bigint, bigint]
+      const next = sortBy === 'id' ? id + (order === 'asc' ? 1n : -1n) : key
+      if (order === 'asc') min = min === undefined || next > min ? next : min
+      else max = max === undefined || next < max ? next : max
+    }
+    // Nothing left, ex: past id 0 going down
+    if (max !== undefined && (max < 0n || (min !== undefined && min > max))) {
+      return builder.page
+    }
+
+    await this.scan(
+      (store) => (sortBy === 'id' ? store : store.index('blockKey')),
+      this.keyRange(min, max),
+      order === 'asc' ? 'next' : 'prev',
+      (record) => builder.add(deserializeZombie(record))
+    )
+    return builder.page
+  }
+
+  async count() {
+    return this.read<number>(ZOMBIES, (store) => store.count())
+  }
+
+  async removeFromBlock(blockNumber: bigint) {
+    await this.write([ZOMBIES], (tx) => {
+      const cursor = tx
+        .objectStore(ZOMBIES)
+        .index('blockKey')
+        .openCursor(IDBKeyRange.lowerBound(toKey(blockNumber)))
+      cursor.onsuccess = () => {
+        if (!cursor.result) return
+        cursor.result.delete()
+        cursor.result.continue()
+      }
+    })
+  }
+
+  async clear() {
+    await this.write([ZOMBIES, META], (tx) => {
+      tx.objectStore(ZOMBIES).clear()
+      tx.objectStore(META).clear()
+    })
+  }
+
+  private keyRange(min?: bigint, max?: bigint): IDBKeyRange | undefined {
+    if (min !== undefined && max !== undefined) {
+      return IDBKeyRange.bound(toKey(min), toKey(max))
+    }
+    if (min !== undefined) return IDBKeyRange.lowerBound(toKey(min))
+    if (max !== undefined) return IDBKeyRange.upperBound(toKey(max))
+    return undefined
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        for (const name of Array.from(db.objectStoreNames)) {
+          db.deleteObjectStore(name)
+        }
+        const zombies = db.createObjectStore(ZOMBIES, { keyPath: 'key' })
+        zombies.createIndex('blockKey', 'blockKey')
+        zombies.createIndex('ownerKey', 'ownerKey')
+        db.createObjectStore(META)
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return this.db
+  }
+
+  private async read<T>(
+    storeName: string,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open()
+    return request(run(db.transaction(storeName).objectStore(storeName)))
+  }
+
+  // Walks records in key order until visit returns false
+  private async scan(
+    source: (store: IDBObjectStore) => IDBObjectStore | IDBIndex,
+    range: IDBKeyRange | undefined,
+    direction: IDBCursorDirection,
+    visit: (record: ZombieRecord) => boolean
+  ): Promise<void> {
+    const db = await this.open()
+    const store = db.transaction(ZOMBIES).objectStore(ZOMBIES)
+    const req = source(store).openCursor(range, direction)
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => {
+        const cursor = req.result
+        if (cursor && visit(cursor.value)) cursor.continue()
+        else resolve()
+      }
+      req.onerror = () => reject(req.error)
+    })
+  }
+
+  private async write(
+    storeNames: string[],
+    run: (tx: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.open()
+    const tx = db.transaction(storeNames, 'readwrite')
+    run(tx)
+    return done(tx)
+  }
+}
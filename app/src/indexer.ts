@@ -0,0 +1,360 @@
+import {
+  BaseError,
+  BlockNotFoundError,
+  getAbiItem,
+  HttpRequestError,
+  InvalidParamsRpcError,
+  isAddressEqual,
+  LimitExceededRpcError,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type PublicClient,
+} from 'viem'
+import { ZombieFactoryAbi } from './contracts/ZombieFactory.abi'
+import { toZombieError, type ZombieError } from './errors'
+import type { NewZombieEvent } from './zombieFactory'
+
+// A NewZombie log, with where it sits on chain
+export interface IndexedZombie extends NewZombieEvent {
+  // Who it was minted to
+  owner: Address
+  blockNumber: bigint
+  blockHash: Hash
+  txHash: Hash
+  logIndex: number
+}
+
+// A Transfer log of an existing zombie (not its mint)
+export interface IndexedTransfer {
+  zombieId: bigint
+  from: Address
+  to: Address
+  blockNumber: bigint
+  blockHash: Hash
+  txHash: Hash
+  logIndex: number
+}
+
+// An owner read from the contract rather than from a Transfer log
+export interface ZombieOwner {
+  zombieId: bigint
+  owner: Address
+}
+
+// Last block whose logs were fully processed. The hash tells a reorg apart
+export interface IndexerCheckpoint {
+  blockNumber: bigint
+  blockHash: Hash
+}
+
+export interface CheckpointStore {
+  load(): Promise<IndexerCheckpoint | undefined>
+  save(checkpoint: IndexerCheckpoint | undefined): Promise<void>
+}
+
+// Keeps the checkpoint for the lifetime of the page or process
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoint?: IndexerCheckpoint
+
+  async load() {
+    return this.checkpoint
+  }
+
+  async save(checkpoint: IndexerCheckpoint | undefined) {
+    this.checkpoint = checkpoint
+  }
+}
+
+// What a range of blocks holds: the zombies minted, each with the owner of
+// its mint Transfer, and the transfers that followed
+interface IndexedLogs {
+  zombies: IndexedZombie[]
+  transfers: IndexedTransfer[]
+}
+
+export interface ZombieIndexerOptions {
+  publicClient: PublicClient
+  address: Address
+  // Block the contract was deployed in, where a first backfill starts
+  fromBlock: bigint
+  checkpointStore?: CheckpointStore
+  // Blocks per eth_getLogs request; halved (for good) while the RPC refuses
+  // the range
+  chunkSize?: bigint
+  // How many blocks to stay behind the head. Only blocks at least this deep
+  // are indexed, so a reorg has to go deeper than this to undo what was
+  // handed out. Defaults to 0, following the head itself
+  confirmations?: bigint
+  // How far back to rewind when the checkpointed block was reorged out
+  reorgDepth?: bigint
+  // Polling interval of the live follower, in milliseconds
+  pollingInterval?: number
+  // Receives the zombies of each processed range, oldest first
+  onZombies: (zombies: IndexedZombie[]) => void | Promise<void>
+  // Receives the transfers of each processed range, oldest first, after
+  // its zombies
+  onTransfers?: (transfers: IndexedTransfer[]) => void | Promise<void>
+  // Zombies from this block onwards were reorged out and will be sent again
+  onRewind?: (fromBlock: bigint) => void | Promise<void>
+  // After onRewind, the owners of older zombies whose transfers were in the
+  // dropped blocks, read at the block rewound to. Only transfers this
+  // indexer handed out since it was created are known
+  onOwners?: (owners: ZombieOwner[]) => void | Promise<void>
+  onError?: (error: ZombieError) => void
+}
+
+/**
+ * Backfills NewZombie and Transfer logs from the deployment block (or the
+ * last checkpoint) to the chain head, then keeps following new blocks.
+ */
+export class ZombieIndexer {
+  private options: ZombieIndexerOptions
+  private checkpointStore: CheckpointStore
+  private chunkSize: bigint
+  private confirmations: bigint
+  private reorgDepth: bigint
+  private syncing?: Promise<bigint | undefined>
+  // Logs of the last reorgDepth indexed blocks, which a rewind may drop
+  private recentLogs: IndexedLogs = { zombies: [], transfers: [] }
+  private unwatch?: () => void
+
+  constructor(options: ZombieIndexerOptions) {
+    this.options = options
+    this.checkpointStore =
+      options.checkpointStore ?? new MemoryCheckpointStore()
+    this.chunkSize = options.chunkSize ?? 10_000n
+    this.confirmations = options.confirmations ?? 0n
+    this.reorgDepth = options.reorgDepth ?? 12n
+  }
+
+  get isFollowing(): boolean {
+    return this.unwatch !== undefined
+  }
+
+  // Indexes everything up to the current head (less the confirmations).
+  // Concurrent calls share the same run. Resolves with the last indexed block
+  sync(): Promise<bigint | undefined> {
+    this.syncing ??= this.syncToHead().finally(() => {
+      this.syncing = undefined
+    })
+    return this.syncing
+  }
+
+  // Backfills, then follows new blocks until the returned function is called
+  start(): () => void {
+    if (!this.unwatch) {
+      this.unwatch = this.options.publicClient.watchBlockNumber({
+        emitOnBegin: true,
+        pollingInterval: this.options.pollingInterval,
+        onBlockNumber: () => {
+          this.sync().catch((error) =>
+            this.options.onError?.(toZombieError(error))
+          )
+        },
+        onError: (error) => this.options.onError?.(toZombieError(error)),
+      })
+    }
+    return () => this.stop()
+  }
+
+  stop() {
+    this.unwatch?.()
+    this.unwatch = undefined
+  }
+
+  private async syncToHead(): Promise<bigint | undefined> {
+    const { publicClient } = this.options
+    let checkpoint = await this.rewindIfReorged(
+      await this.checkpointStore.load()
+    )
+    // Uncached: a sync right after a write must see the block it landed in
+    const head =
+      (await publicClient.getBlockNumber({ cacheTime: 0 })) - this.confirmations
+
+    let from = checkpoint ? checkpoint.blockNumber + 1n : this.options.fromBlock
+    while (from <= head) {
+      const to = minBigInt(from + this.chunkSize - 1n, head)
+
+      let logs: IndexedLogs
+      try {
+        logs = await this.getLogs(from, to)
+      } catch (error) {
+        if (isRangeTooLargeError(error) && this.chunkSize > 1n) {
+          this.chunkSize /= 2n
+          continue
+        }
+        throw toZombieError(error)
+      }
+
+      const { zombies, transfers } = logs
+      const block = await publicClient.getBlock({ blockNumber: to })
+      if (zombies.length > 0) await this.options.onZombies(zombies)
+      if (transfers.length > 0) await this.options.onTransfers?.(transfers)
+      checkpoint = { blockNumber: to, blockHash: block.hash }
+      await this.checkpointStore.save(checkpoint)
+      this.recentLogs = logsFrom(
+        {
+          zombies: [...this.recentLogs.zombies, ...zombies],
+          transfers: [...this.recentLogs.transfers, ...transfers],
+        },
+        to - this.reorgDepth + 1n
+      )
+
+      from = to + 1n
+    }
+
+    return checkpoint?.blockNumber
+  }
+
+  // The checkpointed block is no longer on chain: drop back reorgDepth
+  // blocks, tell the consumer to forget what came after and give it again
+  // the owners that dropped transfers had changed. The block rewound to is
+  // trusted as it is, which confirmations make safe: a reorg would have to
+  // reach below the checkpoint by reorgDepth on top of them
+  private async rewindIfReorged(
+    checkpoint: IndexerCheckpoint | undefined
+  ): Promise<IndexerCheckpoint | undefined> {
+    if (!checkpoint) return undefined
+
+    const { publicClient, fromBlock } = this.options
+    // The chain may even have become shorter than the checkpoint
+    const block = await publicClient
+      .getBlock({ blockNumber: checkpoint.blockNumber })
+      .catch((error) => {
+        if (error instanceof BlockNotFoundError) return undefined
+        throw error
+      })
+    if (block?.hash === checkpoint.blockHash) return checkpoint
+
+    const safeBlockNumber = checkpoint.blockNumber - this.reorgDepth
+    const rewound =
+      safeBlockNumber < fromBlock
+        ? undefined
+        : {
+            blockNumber: safeBlockNumber,
+            blockHash: (
+              await publicClient.getBlock({ blockNumber: safeBlockNumber })
+            ).hash,
+          }
+
+    const from = rewound ? rewound.blockNumber + 1n : fromBlock
+    await this.options.onRewind?.(from)
+    if (rewound) {
+      const owners = await this.readOwners(
+        transferredSince(this.recentLogs, from),
+        rewound.blockNumber
+      )
+      if (owners.length > 0) await this.options.onOwners?.(owners)
+    }
+    await this.checkpointStore.save(rewound)
+    this.recentLogs = { zombies: [], transfers: [] }
+    return rewound
+  }
+
+  private async readOwners(
+    zombieIds: bigint[],
+    blockNumber: bigint
+  ): Promise<ZombieOwner[]> {
+    const { publicClient, address } = this.options
+    return Promise.all(
+      zombieIds.map(async (zombieId) => ({
+        zombieId,
+        owner: await publicClient.readContract({
+          address,
+          abi: ZombieFactoryAbi,
+          functionName: 'ownerOf',
+          args: [zombieId],
+          blockNumber,
+        }),
+      }))
+    )
+  }
+
+  private async getLogs(
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<IndexedLogs> {
+    const logs = await this.options.publicClient.getLogs({
+      address: this.options.address,
+      events: [NEW_ZOMBIE_EVENT, TRANSFER_EVENT],
+      fromBlock,
+      toBlock,
+      strict: true,
+    })
+
+    const zombies: IndexedZombie[] = []
+    const transfers: IndexedTransfer[] = []
+    const mintedTo = new Map<bigint, Address>()
+    for (const log of logs) {
+      const position = {
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+      }
+      if (log.eventName === 'NewZombie') {
+        // Its mint Transfer came right before, in the same transaction
+        const owner = mintedTo.get(log.args.zombieId) ?? zeroAddress
+        zombies.push({ ...log.args, owner, ...position })
+      } else if (isAddressEqual(log.args.from, zeroAddress)) {
+        mintedTo.set(log.args.tokenId, log.args.to)
+      } else {
+        const { tokenId: zombieId, from, to } = log.args
+        transfers.push({ zombieId, from, to, ...position })
+      }
+    }
+    return { zombies, transfers }
+  }
+}
+
+function logsFrom(logs: IndexedLogs, blockNumber: bigint): IndexedLogs {
+  return {
+    zombies: logs.zombies.filter((zombie) => zombie.blockNumber >= blockNumber),
+    transfers: logs.transfers.filter(
+      (transfer) => transfer.blockNumber >= blockNumber
+    ),
+  }
+}
+
+// Zombies transferred from a block on, less those minted from it on, which
+// the rewind drops altogether
+function transferredSince(logs: IndexedLogs, blockNumber: bigint): bigint[] {
+  const { zombies, transfers } = logsFrom(logs, blockNumber)
+  const minted = new Set(zombies.map(({ zombieId }) => zombieId))
+  return [
+    ...new Set(
+      transfers
+        .map(({ zombieId }) => zombieId)
+        .filter((zombieId) => !minted.has(zombieId))
+    ),
+  ]
+}
+
+const NEW_ZOMBIE_EVENT = getAbiItem({
+  abi: ZombieFactoryAbi,
+  name: 'NewZombie',
+})
+const TRANSFER_EVENT = getAbiItem({ abi: ZombieFactoryAbi, name: 'Transfer' })
+
+// Providers word "block range too large" in many ways; these are the ones
+// seen from Alchemy, Infura, QuickNode and public nodes
+const RANGE_TOO_LARGE =
+  /block range|range is too large|too many (blocks|results|logs)|more than \d+ results|response size|limit exceeded/i
+
+function isRangeTooLargeError(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false
+  return (
+    error.walk(
+      (cause) =>
+        cause instanceof LimitExceededRpcError ||
+        (cause instanceof HttpRequestError && cause.status === 413) ||
+        (cause instanceof InvalidParamsRpcError &&
+          RANGE_TOO_LARGE.test(cause.details))
+    ) !== null || RANGE_TOO_LARGE.test(error.details)
+  )
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
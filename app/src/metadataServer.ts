@@ -0,0 +1,175 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http'
+import { schemaForZombie } from './dnaSchema'
+import { toZombieError } from './errors'
+import {
+  decodeZombieDna,
+  type Zombie,
+  type ZombieFactory,
+  type ZombieTraits,
+} from './zombieFactory'
+import { renderZombieSvg } from './zombieRenderer'
+
+// OpenSea-style token metadata, also understood by most wallets
+export interface ZombieMetadata {
+  name: string
+  description: string
+  image: string
+  attributes: ZombieAttribute[]
+}
+
+export interface ZombieAttribute {
+  trait_type: string
+  value: number
+  display_type?: 'number'
+}
+
+export interface MetadataServerOptions {
+  // Reads go through its public client, ex: one from Hardhat's
+  // viem.getPublicClient() in tests
+  zombieFactory: ZombieFactory
+  // `image` is `${imageBaseUrl}/${id}.svg`. Point it at this server's
+  // /zombies path to serve the rendered SVGs, or at a CDN
+  imageBaseUrl: string
+  // Defaults to describeZombie
+  describe?: (zombie: Zombie, traits: ZombieTraits) => string
+  // Cache-Control max-age of the metadata in seconds, defaults to 300
+  maxAge?: number
+}
+
+// A zombie's DNA never changes, so neither does its picture
+const IMAGE_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+// The id may be minted any moment now
+const NOT_FOUND_CACHE_CONTROL = 'no-store'
+
+const ROUTE = /^\/zombies\/([^/]+?)(\.svg)?$/
+// Any uint256 fits in 78 digits
+const ZOMBIE_ID = /^\d{1,78}$/
+
+export function describeZombie(zombie: Zombie, traits: ZombieTraits): string {
+  return `${zombie.name} is CryptoZombie #${zombie.id}, with head ${traits.headChoice}, eyes ${traits.eyeChoice} and shirt ${traits.shirtChoice}.`
+}
+
+export function buildZombieMetadata(
+  zombie: Zombie,
+  {
+    imageBaseUrl,
+    describe = describeZombie,
+  }: Pick<MetadataServerOptions, 'imageBaseUrl' | 'describe'>
+): ZombieMetadata {
+  const traits = decodeZombieDna(zombie.dna, zombie.id)
+  return {
+    name: zombie.name,
+    description: describe(zombie, traits),
+    image: `${imageBaseUrl.replace(/\/+$/, '')}/${zombie.id}.svg`,
+    // One attribute per trait of the zombie's DNA schema, hues as numbers
+    attributes: schemaForZombie(zombie.id).traits.map((trait) => ({
+      trait_type: trait.label,
+      value: traits[trait.name],
+      ...(trait.kind === 'hue' && { display_type: 'number' as const }),
+    })),
+  }
+}
+
+/**
+ * Node HTTP service publishing the zombies to marketplaces and wallets:
+ *
+ * - `GET /zombies/:id`: metadata JSON
+ * - `GET /zombies/:id.svg`: the image, drawn by renderZombieSvg
+ *
+ * Ids past getZombiesCount() get a 404 that is not cached, ids that are not
+ * a decimal number a 400. Call `listen()` on the returned server; nothing is
+ * read from the chain until a request comes in.
+ */
+export function createMetadataServer(options: MetadataServerOptions): Server {
+  const { zombieFactory, maxAge = 300 } = options
+
+  // The zombie if it exists, with the count read at the same block
+  async function findZombie(id: bigint): Promise<Zombie | undefined> {
+    let blockNumber: bigint
+    try {
+      // Uncached, so a zombie minted a moment ago is found
+      blockNumber = await zombieFactory.publicClient.getBlockNumber({
+        cacheTime: 0,
+      })
+    } catch (error) {
+      throw toZombieError(error)
+    }
+    if (id >= (await zombieFactory.getZombiesCount(blockNumber))) {
+      return undefined
+    }
+    const [zombie] = await zombieFactory.getZombies([id], { blockNumber })
+    return zombie
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD')
+      return send(res, 405, 'no-store', { error: 'Method not allowed' })
+    }
+
+    const match = ROUTE.exec(
+      new URL(req.url ?? '/', 'http://localhost').pathname
+    )
+    if (!match) {
+      return send(res, 404, NOT_FOUND_CACHE_CONTROL, { error: 'Not found' })
+    }
+    if (!ZOMBIE_ID.test(match[1])) {
+      return send(res, 400, 'no-store', {
+        error: `Invalid zombie id ${match[1]}`,
+      })
+    }
+
+    const zombie = await findZombie(BigInt(match[1]))
+    if (!zombie) {
+      return send(res, 404, NOT_FOUND_CACHE_CONTROL, {
+        error: `Zombie ${match[1]} does not exist`,
+      })
+    }
+
+    if (match[2]) {
+      const svg = renderZombieSvg({
+        ...decodeZombieDna(zombie.dna, zombie.id),
+        zombieName: zombie.name,
+      })
+      return send(res, 200, IMAGE_CACHE_CONTROL, svg, 'image/svg+xml')
+    }
+    send(
+      res,
+      200,
+      `public, max-age=${maxAge}`,
+      buildZombieMetadata(zombie, options)
+    )
+  }
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const zombieError = toZombieError(error)
+      // 503 tells crawlers to come back later, 502 that the node failed us
+      send(res, zombieError.retryable ? 503 : 502, 'no-store', {
+        error: zombieError.message,
+      })
+    })
+  })
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  cacheControl: string,
+  body: unknown,
+  contentType = 'application/json; charset=utf-8'
+) {
+  const content = typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    'Content-Length': Buffer.byteLength(content),
+    'Cache-Control': cacheControl,
+    'Access-Control-Allow-Origin': '*',
+  })
+  res.end(res.req.method === 'HEAD' ? undefined : content)
+}
@@ -0,0 +1,129 @@
+import { isAddress, type Address, type Chain } from 'viem'
+import {
+  hardhat,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  sepolia,
+} from 'viem/chains'
+import {
+  networkRegistry,
+  type DeployedContract,
+  type RegistryNetwork,
+} from './contracts/registry'
+import { ZombieError } from './errors'
+
+// viem chains for the chainIds the registry can hold. A network added to
+// hardhat.config.ts on another chain needs its chain here too
+const CHAINS: readonly Chain[] = [
+  mainnet,
+  sepolia,
+  optimism,
+  optimismSepolia,
+  hardhat,
+]
+
+// A ZombieFactory deployment, ready to build clients for
+export interface ZombieDeployment {
+  chainId: number
+  chain: Chain
+  // Network name in hardhat.config.ts
+  network: string
+  // Its chain type there, ex: 'op' for OP-stack chains
+  chainType: string
+  address: Address
+  // Block of the deployment, ex: the indexer's fromBlock
+  startBlock: bigint
+  rpcUrl: string
+}
+
+type Env = Record<string, string | undefined>
+
+export interface ResolveDeploymentOptions {
+  // RPC URL per chainId, ex: from the bundler's env
+  rpcUrls?: Record<number, string>
+  // Where the registry's RPC variables (ex: SEPOLIA_RPC_URL) and the
+  // deployment variables are read, defaults to process.env when there is one
+  env?: Env
+}
+
+export function getChain(chainId: number): Chain | undefined {
+  return CHAINS.find((chain) => chain.id === chainId)
+}
+
+// chainIds with a ZombieFactory deployment, in the registry or in `env`
+export function getDeployedChainIds(env: Env = processEnv()): number[] {
+  return Object.entries(networkRegistry)
+    .filter(([, network]) => getContract(network, env))
+    .map(([chainId]) => Number(chainId))
+}
+
+/**
+ * The ZombieFactory deployment on `chainId`, ex: the wallet's current chain.
+ * The network's deployment variables (see getContract) win over the
+ * registry's address. The RPC URL comes from `rpcUrls`, then from the
+ * network's RPC variable, then from the chain's public RPC. Throws a NO_DEPLOYMENT ZombieError naming
+ * the chains that do have one.
+ */
+export function resolveDeployment(
+  chainId: number,
+  { rpcUrls = {}, env = processEnv() }: ResolveDeploymentOptions = {}
+): ZombieDeployment {
+  const network = networkRegistry[chainId]
+  const contract = network && getContract(network, env)
+  const chain = getChain(chainId)
+
+  if (!network || !contract || !chain) {
+    const deployedChainIds = getDeployedChainIds(env)
+    const available = deployedChainIds
+      .map((id) => `${networkRegistry[id].network} (${id})`)
+      .join(', ')
+    throw new ZombieError(
+      { kind: 'NO_DEPLOYMENT', chainId, deployedChainIds },
+      !network || !contract
+        ? `ZombieFactory is not deployed on chain ${chainId}. ${available ? `Switch to ${available}` : 'No network has a deployment yet'}`
+        : `Chain ${chainId} (${network.network}) has no viem chain: add it to CHAINS in networks.ts`
+    )
+  }
+
+  return {
+    chainId,
+    chain,
+    network: network.network,
+    chainType: network.chainType,
+    address: contract.address,
+    startBlock: contract.startBlock,
+    rpcUrl:
+      rpcUrls[chainId] ??
+      (network.rpcUrlVariable && env[network.rpcUrlVariable]) ??
+      chain.rpcUrls.default.http[0],
+  }
+}
+
+/**
+ * The network's ZombieFactory: the one named by its deployment variables,
+ * ex: LOCALHOST_ZOMBIE_FACTORY_ADDRESS and LOCALHOST_ZOMBIE_FACTORY_START_BLOCK
+ * (`npx hardhat dev` writes them to app/.env.local, as the registry is
+ * checked in and a local node's deployment is not), else the registry's.
+ * The deploy script deploys ZombieAttack, the whole game: older networks
+ * may only have a ZombieFactory.
+ */
+function getContract(
+  network: RegistryNetwork,
+  env: Env
+): Pick<DeployedContract, 'address' | 'startBlock'> | undefined {
+  const prefix = `${network.network.toUpperCase().replace(/\W/g, '_')}_ZOMBIE_FACTORY`
+  const address = env[`${prefix}_ADDRESS`]
+  if (!address || !isAddress(address)) {
+    return network.contracts.ZombieAttack ?? network.contracts.ZombieFactory
+  }
+
+  return {
+    address,
+    startBlock: BigInt(env[`${prefix}_START_BLOCK`] || 0),
+  }
+}
+
+function processEnv(): Env {
+  return typeof process === 'undefined' ? {} : process.env
+}
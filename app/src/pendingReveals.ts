@@ -0,0 +1,112 @@
+import {
+  encodeAbiParameters,
+  keccak256,
+  parseAbiParameters,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem'
+
+// A commitZombie whose zombie is not revealed yet, with what revealZombie
+// needs to mint it
+export interface PendingReveal {
+  commitment: Hex
+  name: string
+  secret: Hex
+  // Date.now() when it was committed
+  createdAt: number
+}
+
+// The part of localStorage the pending reveals are kept in
+export type RevealStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+const STORAGE_PREFIX = 'zombies:pendingReveals'
+
+// 32 random bytes from the platform's CSPRNG (Web Crypto)
+export function createRevealSecret(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+// keccak256(abi.encode(name, secret)), as ZombieFactory.revealZombie checks it
+export function computeCommitment(name: string, secret: Hex): Hex {
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters('string, bytes32'), [name, secret])
+  )
+}
+
+// Keeps the secrets for the session only, where there is no localStorage
+export function createMemoryRevealStorage(): RevealStorage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  }
+}
+
+function isSameHash(a: Hex, b: Hex): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function isPendingReveal(value: unknown): value is PendingReveal {
+  const reveal = value as Partial<PendingReveal> | null
+  return (
+    typeof reveal?.commitment === 'string' &&
+    typeof reveal.name === 'string' &&
+    typeof reveal.secret === 'string' &&
+    typeof reveal.createdAt === 'number'
+  )
+}
+
+/**
+ * The pending reveals of one account on one contract, as a JSON list under
+ * a single storage key. Entries that do not parse are dropped rather than
+ * failing every reveal.
+ */
+export class PendingReveals {
+  private storage: RevealStorage
+  private key: string
+
+  constructor(
+    storage: RevealStorage,
+    scope: { chainId: number; contractAddress: Address; account: Address }
+  ) {
+    this.storage = storage
+    this.key = [
+      STORAGE_PREFIX,
+      scope.chainId,
+      scope.contractAddress.toLowerCase(),
+      scope.account.toLowerCase(),
+    ].join(':')
+  }
+
+  list(): PendingReveal[] {
+    try {
+      const parsed: unknown = JSON.parse(this.storage.getItem(this.key) ?? '[]')
+      return Array.isArray(parsed) ? parsed.filter(isPendingReveal) : []
+    } catch {
+      return []
+    }
+  }
+
+  get(commitment: Hex): PendingReveal | undefined {
+    return this.list().find((reveal) =>
+      isSameHash(reveal.commitment, commitment)
+    )
+  }
+
+  add(reveal: PendingReveal) {
+    this.save([...this.list(), reveal])
+  }
+
+  remove(commitment: Hex) {
+    this.save(
+      this.list().filter((reveal) => !isSameHash(reveal.commitment, commitment))
+    )
+  }
+
+  private save(reveals: PendingReveal[]) {
+    if (reveals.length === 0) this.storage.removeItem(this.key)
+    else this.storage.setItem(this.key, JSON.stringify(reveals))
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react'
+import type {
+  PendingZombie,
+  QueryState,
+  ReactiveZombieStore,
+  ZombiePageQuery,
+} from './reactiveZombieStore'
+import type { TransactionLifecycleOptions } from './transaction'
+import type {
+  CreateZombieResult,
+  Zombie,
+  ZombieListPage,
+} from './zombieFactory'
+
+const ZombieStoreContext = createContext<ReactiveZombieStore | null>(null)
+
+/**
+ * Makes `store` available to the hooks below. Create the store once, outside
+ * of any component (ex: next to createRoot): StrictMode renders components
+ * twice, and a store made during render would be made twice too. The
+ * provider never destroys it.
+ */
+export function ZombieStoreProvider({
+  store,
+  children,
+}: {
+  store: ReactiveZombieStore
+  children?: ReactNode
+}) {
+  return createElement(ZombieStoreContext.Provider, { value: store }, children)
+}
+
+export function useZombieStore(): ReactiveZombieStore {
+  const store = useContext(ZombieStoreContext)
+  if (!store) {
+    throw new Error('Zombie hooks must be used inside a <ZombieStoreProvider>')
+  }
+  return store
+}
+
+// The store's entry for one zombie, read on mount and when `zombieId` changes
+export function useZombie(zombieId: bigint): QueryState<Zombie> {
+  const store = useZombieStore()
+  const getState = () => store.getZombieState(zombieId)
+  const state = useSyncExternalStore(store.subscribe, getState, getState)
+
+  useEffect(() => {
+    void store.loadZombie(zombieId)
+  }, [store, zombieId])
+
+  return state
+}
+
+// One page of zombies, kept up to date as new zombies are created. The
+// query may be a new object on every render: only its values matter
+export function useZombies(
+  query: ZombiePageQuery = {}
+): QueryState<ZombieListPage> {
+  const store = useZombieStore()
+  const { owner, order, cursor, offset, limit } = query
+  const getState = () =>
+    store.getPageState({ owner, order, cursor, offset, limit })
+  const state = useSyncExternalStore(store.subscribe, getState, getState)
+
+  useEffect(() => {
+    void store.loadZombies({ owner, order, cursor, offset, limit })
+  }, [store, owner, order, cursor, offset, limit])
+
+  return state
+}
+
+// getZombiesCount(), kept up to date as new zombies are created
+export function useZombieCount(): QueryState<bigint> {
+  const store = useZombieStore()
+  const state = useSyncExternalStore(
+    store.subscribe,
+    () => store.getCountState(),
+    () => store.getCountState()
+  )
+
+  useEffect(() => {
+    void store.loadCount()
+  }, [store])
+
+  return state
+}
+
+/**
+ * Creates zombies and follows the last one sent from this component.
+ * `createZombie` resolves or rejects like ZombieFactory.createRandomZombie();
+ * the outcome is in `transaction` as well, so callers may ignore the promise
+ * with `.catch(() => {})`. The transaction stays in the store after unmount,
+ * until `reset()`.
+ */
+export function useCreateZombie(): {
+  transaction?: PendingZombie
+  createZombie: (
+    name: string,
+    options?: TransactionLifecycleOptions
+  ) => Promise<CreateZombieResult>
+  reset: () => void
+} {
+  const store = useZombieStore()
+  const [key, setKey] = useState<string>()
+  const getTransaction = () =>
+    key === undefined ? undefined : store.getTransaction(key)
+  const transaction = useSyncExternalStore(
+    store.subscribe,
+    getTransaction,
+    getTransaction
+  )
+
+  const createZombie = useCallback(
+    (name: string, options?: TransactionLifecycleOptions) => {
+      const { key, result } = store.createZombie(name, options)
+      setKey(key)
+      return result
+    },
+    [store]
+  )
+
+  const reset = useCallback(() => {
+    if (key !== undefined) store.dismissTransaction(key)
+    setKey(undefined)
+  }, [store, key])
+
+  return { transaction, createZombie, reset }
+}
@@ -0,0 +1,317 @@
+import { toZombieError, type ZombieError } from './errors'
+import type {
+  TransactionLifecycleOptions,
+  TransactionStatus,
+} from './transaction'
+import type {
+  CreateZombieResult,
+  ListZombiesOptions,
+  NewZombieEvent,
+  Zombie,
+  ZombieFactory,
+  ZombieListPage,
+} from './zombieFactory'
+
+// A read as the UI sees it. A refetch keeps the previous data while loading
+export interface QueryState<T> {
+  status: 'idle' | 'loading' | 'success' | 'error'
+  data?: T
+  error?: ZombieError
+}
+
+// A createRandomZombie call made through the store
+export interface PendingZombie {
+  name: string
+  // Latest onStatus update, ex: 'submitted' with the txHash
+  update?: TransactionStatus
+  // Set once the transaction ended, or failed before it was sent
+  result?: CreateZombieResult
+  error?: ZombieError
+}
+
+// The page of listZombies() a component shows
+export type ZombiePageQuery = Pick<
+  ListZombiesOptions,
+  'owner' | 'order' | 'cursor' | 'offset' | 'limit'
+>
+
+// Replaced as a whole on every change, never mutated
+export interface ZombieStoreSnapshot {
+  // By zombie id, as a decimal string
+  zombies: ReadonlyMap<string, QueryState<Zombie>>
+  // By pageKey() of the query
+  pages: ReadonlyMap<string, QueryState<ZombieListPage>>
+  count: QueryState<bigint>
+  // By the key createZombie() returned
+  transactions: ReadonlyMap<string, PendingZombie>
+}
+
+export interface ReactiveZombieStoreOptions {
+  // Failures of the NewZombie watcher. Reads and transactions report theirs
+  // in the snapshot
+  onError?: (error: ZombieError) => void
+}
+
+// Same object for every missing entry, so selectors stay referentially stable
+const IDLE: QueryState<never> = Object.freeze({ status: 'idle' })
+
+// Copy of `entries` with `key` set
+const withEntry = <V>(entries: ReadonlyMap<string, V>, key: string, value: V) =>
+  new Map(entries).set(key, value)
+
+// Same key for queries that read the same page, defaults filled in
+export const pageKey = ({
+  owner,
+  order = 'asc',
+  cursor,
+  offset = 0,
+  limit = 100,
+}: ZombiePageQuery): string =>
+  JSON.stringify([
+    owner?.toLowerCase() ?? null,
+    order,
+    cursor ?? null,
+    offset,
+    limit,
+  ])
+
+/**
+ * Observable cache over a ZombieFactory for UI frameworks: reads, their
+ * loading and error states, and the transactions started through it, in one
+ * immutable snapshot. `subscribe` and `getSnapshot` follow the contract of
+ * React's useSyncExternalStore, and fit any other framework just as well.
+ *
+ * While someone is subscribed the store watches NewZombie events, and
+ * refreshes the count and the loaded pages when a zombie is created.
+ */
+export class ReactiveZombieStore {
+  readonly zombieFactory: ZombieFactory
+  private options: ReactiveZombieStoreOptions
+  private snapshot: ZombieStoreSnapshot = {
+    zombies: new Map(),
+    pages: new Map(),
+    count: IDLE,
+    transactions: new Map(),
+  }
+  private listeners = new Set<() => void>()
+  // Latest read per key; older ones finishing later are dropped
+  private requests = new Map<string, Promise<void>>()
+  // The query behind each of snapshot.pages, to read it again
+  private pageQueries = new Map<string, ZombiePageQuery>()
+  private unwatch?: () => void
+  private transactionCount = 0
+  private destroyed = false
+
+  constructor(
+    zombieFactory: ZombieFactory,
+    options: ReactiveZombieStoreOptions = {}
+  ) {
+    this.zombieFactory = zombieFactory
+    this.options = options
+  }
+
+  // Bound, so both can be handed to useSyncExternalStore as they are
+  getSnapshot = (): ZombieStoreSnapshot => this.snapshot
+
+  // The listener is called after every change; returns the unsubscribe
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    if (!this.unwatch && !this.destroyed) {
+      this.unwatch = this.zombieFactory.watchNewZombieEvents(
+        (event) => this.onNewZombie(event),
+        this.options.onError
+      )
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      // Stop watching on the next microtask, so a component that resubscribes
+      // right away (StrictMode, a changed dependency) keeps the same watcher
+      queueMicrotask(() => {
+        if (this.listeners.size === 0) this.stopWatching()
+      })
+    }
+  }
+
+  getZombieState(zombieId: bigint): QueryState<Zombie> {
+    return this.snapshot.zombies.get(zombieId.toString()) ?? IDLE
+  }
+
+  getPageState(query: ZombiePageQuery = {}): QueryState<ZombieListPage> {
+    return this.snapshot.pages.get(pageKey(query)) ?? IDLE
+  }
+
+  getCountState(): QueryState<bigint> {
+    return this.snapshot.count
+  }
+
+  getTransaction(key: string): PendingZombie | undefined {
+    return this.snapshot.transactions.get(key)
+  }
+
+  // Reads the zombie unless it is already loaded or loading; `refresh`
+  // reads it again anyway
+  loadZombie(zombieId: bigint, refresh = false): Promise<void> {
+    const key = zombieId.toString()
+    return this.query(
+      `zombie:${key}`,
+      () => this.getZombieState(zombieId),
+      (state) =>
+        this.update({ zombies: withEntry(this.snapshot.zombies, key, state) }),
+      async () => ({
+        id: zombieId,
+        ...(await this.zombieFactory.getZombie(zombieId)),
+      }),
+      refresh
+    )
+  }
+
+  // Reads one page of zombies, see loadZombie() for `refresh`. The zombies
+  // read are cached for loadZombie() too
+  loadZombies(query: ZombiePageQuery = {}, refresh = false): Promise<void> {
+    const key = pageKey(query)
+    this.pageQueries.set(key, query)
+    return this.query(
+      `page:${key}`,
+      () => this.getPageState(query),
+      (state) => {
+        const pages = withEntry(this.snapshot.pages, key, state)
+        if (state.status !== 'success') return this.update({ pages })
+        const zombies = new Map(this.snapshot.zombies)
+        for (const zombie of state.data!.zombies) {
+          zombies.set(zombie.id.toString(), { status: 'success', data: zombie })
+        }
+        this.update({ pages, zombies })
+      },
+      () => this.zombieFactory.listZombies(query),
+      refresh
+    )
+  }
+
+  // Reads getZombiesCount(), see loadZombie() for `refresh`
+  loadCount(refresh = false): Promise<void> {
+    return this.query(
+      'count',
+      () => this.snapshot.count,
+      (count) => this.update({ count }),
+      () => this.zombieFactory.getZombiesCount(),
+      refresh
+    )
+  }
+
+  /**
+   * Sends createRandomZombie and follows it in `transactions` under the
+   * returned key, until dismissTransaction(). `result` settles like
+   * ZombieFactory.createRandomZombie(); its failure is in the snapshot too,
+   * so callers may ignore it.
+   */
+  createZombie(
+    name: string,
+    options: TransactionLifecycleOptions = {}
+  ): { key: string; result: Promise<CreateZombieResult> } {
+    const key = `tx:${++this.transactionCount}`
+    const set = (patch: Partial<PendingZombie>) => {
+      const current = this.snapshot.transactions.get(key)
+      if (!current) return
+      this.update({
+        transactions: withEntry(this.snapshot.transactions, key, {
+          ...current,
+          ...patch,
+        }),
+      })
+    }
+    this.update({
+      transactions: withEntry(this.snapshot.transactions, key, { name }),
+    })
+
+    const result = this.zombieFactory.createRandomZombie(name, {
+      ...options,
+      onStatus: (update) => {
+        set({ update })
+        options.onStatus?.(update)
+      },
+    })
+    result.then(
+      (result) => {
+        set({ result })
+        if (result.status === 'confirmed') this.onNewZombie(result)
+      },
+      (error) => set({ error: toZombieError(error) })
+    )
+    return { key, result }
+  }
+
+  dismissTransaction(key: string) {
+    if (!this.snapshot.transactions.has(key)) return
+    const transactions = new Map(this.snapshot.transactions)
+    transactions.delete(key)
+    this.update({ transactions })
+  }
+
+  // Stops watching events and drops the listeners; reads still in flight
+  // are ignored when they finish
+  destroy() {
+    this.destroyed = true
+    this.stopWatching()
+    this.listeners.clear()
+    this.requests.clear()
+  }
+
+  private query<T>(
+    key: string,
+    get: () => QueryState<T>,
+    set: (state: QueryState<T>) => void,
+    read: () => Promise<T>,
+    refresh: boolean
+  ): Promise<void> {
+    const { status, data } = get()
+    if (!refresh && (status === 'loading' || status === 'success')) {
+      return this.requests.get(key) ?? Promise.resolve()
+    }
+
+    set({ status: 'loading', data })
+    const latest = () => !this.destroyed && this.requests.get(key) === request
+    const request: Promise<void> = read().then(
+      (data) => {
+        if (latest()) set({ status: 'success', data })
+      },
+      (error) => {
+        if (latest()) {
+          set({
+            status: 'error',
+            data: get().data,
+            error: toZombieError(error),
+          })
+        }
+      }
+    )
+    this.requests.set(key, request)
+    return request
+  }
+
+  // A zombie was created, here or anywhere else
+  private onNewZombie({ zombieId, name, dna }: NewZombieEvent) {
+    this.update({
+      zombies: withEntry(this.snapshot.zombies, zombieId.toString(), {
+        status: 'success',
+        data: { id: zombieId, name, dna },
+      }),
+    })
+    if (this.snapshot.count !== IDLE) void this.loadCount(true)
+    for (const [key, page] of this.snapshot.pages) {
+      const query = this.pageQueries.get(key)
+      if (page.status !== 'idle' && query) void this.loadZombies(query, true)
+    }
+  }
+
+  private update(patch: Partial<ZombieStoreSnapshot>) {
+    if (this.destroyed) return
+    this.snapshot = { ...this.snapshot, ...patch }
+    for (const listener of this.listeners) listener()
+  }
+
+  private stopWatching() {
+    this.unwatch?.()
+    this.unwatch = undefined
+  }
+}
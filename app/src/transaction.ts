@@ -0,0 +1,146 @@
+import type { Hash, PublicClient, TransactionReceipt } from 'viem'
+import { toZombieError, ZombieError } from './errors'
+
+// Progress of a transaction, from the wallet prompt to its last confirmation
+export type TransactionStatus =
+  | { status: 'signing' }
+  | { status: 'submitted'; txHash: Hash }
+  | {
+      status: 'replaced'
+      txHash: Hash
+      replacementTxHash: Hash
+      // repriced: same call with a higher fee (speed up), the wait goes on
+      reason: 'repriced' | 'cancelled' | 'replaced'
+    }
+  | { status: 'mined'; txHash: Hash; blockNumber: bigint }
+  | {
+      status: 'confirmed'
+      txHash: Hash
+      blockNumber: bigint
+      confirmations: number
+    }
+  | { status: 'reverted'; txHash: Hash; blockNumber: bigint }
+
+// How a transaction ended. Reverts and replacements are outcomes, not errors
+export type TransactionOutcome =
+  | { status: 'confirmed'; receipt: TransactionReceipt }
+  | { status: 'reverted'; receipt: TransactionReceipt }
+  | {
+      status: 'replaced'
+      txHash: Hash
+      replacementTxHash: Hash
+      reason: 'cancelled' | 'replaced'
+    }
+
+export interface TransactionLifecycleOptions {
+  // Blocks to wait for after the one that included the transaction, defaults to 1
+  confirmations?: number
+  // Gives up with a TIMEOUT ZombieError after this many milliseconds
+  timeout?: number
+  onStatus?: (update: TransactionStatus) => void
+}
+
+/**
+ * Follows a submitted transaction until it is confirmed, reverted or
+ * replaced by another one from the same sender. A speed-up (same call,
+ * higher fee) is followed through to the new transaction.
+ */
+export async function waitForTransaction(
+  publicClient: PublicClient,
+  hash: Hash,
+  { confirmations = 1, timeout, onStatus }: TransactionLifecycleOptions = {}
+): Promise<TransactionOutcome> {
+  let replacement: TransactionOutcome | undefined
+  let receipt: TransactionReceipt
+
+  try {
+    receipt = await publicClient.waitForTransactionReceipt({
+      hash,
+      timeout,
+      onReplaced: ({ reason, transaction }) => {
+        onStatus?.({
+          status: 'replaced',
+          txHash: hash,
+          replacementTxHash: transaction.hash,
+          reason,
+        })
+        if (reason !== 'repriced') {
+          replacement = {
+            status: 'replaced',
+            txHash: hash,
+            replacementTxHash: transaction.hash,
+            reason,
+          }
+        }
+      },
+    })
+  } catch (error) {
+    throw toZombieError(error)
+  }
+
+  // The receipt belongs to the replacing transaction
+  if (replacement) return replacement
+
+  const { transactionHash: txHash, blockNumber } = receipt
+  if (receipt.status === 'reverted') {
+    onStatus?.({ status: 'reverted', txHash, blockNumber })
+    return { status: 'reverted', receipt }
+  }
+  onStatus?.({ status: 'mined', txHash, blockNumber })
+
+  if (confirmations > 1) {
+    try {
+      await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations,
+        timeout,
+      })
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+  onStatus?.({ status: 'confirmed', txHash, blockNumber, confirmations })
+
+  return { status: 'confirmed', receipt }
+}
+
+/**
+ * Resolves once the latest block is `blockNumber` or a later one, polling
+ * like viem's watchBlockNumber. Throws a TIMEOUT ZombieError after `timeout`
+ * milliseconds.
+ */
+export function waitForBlockNumber(
+  publicClient: PublicClient,
+  blockNumber: bigint,
+  { timeout }: Pick<TransactionLifecycleOptions, 'timeout'> = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let done = false
+    const finish = (error?: ZombieError) => {
+      if (done) return
+      done = true
+      clearTimeout(timer)
+      unwatch?.()
+      if (error) reject(error)
+      else resolve()
+    }
+
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(
+            () => finish(new ZombieError({ kind: 'TIMEOUT' })),
+            timeout
+          )
+    // May report the current block before it is assigned
+    let unwatch: (() => void) | undefined
+    unwatch = publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      onBlockNumber: (latest) => {
+        if (latest >= blockNumber) finish()
+      },
+      onError: (error) => finish(toZombieError(error)),
+    })
+    if (done) unwatch()
+  })
+}
@@ -0,0 +1,409 @@
+import {
+  createWalletClient,
+  custom,
+  getAddress,
+  numberToHex,
+  type Address,
+  type Chain,
+  type EIP1193Provider,
+  type WalletClient,
+} from 'viem'
+import { DEFAULT_CHAIN, getInjectedProvider } from './client'
+import { toZombieError, ZombieError } from './errors'
+
+// EIP-6963 wallet description, as announced by the wallet itself
+export interface WalletInfo {
+  uuid: string
+  name: string
+  // Data URI
+  icon: string
+  // Reverse DNS id, stable across page loads, ex: io.metamask
+  rdns: string
+}
+
+export interface WalletDetail {
+  info: WalletInfo
+  provider: EIP1193Provider
+}
+
+export interface WalletState {
+  // Every wallet found so far
+  wallets: readonly WalletDetail[]
+  status: 'disconnected' | 'connecting' | 'connected'
+  wallet?: WalletInfo
+  account?: Address
+  chainId?: number
+  // Connected, but on another chain than the manager's
+  wrongChain: boolean
+}
+
+// The part of localStorage the manager uses
+export type WalletStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+export interface WalletManagerOptions {
+  // Chain the app works on, defaults to DEFAULT_CHAIN (client.ts)
+  chain?: Chain
+  // Receives the EIP-6963 announcements, defaults to window
+  target?: EventTarget
+  // Remembers the last wallet, defaults to localStorage when there is one
+  storage?: WalletStorage
+  // Wallet that only sets window.ethereum, listed after the announced ones
+  // unless one of them is the same provider. Defaults to window.ethereum
+  injectedProvider?: EIP1193Provider
+}
+
+const ANNOUNCE_EVENT = 'eip6963:announceProvider'
+const REQUEST_EVENT = 'eip6963:requestProvider'
+const STORAGE_KEY = 'zombies:lastWallet'
+
+const INJECTED_WALLET: WalletInfo = {
+  uuid: 'injected',
+  name: 'Browser wallet',
+  icon: '',
+  rdns: 'injected',
+}
+
+// EIP-3326: wallet_switchEthereumChain fails with 4902 for chains the wallet
+// does not know; some mobile wallets nest the code in data.originalError
+function isUnknownChainError(error: unknown): boolean {
+  const { code, data } = (error ?? {}) as {
+    code?: unknown
+    data?: { originalError?: { code?: unknown } }
+  }
+  return code === 4902 || data?.originalError?.code === 4902
+}
+
+/**
+ * Finds the injected wallets (EIP-6963), connects to one of them and keeps
+ * its account and chain up to date from the wallet's events. Remembers the
+ * last wallet so `reconnect()` can restore it on the next visit without a
+ * prompt.
+ *
+ * The window, storage and providers can all be passed in, so the whole flow
+ * can be driven by a scripted EIP-1193 provider in tests.
+ */
+export class WalletManager {
+  readonly chain: Chain
+  private target?: EventTarget
+  private storage?: WalletStorage
+  private injectedProvider?: EIP1193Provider
+  private state: WalletState = {
+    wallets: [],
+    status: 'disconnected',
+    wrongChain: false,
+  }
+  private listeners = new Set<(state: WalletState) => void>()
+  private announced: WalletDetail[] = []
+  private discovering = false
+  private provider?: EIP1193Provider
+  private connecting?: Promise<Address>
+  private walletClient?: WalletClient
+
+  constructor(options: WalletManagerOptions = {}) {
+    this.chain = options.chain ?? DEFAULT_CHAIN
+    this.target =
+      options.target ?? (typeof window === 'undefined' ? undefined : window)
+    this.storage =
+      options.storage ??
+      (typeof localStorage === 'undefined' ? undefined : localStorage)
+    this.injectedProvider = options.injectedProvider ?? getInjectedProvider()
+  }
+
+  getState(): WalletState {
+    return this.state
+  }
+
+  // Called with the new state after every change; returns the unsubscribe
+  subscribe(listener: (state: WalletState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Asks the wallets to announce themselves. Late announcements keep
+  // updating `wallets`
+  discover(): readonly WalletDetail[] {
+    if (!this.discovering && this.target) {
+      this.discovering = true
+      this.target.addEventListener(ANNOUNCE_EVENT, this.onAnnounce)
+      this.target.dispatchEvent(new Event(REQUEST_EVENT))
+    }
+    this.setState({ wallets: this.listWallets() })
+    return this.state.wallets
+  }
+
+  /**
+   * Asks the wallet for its accounts (the wallet may prompt). Without `rdns`
+   * the last wallet is used, or else the first one found. Failures are
+   * thrown as ZombieError.
+   */
+  async connect(rdns?: string): Promise<Address> {
+    this.connecting ??= this.connectTo(rdns).finally(() => {
+      this.connecting = undefined
+    })
+    return this.connecting
+  }
+
+  // Connects to the last wallet if the site is still allowed to see its
+  // accounts, waiting up to `timeoutMs` for it to announce itself
+  async reconnect(timeoutMs = 500): Promise<boolean> {
+    const rdns = this.storage?.getItem(STORAGE_KEY)
+    if (!rdns || this.state.status !== 'disconnected') return false
+
+    const detail = await this.waitForWallet(rdns, timeoutMs)
+    if (!detail) return false
+
+    this.setState({ status: 'connecting', wallet: detail.info })
+    try {
+      const accounts = await detail.provider.request({
+        method: 'eth_accounts',
+      })
+      if (accounts.length === 0) {
+        this.forget()
+        return false
+      }
+      await this.attach(detail, accounts)
+      return true
+    } catch {
+      this.reset()
+      return false
+    }
+  }
+
+  // Forgets the wallet, and asks it to drop the site's permission where
+  // the wallet supports that
+  async disconnect(): Promise<void> {
+    const provider = this.provider
+    this.forget()
+    await provider
+      ?.request({
+        method: 'wallet_revokePermissions',
+        params: [{ eth_accounts: {} }],
+      })
+      .catch(() => {})
+  }
+
+  // Moves the wallet to the manager's chain, adding the chain to the wallet
+  // first if it does not know it
+  async switchChain(): Promise<void> {
+    const provider = this.connectedProvider()
+    const chainId = numberToHex(this.chain.id)
+    try {
+      try {
+        await provider.request({
+          method: 'wallet_switchEthereumChain',
+          params: [{ chainId }],
+        })
+      } catch (error) {
+        if (!isUnknownChainError(error)) throw error
+        await provider.request({
+          method: 'wallet_addEthereumChain',
+          params: [
+            {
+              chainId,
+              chainName: this.chain.name,
+              nativeCurrency: this.chain.nativeCurrency,
+              rpcUrls: this.chain.rpcUrls.default.http,
+              blockExplorerUrls: this.chain.blockExplorers && [
+                this.chain.blockExplorers.default.url,
+              ],
+            },
+          ],
+        })
+      }
+    } catch (error) {
+      throw toZombieError(error)
+    }
+
+    // Not every wallet emits chainChanged after switching, so ask again
+    const current = Number(await provider.request({ method: 'eth_chainId' }))
+    this.setChainId(current)
+    if (current !== this.chain.id) {
+      throw new ZombieError({
+        kind: 'WRONG_CHAIN',
+        chainId: current,
+        expectedChainId: this.chain.id,
+      })
+    }
+  }
+
+  // Connected and on the right chain: what a write needs
+  async ready(): Promise<{ account: Address; walletClient: WalletClient }> {
+    if (this.state.status !== 'connected') await this.connect()
+    if (this.state.wrongChain) await this.switchChain()
+    return {
+      account: this.state.account!,
+      walletClient: this.getWalletClient(),
+    }
+  }
+
+  // Wallet client for the connected account, rebuilt when it changes
+  getWalletClient(): WalletClient {
+    const provider = this.connectedProvider()
+    this.walletClient ??= createWalletClient({
+      chain: this.chain,
+      account: this.state.account,
+      transport: custom(provider),
+    })
+    return this.walletClient
+  }
+
+  // Stops listening to the window and the wallet
+  destroy() {
+    this.target?.removeEventListener(ANNOUNCE_EVENT, this.onAnnounce)
+    this.discovering = false
+    this.detach()
+    this.listeners.clear()
+  }
+
+  private async connectTo(rdns?: string): Promise<Address> {
+    this.discover()
+    const wanted = rdns ?? this.storage?.getItem(STORAGE_KEY) ?? undefined
+    const detail =
+      this.state.wallets.find(({ info }) => info.rdns === wanted) ??
+      (rdns === undefined ? this.state.wallets[0] : undefined)
+    if (!detail) {
+      throw new ZombieError(
+        { kind: 'NO_WALLET' },
+        rdns ? `Wallet ${rdns} was not found` : undefined
+      )
+    }
+
+    this.detach()
+    this.setState({ status: 'connecting', wallet: detail.info })
+    try {
+      const accounts = await detail.provider.request({
+        method: 'eth_requestAccounts',
+      })
+      await this.attach(detail, accounts)
+    } catch (error) {
+      this.reset()
+      throw toZombieError(error)
+    }
+    this.storage?.setItem(STORAGE_KEY, detail.info.rdns)
+    return this.state.account!
+  }
+
+  private async attach(detail: WalletDetail, accounts: readonly Address[]) {
+    if (accounts.length === 0) {
+      throw new ZombieError({ kind: 'NO_WALLET' }, 'The wallet has no account')
+    }
+    const chainId = Number(
+      await detail.provider.request({ method: 'eth_chainId' })
+    )
+
+    this.provider = detail.provider
+    this.provider.on('accountsChanged', this.onAccountsChanged)
+    this.provider.on('chainChanged', this.onChainChanged)
+    this.provider.on('disconnect', this.onDisconnect)
+    this.walletClient = undefined
+    this.setState({
+      status: 'connected',
+      wallet: detail.info,
+      account: getAddress(accounts[0]),
+    })
+    this.setChainId(chainId)
+  }
+
+  private detach() {
+    this.provider?.removeListener('accountsChanged', this.onAccountsChanged)
+    this.provider?.removeListener('chainChanged', this.onChainChanged)
+    this.provider?.removeListener('disconnect', this.onDisconnect)
+    this.provider = undefined
+    this.walletClient = undefined
+  }
+
+  // Disconnected, but reconnect() may still restore the wallet
+  private reset() {
+    this.detach()
+    this.setState({
+      status: 'disconnected',
+      wallet: undefined,
+      account: undefined,
+      chainId: undefined,
+      wrongChain: false,
+    })
+  }
+
+  private forget() {
+    this.storage?.removeItem(STORAGE_KEY)
+    this.reset()
+  }
+
+  private connectedProvider(): EIP1193Provider {
+    if (!this.provider || this.state.status !== 'connected') {
+      throw new ZombieError({ kind: 'NO_WALLET' }, 'Connect a wallet first')
+    }
+    return this.provider
+  }
+
+  private setChainId(chainId: number) {
+    this.setState({ chainId, wrongChain: chainId !== this.chain.id })
+  }
+
+  private setState(changes: Partial<WalletState>) {
+    this.state = { ...this.state, ...changes }
+    for (const listener of this.listeners) listener(this.state)
+  }
+
+  private listWallets(): WalletDetail[] {
+    const injected = this.injectedProvider
+    if (
+      !injected ||
+      this.announced.some(({ provider }) => provider === injected)
+    ) {
+      return [...this.announced]
+    }
+    return [...this.announced, { info: INJECTED_WALLET, provider: injected }]
+  }
+
+  private waitForWallet(
+    rdns: string,
+    timeoutMs: number
+  ): Promise<WalletDetail | undefined> {
+    const find = (wallets: readonly WalletDetail[]) =>
+      wallets.find(({ info }) => info.rdns === rdns)
+
+    const found = find(this.discover())
+    if (found) return Promise.resolve(found)
+    return new Promise((resolve) => {
+      const done = (detail?: WalletDetail) => {
+        clearTimeout(timer)
+        unsubscribe()
+        resolve(detail)
+      }
+      const timer = setTimeout(done, timeoutMs)
+      const unsubscribe = this.subscribe((state) => {
+        const detail = find(state.wallets)
+        if (detail) done(detail)
+      })
+    })
+  }
+
+  private onAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<WalletDetail>).detail
+    if (!detail?.info?.uuid || !detail.provider) return
+    // A wallet announces itself again on every request
+    if (this.announced.some(({ info }) => info.uuid === detail.info.uuid)) {
+      return
+    }
+    this.announced.push(detail)
+    this.setState({ wallets: this.listWallets() })
+  }
+
+  private onAccountsChanged = (accounts: Address[]) => {
+    // The user disconnected the site from the wallet
+    if (accounts.length === 0) return this.forget()
+    this.walletClient = undefined
+    this.setState({ account: getAddress(accounts[0]) })
+  }
+
+  private onChainChanged = (chainId: string) => {
+    this.setChainId(Number(chainId))
+  }
+
+  private onDisconnect = () => {
+    this.reset()
+  }
+}
@@ -0,0 +1,501 @@
+import { schemaForZombie } from './dnaSchema'
+import { toZombieError, ZombieError } from './errors'
+import type { TransactionStatus } from './transaction'
+import {
+  decodeZombieDna,
+  type CreateZombieResult,
+  type MintedZombie,
+  type NewZombieEvent,
+  type Zombie,
+  type ZombieFactory,
+} from './zombieFactory'
+import { MAX_NAME_LENGTH, validateZombieName } from './zombieName'
+import { renderZombieSvg } from './zombieRenderer'
+
+// Events the elements dispatch. They bubble out of the shadow roots, so the
+// host page can listen on document
+export interface ZombieElementEventMap {
+  // <zombie-create-form>: each step of the transaction
+  'zombie-status': CustomEvent<TransactionStatus>
+  // <zombie-create-form>: the zombie was minted
+  'zombie-created': CustomEvent<MintedZombie>
+  // <zombie-feed>: someone created a zombie
+  'zombie-new': CustomEvent<NewZombieEvent>
+  // <zombie-card>: the zombie was read from the contract
+  'zombie-load': CustomEvent<Zombie>
+  // Any element: the failure it is showing
+  'zombie-error': CustomEvent<ZombieError>
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'zombie-create-form': ZombieCreateFormElement
+    'zombie-card': ZombieCardElement
+    'zombie-feed': ZombieFeedElement
+  }
+  interface GlobalEventHandlersEventMap extends ZombieElementEventMap {}
+}
+
+const STATUS_TEXT: Record<TransactionStatus['status'], string> = {
+  signing: 'Confirm in your wallet…',
+  submitted: 'Waiting for the transaction…',
+  replaced: 'Transaction sped up, waiting…',
+  mined: 'Mined, waiting for confirmation…',
+  confirmed: 'Confirmed',
+  reverted: 'Transaction reverted',
+}
+
+// Colors, fonts and sizes all come from custom properties, which inherit
+// into the shadow roots, ex: zombie-feed { --zombie-accent: rebeccapurple }.
+// Each piece also has a part name for ::part() rules
+const THEME = `
+  :host {
+    display: block;
+    font: var(--zombie-font, 14px/1.4 system-ui, sans-serif);
+    color: var(--zombie-color, #1d1d1b);
+  }
+  :host([hidden]) { display: none; }
+  [part~='status']:empty { display: none; }
+  [part~='error'] { color: var(--zombie-error-color, #8a1c1c); }
+`
+
+const FORM_STYLES = `
+  form { display: flex; flex-wrap: wrap; gap: var(--zombie-gap, 8px); align-items: end; }
+  label { display: grid; gap: 4px; }
+  input {
+    font: inherit;
+    padding: 6px 8px;
+    border: 1px solid var(--zombie-border-color, #b8b8b0);
+    border-radius: var(--zombie-radius, 6px);
+  }
+  input[aria-invalid='true'] { border-color: var(--zombie-error-color, #8a1c1c); }
+  button {
+    font: inherit;
+    padding: 6px 14px;
+    border: 0;
+    border-radius: var(--zombie-radius, 6px);
+    background: var(--zombie-accent, #4d7c2a);
+    color: var(--zombie-accent-color, #fff);
+    cursor: pointer;
+  }
+  :host([pending]) button { opacity: 0.6; cursor: progress; }
+  p { flex-basis: 100%; margin: 0; }
+`
+
+const CARD_STYLES = `
+  figure {
+    margin: 0;
+    padding: var(--zombie-gap, 8px);
+    width: var(--zombie-card-size, 180px);
+    border: 1px solid var(--zombie-border-color, #b8b8b0);
+    border-radius: var(--zombie-radius, 6px);
+    background: var(--zombie-background, #fbfaf5);
+  }
+  [part~='image'] { aspect-ratio: 1; }
+  [part~='image'] svg { display: block; width: 100%; height: 100%; }
+  :host([loading]) [part~='image'] { opacity: 0.4; }
+  figcaption { display: grid; gap: 4px; }
+  [part~='dna'] { font-size: 0.85em; color: var(--zombie-muted-color, #6b6b63); }
+  dl { display: grid; grid-template-columns: auto 1fr; gap: 0 8px; margin: 0; font-size: 0.85em; }
+  dt { color: var(--zombie-muted-color, #6b6b63); }
+  dd { margin: 0; }
+  p { margin: 0; }
+`
+
+const FEED_STYLES = `
+  ol {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--zombie-gap, 8px);
+    margin: 0;
+    padding: 0;
+    list-style: none;
+  }
+  ol:empty { display: none; }
+  ol:not(:empty) + [part~='empty'] { display: none; }
+  p { margin: 0; color: var(--zombie-muted-color, #6b6b63); }
+`
+
+// HTMLElement is missing in Node: this module can still be imported there,
+// ex: by code rendered on the server, but the elements only run in a browser
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement === 'undefined'
+    ? (class {} as typeof HTMLElement)
+    : HTMLElement
+
+let defaultZombieFactory: ZombieFactory | undefined
+
+abstract class ZombieElement extends BaseElement {
+  protected root: ShadowRoot
+  private _zombieFactory?: ZombieFactory
+
+  constructor(styles: string, markup: string) {
+    super()
+    this.root = this.attachShadow({ mode: 'open' })
+    this.root.innerHTML = `<style>${THEME}${styles}</style>${markup}`
+  }
+
+  // The ZombieFactory the element reads and writes with, defaults to the one
+  // given to defineZombieElements(). Until it has one, the element waits
+  get zombieFactory(): ZombieFactory | undefined {
+    return this._zombieFactory ?? defaultZombieFactory
+  }
+
+  set zombieFactory(zombieFactory: ZombieFactory | undefined) {
+    this._zombieFactory = zombieFactory
+    if (this.isConnected) this.update()
+  }
+
+  connectedCallback() {
+    this.update()
+  }
+
+  // Brings the element in line with its attributes and factory
+  protected abstract update(): void
+
+  protected emit<K extends keyof ZombieElementEventMap>(
+    type: K,
+    detail: ZombieElementEventMap[K]['detail']
+  ) {
+    this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true })
+    )
+  }
+
+  protected byPart<E extends Element = HTMLElement>(name: string): E {
+    return this.root.querySelector<E>(`[part~='${name}']`)!
+  }
+
+  protected showStatus(text: string, isError = false) {
+    const status = this.byPart('status')
+    status.textContent = text
+    status.setAttribute('part', isError ? 'status error' : 'status')
+  }
+}
+
+// Reverts and replacements are outcomes of createRandomZombie, not errors;
+// the form shows them like one
+function outcomeError(
+  result: Exclude<CreateZombieResult, { status: 'confirmed' }>
+): ZombieError {
+  if (result.status === 'reverted') {
+    return new ZombieError(
+      { kind: 'CONTRACT_REVERTED' },
+      'Transaction reverted - zombie was not created'
+    )
+  }
+  return new ZombieError(
+    { kind: result.reason === 'cancelled' ? 'USER_REJECTED' : 'UNKNOWN' },
+    `Transaction was ${result.reason} in the wallet`
+  )
+}
+
+/**
+ * `<zombie-create-form>`: a name input and a button that calls
+ * createRandomZombie. Names breaking the contract's policy or already taken
+ * are refused before the wallet is asked. Shows each step of the
+ * transaction, and the failure when there is one; `pending` is set on the
+ * element while it runs. The texts can be replaced through the `label` and
+ * `button` slots.
+ */
+export class ZombieCreateFormElement extends ZombieElement {
+  constructor() {
+    super(
+      FORM_STYLES,
+      `<form part="form" novalidate>
+        <label part="label">
+          <slot name="label">Zombie name</slot>
+          <input part="input" name="name" maxlength="${MAX_NAME_LENGTH}" autocomplete="off" required />
+        </label>
+        <button part="button" type="submit"><slot name="button">Create zombie</slot></button>
+        <p part="status" role="status" aria-live="polite"></p>
+      </form>`
+    )
+    this.byPart('form').addEventListener('submit', this.onSubmit)
+    this.byPart('input').addEventListener('input', () => {
+      this.byPart('input').removeAttribute('aria-invalid')
+    })
+  }
+
+  get pending(): boolean {
+    return this.hasAttribute('pending')
+  }
+
+  protected update() {}
+
+  private onSubmit = async (event: Event) => {
+    event.preventDefault()
+    if (this.pending) return
+
+    const input = this.byPart<HTMLInputElement>('input')
+    const name = input.value.trim()
+    const validation = validateZombieName(name)
+    if (!validation.valid) return this.reject(input, validation.message)
+
+    const zombieFactory = this.zombieFactory
+    if (!zombieFactory) {
+      this.fail(
+        new ZombieError(
+          { kind: 'UNKNOWN' },
+          'No ZombieFactory: call defineZombieElements(zombieFactory) first'
+        )
+      )
+      return
+    }
+
+    this.toggleAttribute('pending', true)
+    this.byPart<HTMLButtonElement>('button').disabled = true
+    try {
+      if (!(await zombieFactory.isNameAvailable(name))) {
+        return this.reject(input, `${name} is already taken`)
+      }
+
+      const result = await zombieFactory.createRandomZombie(name, {
+        onStatus: (update) => {
+          this.showStatus(STATUS_TEXT[update.status])
+          this.emit('zombie-status', update)
+        },
+      })
+      if (result.status !== 'confirmed') {
+        this.fail(outcomeError(result))
+        return
+      }
+
+      const { status: _, ...minted } = result
+      input.value = ''
+      this.showStatus(`Zombie #${minted.zombieId} created`)
+      this.emit('zombie-created', minted)
+    } catch (error) {
+      this.fail(toZombieError(error))
+    } finally {
+      this.removeAttribute('pending')
+      this.byPart<HTMLButtonElement>('button').disabled = false
+    }
+  }
+
+  // A name the contract would refuse, told apart from failures
+  private reject(input: HTMLInputElement, message: string) {
+    input.setAttribute('aria-invalid', 'true')
+    input.focus()
+    this.showStatus(message, true)
+  }
+
+  private fail(error: ZombieError) {
+    this.showStatus(error.message, true)
+    this.emit('zombie-error', error)
+  }
+}
+
+/**
+ * `<zombie-card zombie-id="3">`: the zombie's picture, name, DNA and decoded
+ * traits, read from the contract whenever `zombie-id` changes. Setting
+ * `zombie` shows an already known zombie without reading it.
+ */
+export class ZombieCardElement extends ZombieElement {
+  static observedAttributes = ['zombie-id']
+
+  private _zombie?: Zombie
+  // Reads started so far; only the latest one is shown
+  private reads = 0
+
+  constructor() {
+    super(
+      CARD_STYLES,
+      `<figure part="card">
+        <div part="image"></div>
+        <figcaption>
+          <strong part="name"></strong>
+          <code part="dna"></code>
+          <dl part="traits"></dl>
+        </figcaption>
+        <p part="status" role="status"></p>
+      </figure>`
+    )
+  }
+
+  get zombie(): Zombie | undefined {
+    return this._zombie
+  }
+
+  set zombie(zombie: Zombie | undefined) {
+    this._zombie = zombie
+    if (zombie) this.setAttribute('zombie-id', zombie.id.toString())
+    else this.removeAttribute('zombie-id')
+    if (this.isConnected) this.update()
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) this.update()
+  }
+
+  disconnectedCallback() {
+    this.reads++
+    this.removeAttribute('loading')
+  }
+
+  protected update() {
+    const attribute = this.getAttribute('zombie-id')
+    if (attribute === null) return this.render(undefined)
+    if (!/^\d+$/.test(attribute)) {
+      this.render(undefined)
+      this.showStatus(`Invalid zombie-id: ${attribute}`, true)
+      return
+    }
+
+    const zombieId = BigInt(attribute)
+    if (this._zombie?.id === zombieId) return this.render(this._zombie)
+    void this.load(zombieId)
+  }
+
+  private async load(zombieId: bigint) {
+    const zombieFactory = this.zombieFactory
+    if (!zombieFactory) return
+
+    const read = ++this.reads
+    this.toggleAttribute('loading', true)
+    this.showStatus('Loading…')
+    try {
+      const { name, dna } = await zombieFactory.getZombie(zombieId)
+      if (read !== this.reads) return
+      this._zombie = { id: zombieId, name, dna }
+      this.render(this._zombie)
+      this.emit('zombie-load', this._zombie)
+    } catch (error) {
+      if (read !== this.reads) return
+      const zombieError = toZombieError(error)
+      this.showStatus(zombieError.message, true)
+      this.emit('zombie-error', zombieError)
+    } finally {
+      if (read === this.reads) this.removeAttribute('loading')
+    }
+  }
+
+  private render(zombie: Zombie | undefined) {
+    const traits = this.byPart('traits')
+    traits.replaceChildren()
+    this.showStatus('')
+    if (!zombie) {
+      this.byPart('image').innerHTML = ''
+      this.byPart('name').textContent = ''
+      this.byPart('dna').textContent = ''
+      return
+    }
+
+    const schema = schemaForZombie(zombie.id)
+    const decoded = decodeZombieDna(zombie.dna, zombie.id)
+    // renderZombieSvg escapes the name, so the markup is safe to inline
+    this.byPart('image').innerHTML = renderZombieSvg({
+      ...decoded,
+      zombieName: zombie.name,
+    })
+    this.byPart('name').textContent = zombie.name
+    this.byPart('dna').textContent = zombie.dna
+      .toString()
+      .padStart(schema.dnaDigits, '0')
+
+    for (const trait of schema.traits) {
+      const label = document.createElement('dt')
+      const value = document.createElement('dd')
+      label.textContent = trait.label
+      value.textContent =
+        trait.kind === 'hue'
+          ? `${decoded[trait.name]}°`
+          : `${decoded[trait.name]} / ${trait.variants}`
+      traits.append(label, value)
+    }
+  }
+}
+
+/**
+ * `<zombie-feed limit="10">`: a `<zombie-card>` for each zombie created
+ * while the feed is on the page, newest first. The `empty` slot replaces the
+ * text shown before the first one.
+ */
+export class ZombieFeedElement extends ZombieElement {
+  static observedAttributes = ['limit']
+
+  private unwatch?: () => void
+
+  constructor() {
+    super(
+      FEED_STYLES,
+      `<ol part="list"></ol>
+      <p part="empty"><slot name="empty">Waiting for new zombies…</slot></p>
+      <p part="status" role="status"></p>`
+    )
+  }
+
+  // Cards kept on screen, defaults to 10
+  get limit(): number {
+    const limit = Number(this.getAttribute('limit') ?? 10)
+    return Number.isInteger(limit) && limit > 0 ? limit : 10
+  }
+
+  attributeChangedCallback() {
+    this.trim()
+  }
+
+  disconnectedCallback() {
+    this.stopWatching()
+  }
+
+  protected update() {
+    this.stopWatching()
+    const zombieFactory = this.zombieFactory
+    if (!zombieFactory) return
+
+    this.unwatch = zombieFactory.watchNewZombieEvents(
+      (event) => this.add(event, zombieFactory),
+      (error) => {
+        this.showStatus(error.message, true)
+        this.emit('zombie-error', error)
+      }
+    )
+  }
+
+  private add(event: NewZombieEvent, zombieFactory: ZombieFactory) {
+    const card = document.createElement('zombie-card')
+    card.zombieFactory = zombieFactory
+    card.zombie = { id: event.zombieId, name: event.name, dna: event.dna }
+
+    const item = document.createElement('li')
+    item.setAttribute('part', 'item')
+    item.append(card)
+    this.byPart('list').prepend(item)
+    this.showStatus('')
+    this.trim()
+    this.emit('zombie-new', event)
+  }
+
+  private trim() {
+    const list = this.byPart('list')
+    while (list.children.length > this.limit) list.lastElementChild!.remove()
+  }
+
+  private stopWatching() {
+    this.unwatch?.()
+    this.unwatch = undefined
+  }
+}
+
+const ZOMBIE_ELEMENTS = {
+  'zombie-create-form': ZombieCreateFormElement,
+  'zombie-card': ZombieCardElement,
+  'zombie-feed': ZombieFeedElement,
+}
+
+/**
+ * Registers `<zombie-create-form>`, `<zombie-card>` and `<zombie-feed>`.
+ * `zombieFactory` is used by every element not given one of its own through
+ * its `zombieFactory` property. Tags already defined are left alone, so
+ * calling it twice is harmless.
+ */
+export function defineZombieElements(
+  zombieFactory?: ZombieFactory,
+  registry: CustomElementRegistry = customElements
+) {
+  if (zombieFactory) defaultZombieFactory = zombieFactory
+  for (const [tag, element] of Object.entries(ZOMBIE_ELEMENTS)) {
+    if (!registry.get(tag)) registry.define(tag, element)
+  }
+}
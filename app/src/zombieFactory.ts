@@ -1,86 +1,741 @@
 import {
-  createPublicClient,
-  createWalletClient,
-  custom,
   http,
-  parseAbiItem,
+  isAddressEqual,
+  parseEventLogs,
+  type Account,
+  type Address,
+  type Chain,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type EIP1193Provider,
+  type Hash,
+  type Hex,
+  type Log,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
 } from 'viem'
-import { mainnet } from 'viem/chains'
+import { privateKeyToAccount } from 'viem/accounts'
+import { createReadClient, createWriteClient, DEFAULT_CHAIN } from './client'
+import {
+  decodeSpeciesMarker,
+  decodeZombieTraits,
+  LATEST_DNA_SCHEMA,
+  schemaForZombie,
+  type DecodedTraits,
+} from './dnaSchema'
+import { ZombieAttackAbi } from './contracts/ZombieAttack.abi'
 import { ZombieFactoryAbi } from './contracts/ZombieFactory.abi'
-
-// Extend Window interface for ethereum
-declare global {
-  interface Window {
-    ethereum?: any
-  }
-}
+import { toZombieError, ZombieError } from './errors'
+import { quoteContractWrite, type FeeQuote } from './feeQuote'
+import { resolveDeployment, type ResolveDeploymentOptions } from './networks'
+import {
+  computeCommitment,
+  createMemoryRevealStorage,
+  createRevealSecret,
+  PendingReveals,
+  type PendingReveal,
+  type RevealStorage,
+} from './pendingReveals'
+import {
+  waitForBlockNumber,
+  waitForTransaction,
+  type TransactionLifecycleOptions,
+  type TransactionOutcome,
+} from './transaction'
+import type { WalletManager } from './walletManager'
+import { validateZombieName } from './zombieName'
 
 // Types
-interface ZombieDetails {
+export interface ZombieDetails {
   headChoice: number
   eyeChoice: number
   shirtChoice: number
   skinColorChoice: number
   eyeColorChoice: number
   clothesColorChoice: number
+  species: ZombieSpecies
+  level: number
   zombieName: string
   zombieDescription: string
 }
 
-interface NewZombieEvent {
+// Visual traits encoded in a zombie's DNA
+export type ZombieTraits = Omit<
+  ZombieDetails,
+  'species' | 'level' | 'zombieName' | 'zombieDescription'
+>
+
+// What a zombie was born from, told by the last two digits of its DNA
+export type ZombieSpecies = 'zombie' | 'kitty'
+
+export interface NewZombieEvent {
   zombieId: bigint
   name: string
   dna: bigint
 }
 
-// Configuration
-const CONTRACT_ADDRESS = '0x...' // Replace with your deployed contract address
-const CHAIN = mainnet // Replace with your target chain
+// A zombie as minted by a confirmed createRandomZombie or feedOnKitty
+// transaction
+export interface MintedZombie extends NewZombieEvent {
+  blockNumber: bigint
+  txHash: Hash
+}
+
+export type CreateZombieResult =
+  | ({ status: 'confirmed' } & MintedZombie)
+  | { status: 'reverted'; txHash: Hash; blockNumber: bigint }
+  | {
+      status: 'replaced'
+      txHash: Hash
+      replacementTxHash: Hash
+      reason: 'cancelled' | 'replaced'
+    }
 
-// Create clients
-const publicClient = createPublicClient({
-  chain: CHAIN,
-  transport: http(),
-})
+// How a write that did not confirm ended, the same for every method
+type UnconfirmedResult = Exclude<CreateZombieResult, { status: 'confirmed' }>
 
-const walletClient = createWalletClient({
-  chain: CHAIN,
-  transport: custom(window.ethereum),
-})
+// How a commitZombie ended. `revealBlock` must be mined before the reveal
+export type CommitZombieResult =
+  | {
+      status: 'confirmed'
+      commitment: Hex
+      revealBlock: bigint
+      txHash: Hash
+      blockNumber: bigint
+    }
+  | UnconfirmedResult
+
+// What resumePendingReveals did with each pending reveal
+export interface RevealOutcome {
+  commitment: Hex
+  name: string
+  result?: CreateZombieResult
+  error?: ZombieError
+}
+
+// How createRandomZombies created its zombies: one wallet_sendCalls batch,
+// or one transaction per name when the wallet cannot batch atomically
+export type ZombieBatchMode = 'batch' | 'sequential'
+
+// What createRandomZombies did with each name. `error` when the name was
+// not sent (ex: INVALID_NAME) or its transaction could not be followed
+export interface ZombieBatchOutcome {
+  name: string
+  result?: CreateZombieResult
+  error?: ZombieError
+}
+
+export interface CreateZombiesResult {
+  mode: ZombieBatchMode
+  // wallet_sendCalls id, in batch mode
+  batchId?: string
+  // One per name, in the same order
+  outcomes: ZombieBatchOutcome[]
+}
+
+// Progress of createRandomZombies. In batch mode, `polled` reports every
+// wallet_getCallsStatus answer until the batch is mined
+export type ZombieBatchStatus =
+  | { status: 'signing'; mode: 'batch' }
+  | { status: 'signing'; mode: 'sequential'; name: string }
+  | { status: 'submitted'; mode: 'batch'; batchId: string }
+  | { status: 'submitted'; mode: 'sequential'; name: string; txHash: Hash }
+  | {
+      status: 'polled'
+      batchId: string
+      callsStatus: 'pending' | 'success' | 'failure'
+    }
+
+export interface CreateZombiesOptions {
+  // Gives up waiting with a TIMEOUT ZombieError after this many milliseconds
+  timeout?: number
+  onStatus?: (update: ZombieBatchStatus) => void
+}
+
+// How a transfer or an approval ended, waited for like createRandomZombie
+export type ZombieWriteResult =
+  | { status: 'confirmed'; txHash: Hash; blockNumber: bigint }
+  | UnconfirmedResult
+
+// A zombie changing hands. `from` is the zero address when it was created
+export interface ZombieTransferEvent {
+  from: Address
+  to: Address
+  zombieId: bigint
+}
+
+// How an attack ended. A win also levels the zombie up and mints the
+// offspring of the two zombies to the attacker's owner
+export type AttackResult =
+  | {
+      status: 'confirmed'
+      outcome: 'won'
+      txHash: Hash
+      blockNumber: bigint
+      level: number
+      offspring: MintedZombie
+    }
+  | { status: 'confirmed'; outcome: 'lost'; txHash: Hash; blockNumber: bigint }
+  | UnconfirmedResult
+
+export type LevelUpResult =
+  | { status: 'confirmed'; txHash: Hash; blockNumber: bigint; level: number }
+  | UnconfirmedResult
+
+// AttackWon, AttackLost and LevelUp, the latter for paid and won levels
+export type ZombieBattleEvent =
+  | { type: 'won'; zombieId: bigint; targetId: bigint; newZombieId: bigint }
+  | { type: 'lost'; zombieId: bigint; targetId: bigint }
+  | { type: 'levelUp'; zombieId: bigint; level: number }
+
+// Game state of a zombie. Unlike its name and DNA, it changes with every
+// battle, feeding and level up
+export interface ZombieStats {
+  level: number
+  // Unix time in seconds from which it can attack or feed again
+  readyTime: number
+  winCount: number
+  lossCount: number
+}
+
+// Writes are typed against ZombieAttack, which extends ZombieFeeding and
+// ZombieFactory. The game methods revert on a contract deployed as one of
+// those
+type WriteFunctionName = ContractFunctionName<
+  typeof ZombieAttackAbi,
+  'nonpayable' | 'payable'
+>
+
+type WriteArgs<F extends WriteFunctionName> = ContractFunctionArgs<
+  typeof ZombieAttackAbi,
+  'nonpayable' | 'payable',
+  F
+>
+
+type PayableFunctionName = ContractFunctionName<
+  typeof ZombieAttackAbi,
+  'payable'
+>
+
+// A write with its args, one member per function so viem checks them as is.
+// Payable functions carry the wei they send
+type WriteCall =
+  | {
+      [F in Exclude<WriteFunctionName, PayableFunctionName>]: {
+        functionName: F
+        args: WriteArgs<F>
+      }
+    }[Exclude<WriteFunctionName, PayableFunctionName>]
+  | {
+      [F in PayableFunctionName]: {
+        functionName: F
+        args: WriteArgs<F>
+        value: bigint
+      }
+    }[PayableFunctionName]
 
-// ZombieFactory class for better organization
+export interface ZombieFactoryOptions {
+  // Target chain, defaults to DEFAULT_CHAIN (client.ts)
+  chain?: Chain
+  // Transport for the read client, defaults to http()
+  transport?: Transport
+  // Ready-made clients (ex: from Hardhat's viem.getPublicClient())
+  publicClient?: PublicClient
+  walletClient?: WalletClient
+  // EIP-1193 provider for writes, defaults to window.ethereum
+  provider?: EIP1193Provider
+  // Local account (privateKeyToAccount) or an address managed by the wallet
+  account?: Account | Address
+  // Browser wallet picked by the user: writes use its account and first
+  // make sure it is connected and on the manager's chain
+  walletManager?: WalletManager
+  // Multicall3 used for batched reads, defaults to chain.contracts.multicall3.
+  // Without one, batched reads fall back to parallel calls
+  multicallAddress?: Address
+  // Keeps the commit-reveal secrets until the reveal, defaults to
+  // localStorage, or memory (lost on exit) when there is none
+  revealStorage?: RevealStorage
+  // Chain type of the network in hardhat.config.ts, ex: 'op' for the L1 data
+  // fee in quotes. Defaults to the registry's for the chain
+  chainType?: string
+}
+
+// A zombie as read from the contract's zombies array
+export interface Zombie {
+  id: bigint
+  name: string
+  dna: bigint
+}
+
+export interface BatchReadOptions {
+  // Block to read at, defaults to the latest one
+  blockNumber?: bigint
+  // zombies(i) calls per multicall, defaults to 500
+  batchSize?: number
+  // Multicalls (or single calls, without Multicall3) in flight at once,
+  // defaults to 4
+  concurrency?: number
+}
+
+export interface ListZombiesOptions extends BatchReadOptions {
+  // Only the zombies this address has (getZombiesByOwner)
+  owner?: Address
+  // By id, defaults to ascending (oldest first)
+  order?: 'asc' | 'desc'
+  // nextCursor of the previous page, in place of offset: the page starts
+  // after that zombie however many were created meanwhile
+  cursor?: string
+  offset?: number
+  // Defaults to 100
+  limit?: number
+}
+
+export interface ZombieListPage {
+  zombies: Zombie[]
+  // Zombies in the listing at blockNumber: getZombiesCount(), or how many
+  // the owner has
+  total: bigint
+  // Every zombie of the page was read at this block
+  blockNumber: bigint
+  // Undefined on the last page
+  nextCursor?: string
+}
+
+// ZombieFactory class for better organization. Clients are created on first
+// use, so the class can be imported and used read-only without any wallet.
 export class ZombieFactory {
-  private contractAddress: `0x${string}`
+  private contractAddress: Address
+  private options: ZombieFactoryOptions
+  private _publicClient?: PublicClient
+  private _walletClient?: WalletClient
+  private account?: Account | Address
+  private revealStorage: RevealStorage
 
-  constructor(contractAddress: `0x${string}`) {
+  constructor(contractAddress: Address, options: ZombieFactoryOptions = {}) {
     this.contractAddress = contractAddress
+    this.options = options
+    this._publicClient = options.publicClient
+    this._walletClient = options.walletClient
+    this.account = options.account ?? options.walletClient?.account
+    this.revealStorage =
+      options.revealStorage ??
+      (typeof localStorage === 'undefined'
+        ? createMemoryRevealStorage()
+        : localStorage)
   }
 
-  // Create a random zombie
-  async createRandomZombie(name: string): Promise<`0x${string}`> {
-    try {
-      const [account] = await walletClient.requestAddresses()
+  // The ZombieFactory the network registry has on `chainId`, read through
+  // the registry's RPC. Throws a NO_DEPLOYMENT ZombieError when there is none
+  static forChain(
+    chainId: number,
+    {
+      rpcUrls,
+      env,
+      ...options
+    }: ZombieFactoryOptions & ResolveDeploymentOptions = {}
+  ): ZombieFactory {
+    const deployment = resolveDeployment(chainId, { rpcUrls, env })
+    return new ZombieFactory(deployment.address, {
+      chain: deployment.chain,
+      transport: http(deployment.rpcUrl),
+      chainType: deployment.chainType,
+      ...options,
+    })
+  }
+
+  get address(): Address {
+    return this.contractAddress
+  }
+
+  get chain(): Chain {
+    return (
+      this.options.chain ??
+      this.options.publicClient?.chain ??
+      this.options.walletClient?.chain ??
+      this.options.walletManager?.chain ??
+      DEFAULT_CHAIN
+    )
+  }
+
+  get publicClient(): PublicClient {
+    this._publicClient ??= createReadClient({
+      chain: this.chain,
+      transport: this.options.transport,
+    })
+    return this._publicClient
+  }
+
+  get walletClient(): WalletClient {
+    if (this.options.walletManager) {
+      return this.options.walletManager.getWalletClient()
+    }
+    this._walletClient ??= createWriteClient({
+      chain: this.chain,
+      provider: this.options.provider,
+      transport: this.options.transport,
+      account: typeof this.account === 'object' ? this.account : undefined,
+    })
+    return this._walletClient
+  }
+
+  // Resolves the signing account, asking the wallet only the first time
+  async getAccount(): Promise<Account | Address> {
+    if (this.options.walletManager) {
+      return (await this.options.walletManager.ready()).account
+    }
+    if (!this.account) {
+      const [address] = await this.walletClient.requestAddresses()
+      this.account = address
+    }
+    return this.account
+  }
+
+  // Sends createRandomZombie and resolves as soon as the wallet has
+  // submitted it. Failures are thrown as ZombieError
+  async submitRandomZombie(name: string): Promise<Hash> {
+    return this.submit({ functionName: 'createRandomZombie', args: [name] })
+  }
+
+  // Create a random zombie and wait for it to be minted. Reports each step
+  // through `onStatus` and decodes the zombie from the receipt's NewZombie log
+  async createRandomZombie(
+    name: string,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<CreateZombieResult> {
+    return this.toCreateResult(
+      await this.send(
+        { functionName: 'createRandomZombie', args: [name] },
+        options
+      )
+    )
+  }
+
+  /**
+   * Creates a zombie per name, with as few wallet prompts as the wallet
+   * allows. When it reports atomic batching (EIP-5792 wallet_getCapabilities)
+   * the calls go in one wallet_sendCalls, followed through
+   * wallet_getCallsStatus: they are all created or none is. Otherwise each
+   * name gets its own createRandomZombie, all sent before any is waited for,
+   * with consecutive nonces. Names the contract would refuse, including
+   * repeats within `names`, fail with INVALID_NAME and are not sent
+   */
+  async createRandomZombies(
+    names: string[],
+    options: CreateZombiesOptions = {}
+  ): Promise<CreateZombiesResult> {
+    const outcomes: ZombieBatchOutcome[] = names.map((name) => ({ name }))
+    const toSend: ZombieBatchOutcome[] = []
+    const keys = new Set<Hex>()
+    for (const outcome of outcomes) {
+      const validation = validateZombieName(outcome.name)
+      if (validation.valid && keys.has(validation.key)) {
+        outcome.error = new ZombieError(
+          { kind: 'INVALID_NAME', name: outcome.name, reason: 'taken' },
+          `${outcome.name} is already in the batch`
+        )
+        continue
+      }
+      try {
+        await this.requireAvailableName(outcome.name)
+      } catch (error) {
+        outcome.error = toZombieError(error)
+        continue
+      }
+      if (validation.valid) keys.add(validation.key)
+      toSend.push(outcome)
+    }
 
-      const { request } = await publicClient.simulateContract({
+    const account = await this.getAccount()
+    const mode: ZombieBatchMode = (await this.supportsAtomicBatch(account))
+      ? 'batch'
+      : 'sequential'
+    if (toSend.length === 0) return { mode, outcomes }
+
+    if (mode === 'sequential') {
+      await this.sendZombiesSequentially(toSend, options)
+      return { mode, outcomes }
+    }
+    const batchId = await this.sendZombieBatch(account, toSend, options)
+    return { mode, batchId, outcomes }
+  }
+
+  // Gas and fees createRandomZombie(name) would cost the account now, with
+  // the L1 data fee on OP-stack chains. Throws INVALID_NAME for a name it
+  // would reject
+  async quoteCreateZombie(name: string): Promise<FeeQuote> {
+    await this.requireAvailableName(name)
+    return quoteContractWrite(
+      this.publicClient,
+      {
         address: this.contractAddress,
         abi: ZombieFactoryAbi,
         functionName: 'createRandomZombie',
         args: [name],
-        account,
-      })
+        account: await this.getAccount(),
+      },
+      { chainType: this.options.chainType }
+    )
+  }
+
+  /**
+   * First step of the commit-reveal mint, whose DNA nobody can predict or
+   * grind from the name: sends the hash of `name` and a fresh random secret.
+   * The secret never leaves this client. It is saved in `revealStorage`
+   * before the wallet is even asked, and dropped if the commit fails, so a
+   * page reload at any point loses nothing: see resumePendingReveals
+   */
+  async commitZombie(
+    name: string,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<CommitZombieResult> {
+    // A bad name would only revert at the reveal, once the commit is paid
+    await this.requireAvailableName(name)
+
+    const reveals = await this.getPendingRevealStore()
+    const secret = createRevealSecret()
+    const commitment = computeCommitment(name, secret)
+    reveals.add({ commitment, name, secret, createdAt: Date.now() })
 
-      const hash = await walletClient.writeContract(request)
-      return hash
+    let outcome: TransactionOutcome
+    try {
+      outcome = await this.send(
+        { functionName: 'commitZombie', args: [commitment] },
+        options
+      )
     } catch (error) {
-      console.error('Error creating zombie:', error)
+      // A timed out or lost request may still be mined
+      if (!toZombieError(error).retryable) reveals.remove(commitment)
       throw error
     }
+    if (outcome.status !== 'confirmed') {
+      reveals.remove(commitment)
+      return toUnconfirmedResult(outcome)
+    }
+
+    const { receipt } = outcome
+    const [log] = parseEventLogs({
+      abi: ZombieFactoryAbi,
+      eventName: 'ZombieCommitted',
+      logs: receipt.logs,
+    }).filter((log) => isAddressEqual(log.address, this.contractAddress))
+    if (!log) {
+      throw new ZombieError(
+        { kind: 'UNKNOWN' },
+        `No ZombieCommitted event in the receipt of ${receipt.transactionHash}`
+      )
+    }
+    return {
+      status: 'confirmed',
+      commitment,
+      revealBlock: log.args.revealBlock,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    }
+  }
+
+  /**
+   * Second step: waits for the commitment's reveal block to be mined, then
+   * mints the zombie with the secret kept by commitZombie. Throws an
+   * UNKNOWN_COMMITMENT ZombieError when there is no such pending reveal,
+   * and COMMITMENT_EXPIRED (forgetting the secret) when it is too late
+   */
+  async revealZombie(
+    commitment: Hex,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<CreateZombieResult> {
+    const account = await this.getAccountAddress()
+    const reveals = await this.getPendingRevealStore()
+    const reveal = reveals.get(commitment)
+    if (!reveal) {
+      throw new ZombieError({ kind: 'UNKNOWN_COMMITMENT', commitment })
+    }
+
+    const { committedAt, revealBlock, lastRevealBlock, latest } =
+      await this.readCommitment(account, commitment)
+    if (committedAt === 0n) {
+      throw new ZombieError({ kind: 'UNKNOWN_COMMITMENT', commitment })
+    }
+
+    // The reveal is mined after the latest block
+    if (latest >= lastRevealBlock) {
+      reveals.remove(commitment)
+      throw new ZombieError({
+        kind: 'COMMITMENT_EXPIRED',
+        commitment,
+        revealBlock,
+      })
+    }
+    await waitForBlockNumber(this.publicClient, revealBlock + 1n, options)
+
+    const outcome = await this.send(
+      { functionName: 'revealZombie', args: [reveal.name, reveal.secret] },
+      options
+    )
+    if (outcome.status === 'confirmed') reveals.remove(commitment)
+    return this.toCreateResult(outcome)
+  }
+
+  // Commitments of the signing account not revealed yet, oldest first
+  async getPendingReveals(): Promise<PendingReveal[]> {
+    return (await this.getPendingRevealStore()).list()
+  }
+
+  // Forgets a commitment's secret, making it impossible to reveal
+  async discardPendingReveal(commitment: Hex): Promise<void> {
+    const reveals = await this.getPendingRevealStore()
+    reveals.remove(commitment)
+  }
+
+  // Reveals every pending commitment of the signing account, one after the
+  // other, ex: after a page reload. Failures are reported per commitment
+  async resumePendingReveals(
+    options: TransactionLifecycleOptions = {}
+  ): Promise<RevealOutcome[]> {
+    const outcomes: RevealOutcome[] = []
+    for (const { commitment, name } of await this.getPendingReveals()) {
+      try {
+        const result = await this.revealZombie(commitment, options)
+        outcomes.push({ commitment, name, result })
+      } catch (error) {
+        outcomes.push({ commitment, name, error: toZombieError(error) })
+      }
+    }
+    return outcomes
+  }
+
+  // Feeds a zombie the signing account created on a CryptoKitty, and waits
+  // for the offspring: named "NoName", with the kitty species marker in its
+  // DNA. Only works on a contract deployed as ZombieFeeding
+  async feedOnKitty(
+    zombieId: bigint,
+    kittyId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<CreateZombieResult> {
+    return this.toCreateResult(
+      await this.send(
+        { functionName: 'feedOnKitty', args: [zombieId, kittyId] },
+        options
+      )
+    )
+  }
+
+  // Gives a zombie of the signing account to `to`. Uses safeTransferFrom,
+  // so it reverts rather than strand the zombie in a contract that cannot
+  // hold ERC-721 tokens
+  async transfer(
+    to: Address,
+    zombieId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<ZombieWriteResult> {
+    return this.transferFrom(
+      await this.getAccountAddress(),
+      to,
+      zombieId,
+      options
+    )
+  }
+
+  // Moves a zombie of `from` to `to` for an account `from` approved, with
+  // safeTransferFrom like transfer
+  async transferFrom(
+    from: Address,
+    to: Address,
+    zombieId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<ZombieWriteResult> {
+    return toWriteResult(
+      await this.send(
+        { functionName: 'safeTransferFrom', args: [from, to, zombieId] },
+        options
+      )
+    )
+  }
+
+  // Lets `spender` transfer one zombie of the signing account, until it
+  // changes hands. zeroAddress takes the approval back
+  async approve(
+    spender: Address,
+    zombieId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<ZombieWriteResult> {
+    return toWriteResult(
+      await this.send(
+        { functionName: 'approve', args: [spender, zombieId] },
+        options
+      )
+    )
+  }
+
+  // Attacks `targetId` with a zombie of the signing account, once it is
+  // ready (see getZombieStats). Win or lose, the zombie goes on cooldown
+  async attack(
+    zombieId: bigint,
+    targetId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<AttackResult> {
+    const outcome = await this.send(
+      { functionName: 'attack', args: [zombieId, targetId] },
+      options
+    )
+    if (outcome.status !== 'confirmed') return toUnconfirmedResult(outcome)
+
+    const { receipt } = outcome
+    const { transactionHash: txHash, blockNumber } = receipt
+    const events = this.decodeBattleEvents(receipt)
+    const { type } = requireBattleEvent(events, ['won', 'lost'], txHash)
+    if (type === 'lost') {
+      return { status: 'confirmed', outcome: 'lost', txHash, blockNumber }
+    }
+    return {
+      status: 'confirmed',
+      outcome: 'won',
+      txHash,
+      blockNumber,
+      level: requireBattleEvent(events, ['levelUp'], txHash).level,
+      offspring: this.decodeNewZombie(receipt),
+    }
+  }
+
+  // Pays getLevelUpFee() to level any zombie up
+  async levelUp(
+    zombieId: bigint,
+    options: TransactionLifecycleOptions = {}
+  ): Promise<LevelUpResult> {
+    const value = await this.getLevelUpFee()
+    const outcome = await this.send(
+      { functionName: 'levelUp', args: [zombieId], value },
+      options
+    )
+    if (outcome.status !== 'confirmed') return toUnconfirmedResult(outcome)
+
+    const { transactionHash: txHash, blockNumber } = outcome.receipt
+    const { level } = requireBattleEvent(
+      this.decodeBattleEvents(outcome.receipt),
+      ['levelUp'],
+      txHash
+    )
+    return { status: 'confirmed', txHash, blockNumber, level }
+  }
+
+  // In wei
+  async getLevelUpFee(): Promise<bigint> {
+    try {
+      return await this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: ZombieAttackAbi,
+        functionName: 'LEVEL_UP_FEE',
+      })
+    } catch (error) {
+      throw toZombieError(error)
+    }
   }
 
   // Get zombie details by ID
   async getZombie(zombieId: bigint): Promise<{ name: string; dna: bigint }> {
     try {
-      const result = await publicClient.readContract({
+      const result = await this.publicClient.readContract({
         address: this.contractAddress,
         abi: ZombieFactoryAbi,
         functionName: 'zombies',
@@ -92,17 +747,225 @@ export class ZombieFactory {
         dna: result[1],
       }
     } catch (error) {
-      console.error('Error getting zombie:', error)
-      throw error
+      throw toZombieError(error)
+    }
+  }
+
+  // Whether createRandomZombie would accept `name`: false when it breaks the
+  // name policy (validateZombieName says why) or when another zombie has it,
+  // in any case
+  async isNameAvailable(name: string): Promise<boolean> {
+    const validation = validateZombieName(name)
+    if (!validation.valid) return false
+    try {
+      return !(await this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: ZombieFactoryAbi,
+        functionName: 'nameTaken',
+        args: [validation.key],
+      }))
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+
+  // Level, cooldown and battle record, which getZombie leaves out: they
+  // change, while a zombie's name and DNA can be cached for good
+  async getZombieStats(
+    zombieId: bigint,
+    blockNumber?: bigint
+  ): Promise<ZombieStats> {
+    try {
+      const [, , level, readyTime, winCount, lossCount] =
+        await this.publicClient.readContract({
+          address: this.contractAddress,
+          abi: ZombieFactoryAbi,
+          functionName: 'zombies',
+          args: [zombieId],
+          blockNumber,
+        })
+      return { level, readyTime, winCount, lossCount }
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+
+  async getZombiesCount(blockNumber?: bigint): Promise<bigint> {
+    try {
+      return await this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: ZombieFactoryAbi,
+        functionName: 'getZombiesCount',
+        blockNumber,
+      })
+    } catch (error) {
+      throw toZombieError(error)
     }
   }
 
+  // Read many zombies at once, all at the same block: in Multicall3 batches
+  // when the chain has it, otherwise with a limited number of parallel calls
+  async getZombies(
+    ids: readonly bigint[],
+    { blockNumber, batchSize = 500, concurrency = 4 }: BatchReadOptions = {}
+  ): Promise<Zombie[]> {
+    try {
+      blockNumber ??= await this.latestBlockNumber()
+      const contract = { address: this.contractAddress, abi: ZombieFactoryAbi }
+      const multicallAddress =
+        this.options.multicallAddress ??
+        this.chain.contracts?.multicall3?.address
+
+      let tuples: (readonly [string, bigint, ...number[]])[]
+      if (multicallAddress) {
+        const batches = await mapWithConcurrency(
+          chunk(ids, batchSize),
+          concurrency,
+          (batch) =>
+            this.publicClient.multicall({
+              contracts: batch.map(
+                (id) =>
+                  ({
+                    ...contract,
+                    functionName: 'zombies',
+                    args: [id],
+                  }) as const
+              ),
+              multicallAddress,
+              blockNumber,
+              allowFailure: false,
+              // Our batches are already split by call count
+              batchSize: 0,
+            })
+        )
+        tuples = batches.flat()
+      } else {
+        tuples = await mapWithConcurrency(ids, concurrency, (id) =>
+          this.publicClient.readContract({
+            ...contract,
+            functionName: 'zombies',
+            args: [id],
+            blockNumber,
+          })
+        )
+      }
+
+      return tuples.map(([name, dna], index) => ({ id: ids[index], name, dna }))
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+
+  // The zombies `owner` has, in creation order, all read at the same block
+  async getZombiesByOwner(
+    owner: Address,
+    options: BatchReadOptions = {}
+  ): Promise<Zombie[]> {
+    let blockNumber: bigint
+    let ids: readonly bigint[]
+    try {
+      blockNumber = options.blockNumber ?? (await this.latestBlockNumber())
+      ids = await this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: ZombieFactoryAbi,
+        functionName: 'getZombiesByOwner',
+        args: [owner],
+        blockNumber,
+      })
+    } catch (error) {
+      throw toZombieError(error)
+    }
+
+    return this.getZombies(ids, { ...options, blockNumber })
+  }
+
+  // One page of the zombies array, or of an owner's zombies, read as a
+  // consistent snapshot
+  async listZombies({
+    owner,
+    order = 'asc',
+    cursor,
+    offset = 0,
+    limit = 100,
+    ...options
+  }: ListZombiesOptions = {}): Promise<ZombieListPage> {
+    let blockNumber: bigint
+    let owned: readonly bigint[] | undefined
+    try {
+      blockNumber = options.blockNumber ?? (await this.latestBlockNumber())
+      if (owner !== undefined) {
+        owned = await this.publicClient.readContract({
+          address: this.contractAddress,
+          abi: ZombieFactoryAbi,
+          functionName: 'getZombiesByOwner',
+          args: [owner],
+          blockNumber,
+        })
+      }
+    } catch (error) {
+      throw toZombieError(error)
+    }
+
+    // The listing as the id at each position, and where the page starts in
+    // it. The whole zombies array is never built: its ids are its positions
+    let total: bigint
+    let idAt: (position: bigint) => bigint
+    let start = BigInt(offset)
+    if (owned) {
+      const sorted = [...owned].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+      if (order === 'desc') sorted.reverse()
+      total = BigInt(sorted.length)
+      idAt = (position) => sorted[Number(position)]
+      if (cursor !== undefined) {
+        const after = BigInt(cursor)
+        const next = sorted.findIndex((id) =>
+          order === 'asc' ? id > after : id < after
+        )
+        start = next === -1 ? total : BigInt(next)
+      }
+    } else {
+      const count = await this.getZombiesCount(blockNumber)
+      total = count
+      idAt = (position) => (order === 'asc' ? position : count - 1n - position)
+      if (cursor !== undefined) {
+        const after = BigInt(cursor)
+        start = order === 'asc' ? after + 1n : count - after
+        if (start < 0n) start = 0n
+      }
+    }
+
+    const ids: bigint[] = []
+    for (let at = start; at < total && ids.length < limit; at++) {
+      ids.push(idAt(at))
+    }
+
+    const zombies = await this.getZombies(ids, { ...options, blockNumber })
+    const end = start + BigInt(ids.length)
+    return {
+      zombies,
+      total,
+      blockNumber,
+      nextCursor:
+        ids.length > 0 && end < total ? String(ids.at(-1)) : undefined,
+    }
+  }
+
+  // The head itself, not the block number viem caches for a polling
+  // interval: a read right after a confirmed write has to see it
+  private latestBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber({ cacheTime: 0 })
+  }
+
   // Listen for NewZombie events
-  watchNewZombieEvents(callback: (event: NewZombieEvent) => void) {
-    return publicClient.watchContractEvent({
+  watchNewZombieEvents(
+    callback: (event: NewZombieEvent) => void,
+    onError?: (error: ZombieError) => void
+  ) {
+    return this.publicClient.watchContractEvent({
       address: this.contractAddress,
       abi: ZombieFactoryAbi,
       eventName: 'NewZombie',
+      onError: onError && ((error) => onError(toZombieError(error))),
       onLogs: (logs) => {
         logs.forEach((log) => {
           if (log.args) {
@@ -116,74 +979,520 @@ export class ZombieFactory {
       },
     })
   }
-}
 
-// Initialize ZombieFactory instance
-const zombieFactory = new ZombieFactory(CONTRACT_ADDRESS)
+  // Listen for zombies changing hands, creations included. `filter` narrows
+  // it down on the node, ex: { to: account } for the zombies it receives
+  watchTransferEvents(
+    callback: (event: ZombieTransferEvent) => void,
+    onError?: (error: ZombieError) => void,
+    filter: { from?: Address; to?: Address } = {}
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.contractAddress,
+      abi: ZombieFactoryAbi,
+      eventName: 'Transfer',
+      args: filter,
+      onError: onError && ((error) => onError(toZombieError(error))),
+      onLogs: (logs) => {
+        logs.forEach((log) => {
+          if (log.args) {
+            callback({
+              from: log.args.from!,
+              to: log.args.to!,
+              zombieId: log.args.tokenId!,
+            })
+          }
+        })
+      },
+    })
+  }
+
+  private toCreateResult(outcome: TransactionOutcome): CreateZombieResult {
+    if (outcome.status !== 'confirmed') return toUnconfirmedResult(outcome)
+    return { status: 'confirmed', ...this.decodeNewZombie(outcome.receipt) }
+  }
+
+  // The zombie a confirmed transaction minted, from its NewZombie log
+  private decodeNewZombie(receipt: TransactionReceipt): MintedZombie {
+    const { transactionHash: txHash, blockNumber } = receipt
+    const [log] = parseEventLogs({
+      abi: ZombieFactoryAbi,
+      eventName: 'NewZombie',
+      logs: receipt.logs,
+    }).filter((log) => isAddressEqual(log.address, this.contractAddress))
+    if (!log) {
+      throw new ZombieError(
+        { kind: 'UNKNOWN' },
+        `No NewZombie event in the receipt of ${txHash}`
+      )
+    }
+
+    const { zombieId, name, dna } = log.args
+    return { zombieId, name, dna, blockNumber, txHash }
+  }
+
+  private decodeBattleEvents(receipt: TransactionReceipt): ZombieBattleEvent[] {
+    return parseEventLogs({
+      abi: ZombieAttackAbi,
+      eventName: Object.values(BATTLE_EVENT_NAMES),
+      logs: receipt.logs,
+    })
+      .filter((log) => isAddressEqual(log.address, this.contractAddress))
+      .flatMap((log) => toBattleEvent(log) ?? [])
+  }
+
+  // Listen for battle outcomes and level ups
+  watchBattleEvents(
+    callback: (event: ZombieBattleEvent) => void,
+    onError?: (error: ZombieError) => void
+  ) {
+    return this.publicClient.watchContractEvent({
+      address: this.contractAddress,
+      abi: ZombieAttackAbi,
+      onError: onError && ((error) => onError(toZombieError(error))),
+      onLogs: (logs) => {
+        logs.forEach((log) => {
+          const event = toBattleEvent(log)
+          if (event) callback(event)
+        })
+      },
+    })
+  }
+
+  // committedAt is 0 when the commitment is not on chain. The reveal must be
+  // mined after revealBlock, and in lastRevealBlock at the latest
+  private async readCommitment(account: Address, commitment: Hex) {
+    const contract = { address: this.contractAddress, abi: ZombieFactoryAbi }
+    try {
+      const [committedAt, revealDelay, revealWindow, latest] =
+        await Promise.all([
+          this.publicClient.readContract({
+            ...contract,
+            functionName: 'commitments',
+            args: [account, commitment],
+          }),
+          this.publicClient.readContract({
+            ...contract,
+            functionName: 'REVEAL_DELAY',
+          }),
+          this.publicClient.readContract({
+            ...contract,
+            functionName: 'REVEAL_WINDOW',
+          }),
+          this.latestBlockNumber(),
+        ])
+      const revealBlock = committedAt + revealDelay
+      return {
+        committedAt,
+        revealBlock,
+        lastRevealBlock: revealBlock + revealWindow,
+        latest,
+      }
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+
+  // Whether the wallet can send calls as one atomic batch on our chain.
+  // Wallets without EIP-5792, and local accounts, cannot
+  private async supportsAtomicBatch(
+    account: Account | Address
+  ): Promise<boolean> {
+    try {
+      const { atomic } = await this.walletClient.getCapabilities({
+        account,
+        chainId: this.chain.id,
+      })
+      return atomic?.status === 'supported' || atomic?.status === 'ready'
+    } catch {
+      return false
+    }
+  }
+
+  // One wallet_sendCalls for every outcome, which all get the batch's fate.
+  // Returns the batch id, or undefined when the wallet refused it
+  private async sendZombieBatch(
+    account: Account | Address,
+    outcomes: ZombieBatchOutcome[],
+    { timeout, onStatus }: CreateZombiesOptions
+  ): Promise<string | undefined> {
+    const fail = (error: ZombieError) =>
+      outcomes.forEach((outcome) => (outcome.error = error))
+
+    onStatus?.({ status: 'signing', mode: 'batch' })
+    let batchId: string
+    try {
+      const batch = await this.walletClient.sendCalls({
+        account,
+        chain: this.chain,
+        forceAtomic: true,
+        calls: outcomes.map(({ name }) => ({
+          to: this.contractAddress,
+          abi: ZombieFactoryAbi,
+          functionName: 'createRandomZombie',
+          args: [name],
+        })),
+      })
+      batchId = batch.id
+    } catch (error) {
+      fail(toZombieError(error))
+      return undefined
+    }
+    onStatus?.({ status: 'submitted', mode: 'batch', batchId })
+
+    let calls: Awaited<ReturnType<WalletClient['waitForCallsStatus']>>
+    try {
+      calls = await this.walletClient.waitForCallsStatus({
+        id: batchId,
+        timeout,
+        status: (update) => {
+          onStatus?.({
+            status: 'polled',
+            batchId,
+            callsStatus: update.status ?? 'pending',
+          })
+          return update.statusCode >= 200
+        },
+      })
+    } catch (error) {
+      fail(toZombieError(error))
+      return batchId
+    }
 
-// UI Event handlers (assuming you're using vanilla JS or jQuery)
-export function setupZombieFactoryUI() {
-  // Event listener for creating zombies
-  const createButton = document.getElementById('ourButton')
-  const nameInput = document.getElementById('nameInput') as HTMLInputElement
+    const receipts = calls.receipts ?? []
+    if (calls.status !== 'success') {
+      const reverted = receipts.find(({ status }) => status === 'reverted')
+      if (!reverted) {
+        fail(
+          new ZombieError(
+            { kind: 'CONTRACT_REVERTED' },
+            `The wallet reports batch ${batchId} as failed`
+          )
+        )
+        return batchId
+      }
+      outcomes.forEach(
+        (outcome) =>
+          (outcome.result = {
+            status: 'reverted',
+            txHash: reverted.transactionHash,
+            blockNumber: reverted.blockNumber,
+          })
+      )
+      return batchId
+    }
 
-  if (createButton && nameInput) {
-    createButton.addEventListener('click', async () => {
-      const name = nameInput.value.trim()
-      if (!name) {
-        alert('Please enter a zombie name')
-        return
+    // Atomic batches may be one transaction or several in the same block.
+    // Their logs only have address, data and topics, all parseEventLogs reads
+    const minted = receipts.flatMap((receipt) =>
+      parseEventLogs({
+        abi: ZombieFactoryAbi,
+        eventName: 'NewZombie',
+        logs: receipt.logs as Log[],
+      })
+        .filter((log) => isAddressEqual(log.address, this.contractAddress))
+        .map(({ args }) => ({
+          ...args,
+          blockNumber: receipt.blockNumber,
+          txHash: receipt.transactionHash,
+        }))
+    )
+    for (const outcome of outcomes) {
+      const zombie = minted.find(({ name }) => name === outcome.name)
+      if (zombie) {
+        outcome.result = { status: 'confirmed', ...zombie }
+      } else {
+        outcome.error = new ZombieError(
+          { kind: 'UNKNOWN' },
+          `No NewZombie event for ${outcome.name} in batch ${batchId}`
+        )
       }
+    }
+    return batchId
+  }
+
+  // Sends a createRandomZombie per outcome without waiting in between, the
+  // nonces counted here, then waits for all of them
+  private async sendZombiesSequentially(
+    outcomes: ZombieBatchOutcome[],
+    { timeout, onStatus }: CreateZombiesOptions
+  ): Promise<void> {
+    let nonce: number
+    try {
+      nonce = await this.publicClient.getTransactionCount({
+        address: await this.getAccountAddress(),
+        blockTag: 'pending',
+      })
+    } catch (error) {
+      const zombieError = toZombieError(error)
+      outcomes.forEach((outcome) => (outcome.error = zombieError))
+      return
+    }
 
+    const sent: { outcome: ZombieBatchOutcome; hash: Hash }[] = []
+    for (const outcome of outcomes) {
+      onStatus?.({ status: 'signing', mode: 'sequential', name: outcome.name })
       try {
-        const txHash = await zombieFactory.createRandomZombie(name)
-        console.log('Transaction sent:', txHash)
-        // You can add UI feedback here
+        const hash = await this.submit(
+          { functionName: 'createRandomZombie', args: [outcome.name] },
+          nonce
+        )
+        nonce++
+        onStatus?.({
+          status: 'submitted',
+          mode: 'sequential',
+          name: outcome.name,
+          txHash: hash,
+        })
+        sent.push({ outcome, hash })
       } catch (error) {
-        console.error('Failed to create zombie:', error)
-        // Handle error in UI
+        // Nothing was sent: the next name takes this nonce
+        outcome.error = toZombieError(error)
       }
+    }
+
+    await Promise.all(
+      sent.map(async ({ outcome, hash }) => {
+        try {
+          outcome.result = this.toCreateResult(
+            await waitForTransaction(this.publicClient, hash, { timeout })
+          )
+        } catch (error) {
+          outcome.error = toZombieError(error)
+        }
+      })
+    )
+  }
+
+  // Throws an INVALID_NAME ZombieError unless isNameAvailable(name)
+  private async requireAvailableName(name: string): Promise<void> {
+    const validation = validateZombieName(name)
+    if (!validation.valid) {
+      throw new ZombieError(
+        { kind: 'INVALID_NAME', name, reason: validation.reason },
+        validation.message
+      )
+    }
+    if (!(await this.isNameAvailable(name))) {
+      throw new ZombieError(
+        { kind: 'INVALID_NAME', name, reason: 'taken' },
+        `${name} is already taken`
+      )
+    }
+  }
+
+  private async getPendingRevealStore(): Promise<PendingReveals> {
+    return new PendingReveals(this.revealStorage, {
+      chainId: this.chain.id,
+      contractAddress: this.contractAddress,
+      account: await this.getAccountAddress(),
     })
   }
 
-  // Listen for NewZombie events and update UI
-  const unwatch = zombieFactory.watchNewZombieEvents((event) => {
-    generateZombie(event.zombieId, event.name, event.dna)
+  private async getAccountAddress(): Promise<Address> {
+    const account = await this.getAccount()
+    return typeof account === 'object' ? account.address : account
+  }
+
+  // Simulates a write with the signing account, then has the wallet send it.
+  // `nonce` is for several transactions sent without waiting for each other
+  private async submit(call: WriteCall, nonce?: number): Promise<Hash> {
+    try {
+      const account = await this.getAccount()
+      const contract = { address: this.contractAddress, abi: ZombieAttackAbi }
+
+      // Apart, so that viem sees a value on payable functions only
+      if ('value' in call) {
+        const { request } = await this.publicClient.simulateContract({
+          ...contract,
+          ...call,
+          account,
+        })
+        return await this.walletClient.writeContract({
+          ...request,
+          chain: this.chain,
+          nonce,
+        })
+      }
+
+      const { request } = await this.publicClient.simulateContract({
+        ...contract,
+        ...call,
+        account,
+      })
+      return await this.walletClient.writeContract({
+        ...request,
+        chain: this.chain,
+        nonce,
+      })
+    } catch (error) {
+      throw toZombieError(error)
+    }
+  }
+
+  // submit(), then follows the transaction, reporting each step to onStatus
+  private async send(
+    call: WriteCall,
+    options: TransactionLifecycleOptions
+  ): Promise<TransactionOutcome> {
+    options.onStatus?.({ status: 'signing' })
+    const hash = await this.submit(call)
+    options.onStatus?.({ status: 'submitted', txHash: hash })
+    return waitForTransaction(this.publicClient, hash, options)
+  }
+}
+
+const BATTLE_EVENT_NAMES = {
+  won: 'AttackWon',
+  lost: 'AttackLost',
+  levelUp: 'LevelUp',
+} as const
+
+// The first event of one of `types`, which the transaction must have emitted
+function requireBattleEvent<T extends ZombieBattleEvent['type']>(
+  events: ZombieBattleEvent[],
+  types: T[],
+  txHash: Hash
+): Extract<ZombieBattleEvent, { type: T }> {
+  const event = events.find((event) => types.includes(event.type as T))
+  if (!event) {
+    const names = types.map((type) => BATTLE_EVENT_NAMES[type])
+    throw new ZombieError(
+      { kind: 'UNKNOWN' },
+      `No ${names.join(' or ')} event in the receipt of ${txHash}`
+    )
+  }
+  return event as Extract<ZombieBattleEvent, { type: T }>
+}
+
+function toBattleEvent(log: {
+  eventName: string
+  args: Record<string, unknown>
+}): ZombieBattleEvent | undefined {
+  const args = log.args as {
+    zombieId: bigint
+    targetId: bigint
+    newZombieId: bigint
+    level: bigint
+  }
+  switch (log.eventName) {
+    case 'AttackWon':
+      return {
+        type: 'won',
+        zombieId: args.zombieId,
+        targetId: args.targetId,
+        newZombieId: args.newZombieId,
+      }
+    case 'AttackLost':
+      return { type: 'lost', zombieId: args.zombieId, targetId: args.targetId }
+    case 'LevelUp':
+      return {
+        type: 'levelUp',
+        zombieId: args.zombieId,
+        level: Number(args.level),
+      }
+  }
+}
+
+function toWriteResult(outcome: TransactionOutcome): ZombieWriteResult {
+  if (outcome.status !== 'confirmed') return toUnconfirmedResult(outcome)
+  const { transactionHash: txHash, blockNumber } = outcome.receipt
+  return { status: 'confirmed', txHash, blockNumber }
+}
+
+function toUnconfirmedResult(
+  outcome: Exclude<TransactionOutcome, { status: 'confirmed' }>
+): UnconfirmedResult {
+  if (outcome.status === 'replaced') return outcome
+  const { transactionHash: txHash, blockNumber } = outcome.receipt
+  return { status: 'reverted', txHash, blockNumber }
+}
+
+// Node mode (backend jobs, scripts): signs locally with a private key and
+// talks to the node over HTTP, no injected wallet involved
+export function createZombieFactoryFromPrivateKey(
+  contractAddress: Address,
+  privateKey: Hex,
+  options: Omit<ZombieFactoryOptions, 'account' | 'provider'> & {
+    rpcUrl?: string
+  } = {}
+): ZombieFactory {
+  const { rpcUrl, ...rest } = options
+  return new ZombieFactory(contractAddress, {
+    ...rest,
+    transport: rest.transport ?? http(rpcUrl),
+    account: privateKeyToAccount(privateKey),
   })
+}
+
+function chunk<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
 
-  // Return cleanup function
-  return () => {
-    unwatch()
+// Like Promise.all(items.map(fn)), with at most `concurrency` calls pending
+async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
   }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  )
+  return results
+}
+
+// Decode the visual traits from DNA, without any side effect. With the
+// zombie's id, the DNA schema it was minted with is used; otherwise the
+// latest one (see dnaSchema.ts)
+export function decodeZombieDna(
+  dna: bigint,
+  zombieId?: bigint
+): ZombieTraits & DecodedTraits {
+  const schema =
+    zombieId === undefined ? LATEST_DNA_SCHEMA : schemaForZombie(zombieId)
+  return decodeZombieTraits(dna, schema)
 }
 
-// Generate zombie visual details from DNA
+// Species marker of the zombies ZombieFeeding breeds from kitties
+// (KITTY_SPECIES). The zombies createRandomZombie mints end with 00
+const KITTY_SPECIES_MARKER = 99n
+
+export function decodeZombieSpecies(dna: bigint): ZombieSpecies {
+  return decodeSpeciesMarker(dna) === KITTY_SPECIES_MARKER ? 'kitty' : 'zombie'
+}
+
+// Generate zombie visual details from DNA. `level` comes from
+// getZombieStats, new zombies being level 1
 export function generateZombie(
   id: bigint,
   name: string,
-  dna: bigint
+  dna: bigint,
+  level = 1
 ): ZombieDetails {
-  const dnaStr = dna.toString().padStart(16, '0')
-
+  const species = decodeZombieSpecies(dna)
+  const description = `A Level ${level} CryptoZombie`
   const zombieDetails: ZombieDetails = {
-    // first 2 digits make up the head. We have 7 possible heads, so % 7
-    // to get a number 0 - 6, then add 1 to make it 1 - 7. Then we have 7
-    // image files named "head1.png" through "head7.png" we load based on
-    // this number:
-    headChoice: (parseInt(dnaStr.substring(0, 2)) % 7) + 1,
-    // 2nd 2 digits make up the eyes, 11 variations:
-    eyeChoice: (parseInt(dnaStr.substring(2, 4)) % 11) + 1,
-    // 6 variations of shirts:
-    shirtChoice: (parseInt(dnaStr.substring(4, 6)) % 6) + 1,
-    // last 6 digits control color. Updated using CSS filter: hue-rotate
-    // which has 360 degrees:
-    skinColorChoice: Math.floor((parseInt(dnaStr.substring(6, 8)) / 100) * 360),
-    eyeColorChoice: Math.floor((parseInt(dnaStr.substring(8, 10)) / 100) * 360),
-    clothesColorChoice: Math.floor(
-      (parseInt(dnaStr.substring(10, 12)) / 100) * 360
-    ),
+    ...decodeZombieDna(dna, id),
+    species,
+    level,
     zombieName: name,
-    zombieDescription: 'A Level 1 CryptoZombie',
+    zombieDescription:
+      species === 'kitty'
+        ? `${description}, born from a CryptoKitty`
+        : description,
   }
 
   // Here you would update your UI with the zombie details
@@ -0,0 +1,64 @@
+import { keccak256, type Hex } from 'viem'
+
+// The name policy ZombieFactory.sol enforces on createRandomZombie and
+// revealZombie, so names can be rejected before anything is signed
+
+// In UTF-8 bytes, like the contract's MAX_NAME_LENGTH
+export const MAX_NAME_LENGTH = 32
+
+// Mirrors the contract's InvalidNameLength and InvalidNameCharacter errors.
+// `index` is a byte index, as the contract reports it
+export type ZombieNameValidation =
+  | { valid: true; key: Hex }
+  | { valid: false; reason: 'length'; length: number; message: string }
+  | { valid: false; reason: 'character'; index: number; message: string }
+
+const SEPARATORS = new Set([0x20, 0x2d, 0x5f]) // space - _
+
+const isUpper = (byte: number) => byte >= 0x41 && byte <= 0x5a
+const isAlphanumeric = (byte: number) =>
+  (byte >= 0x61 && byte <= 0x7a) || (byte >= 0x30 && byte <= 0x39)
+
+/**
+ * Checks `name` byte by byte, like ZombieFactory._nameKey: 1 to
+ * MAX_NAME_LENGTH bytes of ASCII letters and digits, with single spaces,
+ * hyphens or underscores between them. When valid, `key` is the contract's
+ * nameTaken key: keccak256 of the lowercase name.
+ */
+export function validateZombieName(name: string): ZombieNameValidation {
+  const bytes = new TextEncoder().encode(name)
+  if (bytes.length === 0 || bytes.length > MAX_NAME_LENGTH) {
+    return {
+      valid: false,
+      reason: 'length',
+      length: bytes.length,
+      message:
+        bytes.length === 0
+          ? 'Please enter a zombie name'
+          : `Zombie name too long (max ${MAX_NAME_LENGTH} bytes)`,
+    }
+  }
+
+  const folded = bytes.map((byte) => (isUpper(byte) ? byte + 32 : byte))
+  for (let i = 0; i < folded.length; i++) {
+    if (isAlphanumeric(folded[i])) continue
+    if (
+      !SEPARATORS.has(folded[i]) ||
+      i === 0 ||
+      i === folded.length - 1 ||
+      SEPARATORS.has(folded[i - 1])
+    ) {
+      // The whole character, when the byte starts a multi-byte one
+      const char = new TextDecoder().decode(bytes.subarray(i)).slice(0, 1)
+      return {
+        valid: false,
+        reason: 'character',
+        index: i,
+        message: SEPARATORS.has(folded[i])
+          ? 'Spaces, hyphens and underscores must go between letters or digits'
+          : `"${char}" is not allowed: use letters, digits, spaces, hyphens and underscores`,
+      }
+    }
+  }
+  return { valid: true, key: keccak256(folded) }
+}
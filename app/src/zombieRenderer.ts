@@ -0,0 +1,277 @@
+import type { ZombieTraits } from './zombieFactory'
+
+export interface RenderZombieOptions {
+  // Sets width and height in px; without it the SVG scales to its container
+  size?: number
+}
+
+// Square, with the 240px wide art centered in it
+const VIEW_BOX = '-20 0 280 280'
+
+// Hues the parts have when their color choice is 0; the choice rotates them,
+// like the CSS hue-rotate of the original CryptoZombies art
+const BASE_HUE = { skin: 100, eyes: 0, clothes: 210 }
+
+const OUTLINE = '#1d1d1b'
+const BONE = '#f2efe2'
+const BLOOD = '#8a1c1c'
+const BRAIN = '#d98a9a'
+
+interface Palette {
+  skin: string
+  skinShade: string
+  skinDark: string
+  eye: string
+  clothes: string
+  clothesShade: string
+  clothesLight: string
+}
+
+type Part = (palette: Palette) => string
+
+const hsl = (hue: number, saturation: number, lightness: number) =>
+  `hsl(${hue},${saturation}%,${lightness}%)`
+
+function rotateHue(base: number, choice: number): number {
+  return (((base + choice) % 360) + 360) % 360
+}
+
+function palette(zombie: ZombieTraits): Palette {
+  const skin = rotateHue(BASE_HUE.skin, zombie.skinColorChoice)
+  const eye = rotateHue(BASE_HUE.eyes, zombie.eyeColorChoice)
+  const clothes = rotateHue(BASE_HUE.clothes, zombie.clothesColorChoice)
+  return {
+    skin: hsl(skin, 38, 56),
+    skinShade: hsl(skin, 38, 42),
+    skinDark: hsl(skin, 40, 24),
+    eye: hsl(eye, 85, 50),
+    clothes: hsl(clothes, 55, 45),
+    clothesShade: hsl(clothes, 55, 30),
+    clothesLight: hsl(clothes, 55, 70),
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[
+        char
+      ]!
+  )
+}
+
+const stroke = `stroke="${OUTLINE}" stroke-width="4" stroke-linejoin="round"`
+
+const TORSO = 'M36 280L48 222Q56 206 80 202H160Q184 206 192 222L204 280Z'
+const NECK = (p: Palette) =>
+  `<rect x="100" y="160" width="40" height="48" fill="${p.skinShade}" ${stroke}/>`
+const COLLAR = (p: Palette) =>
+  `<path d="M100 202Q120 226 140 202Z" fill="${p.skinShade}" ${stroke}/>`
+
+// Drawn before the head, so necklines and hoods sit behind it
+const SHIRTS: Part[] = [
+  // 1: t-shirt
+  (p) =>
+    NECK(p) + `<path d="${TORSO}" fill="${p.clothes}" ${stroke}/>` + COLLAR(p),
+  // 2: torn shirt, skin showing through the holes
+  (p) =>
+    NECK(p) +
+    `<path d="M36 280L48 222Q56 206 80 202H160Q184 206 192 222L204 280L186 266L170 280L150 262L128 280L108 264L88 280L70 262L54 280Z" fill="${p.clothes}" ${stroke}/>` +
+    `<path d="M72 232L86 226L92 244L78 250Z" fill="${p.skinShade}" ${stroke}/>` +
+    `<path d="M148 238L166 234L162 252Z" fill="${p.skinShade}" ${stroke}/>` +
+    COLLAR(p),
+  // 3: suit and tie
+  (p) =>
+    NECK(p) +
+    `<path d="${TORSO}" fill="${p.clothes}" ${stroke}/>` +
+    `<path d="M96 202L120 258L144 202Z" fill="${BONE}" ${stroke}/>` +
+    `<path d="M96 202L108 240L96 236L112 280M144 202L132 240L144 236L128 280" fill="none" stroke="${p.clothesShade}" stroke-width="4"/>` +
+    `<path d="M114 210H126L130 248L120 262L110 248Z" fill="${BLOOD}" ${stroke}/>`,
+  // 4: hoodie, with the hood around the neck
+  (p) =>
+    `<path d="M58 220Q60 150 120 148Q180 150 182 220Z" fill="${p.clothesShade}" ${stroke}/>` +
+    NECK(p) +
+    `<path d="${TORSO}" fill="${p.clothes}" ${stroke}/>` +
+    `<path d="M92 204Q120 234 148 204" fill="none" stroke="${p.clothesShade}" stroke-width="6"/>` +
+    `<path d="M108 218V250M132 218V250" stroke="${p.clothesLight}" stroke-width="3" stroke-linecap="round"/>`,
+  // 5: striped shirt
+  (p) =>
+    NECK(p) +
+    `<path d="${TORSO}" fill="${p.clothesLight}" ${stroke}/>` +
+    `<rect x="47" y="226" width="146" height="10" fill="${p.clothes}"/>` +
+    `<rect x="43" y="246" width="154" height="10" fill="${p.clothes}"/>` +
+    `<rect x="40" y="266" width="160" height="10" fill="${p.clothes}"/>` +
+    `<path d="${TORSO}" fill="none" ${stroke}/>` +
+    COLLAR(p),
+  // 6: overalls over a shirt
+  (p) =>
+    NECK(p) +
+    `<path d="${TORSO}" fill="${p.clothesLight}" ${stroke}/>` +
+    COLLAR(p) +
+    `<path d="M82 280V236H158V280" fill="${p.clothesShade}" ${stroke}/>` +
+    `<path d="M90 236L78 204M150 236L162 204" stroke="${p.clothesShade}" stroke-width="8" stroke-linecap="round"/>` +
+    `<circle cx="92" cy="246" r="4" fill="${BONE}"/>` +
+    `<circle cx="148" cy="246" r="4" fill="${BONE}"/>`,
+]
+
+const HEADS: Part[] = [
+  // 1: round
+  (p) =>
+    `<ellipse cx="120" cy="106" rx="62" ry="68" fill="${p.skin}" ${stroke}/>`,
+  // 2: boxy
+  (p) =>
+    `<rect x="58" y="40" width="124" height="134" rx="24" fill="${p.skin}" ${stroke}/>`,
+  // 3: long face
+  (p) =>
+    `<ellipse cx="120" cy="102" rx="50" ry="76" fill="${p.skin}" ${stroke}/>` +
+    `<path d="M88 60Q98 50 110 58" fill="none" stroke="${p.skinShade}" stroke-width="4" stroke-linecap="round"/>`,
+  // 4: lumpy, stitched across the forehead
+  (p) =>
+    `<path d="M62 112Q54 70 78 52Q90 30 116 40Q140 28 160 48Q190 62 180 108Q186 150 156 170Q120 186 86 170Q56 152 62 112Z" fill="${p.skin}" ${stroke}/>` +
+    `<path d="M76 74Q120 58 166 76" fill="none" stroke="${OUTLINE}" stroke-width="3"/>` +
+    `<path d="M88 62L92 76M104 58L106 72M120 56V70M136 58L134 72M152 62L148 76" stroke="${OUTLINE}" stroke-width="3" stroke-linecap="round"/>`,
+  // 5: cracked skull with the brain showing
+  (p) =>
+    `<ellipse cx="120" cy="110" rx="62" ry="64" fill="${p.skin}" ${stroke}/>` +
+    `<path d="M70 72Q72 34 120 32Q168 34 170 72L154 64L140 76L124 62L108 76L94 62L82 76Z" fill="${BRAIN}" ${stroke}/>` +
+    `<path d="M92 50Q104 42 112 54M128 46Q142 40 148 54" fill="none" stroke="${BLOOD}" stroke-width="3" stroke-linecap="round"/>`,
+  // 6: flat top with neck bolts
+  (p) =>
+    `<rect x="52" y="142" width="16" height="14" fill="${BONE}" ${stroke}/>` +
+    `<rect x="172" y="142" width="16" height="14" fill="${BONE}" ${stroke}/>` +
+    `<path d="M64 52H176V150Q176 176 150 176H90Q64 176 64 150Z" fill="${p.skin}" ${stroke}/>` +
+    `<path d="M64 52H176V70H64Z" fill="${p.skinDark}" ${stroke}/>`,
+  // 7: round with ears, the right one bitten
+  (p) =>
+    `<ellipse cx="58" cy="110" rx="14" ry="20" fill="${p.skinShade}" ${stroke}/>` +
+    `<path d="M176 94Q194 90 194 106L186 110L194 116Q192 132 176 128Z" fill="${p.skinShade}" ${stroke}/>` +
+    `<ellipse cx="120" cy="106" rx="62" ry="68" fill="${p.skin}" ${stroke}/>`,
+]
+
+// Left and right eye centers
+const LX = 96
+const RX = 144
+const EY = 100
+
+const eye = (cx: number, sclera: number, iris: number, p: Palette) =>
+  `<circle cx="${cx}" cy="${EY}" r="${sclera}" fill="${BONE}" ${stroke}/>` +
+  `<circle cx="${cx}" cy="${EY}" r="${iris}" fill="${p.eye}"/>` +
+  `<circle cx="${cx}" cy="${EY}" r="${Math.ceil(iris / 2)}" fill="${OUTLINE}"/>`
+
+const EYES: Part[] = [
+  // 1: round
+  (p) => eye(LX, 12, 7, p) + eye(RX, 12, 7, p),
+  // 2: bulging
+  (p) => eye(LX, 17, 10, p) + eye(RX, 17, 10, p),
+  // 3: beady, no whites
+  (p) =>
+    `<circle cx="${LX}" cy="${EY}" r="6" fill="${p.eye}" ${stroke}/>` +
+    `<circle cx="${RX}" cy="${EY}" r="6" fill="${p.eye}" ${stroke}/>`,
+  // 4: mismatched
+  (p) => eye(LX, 16, 9, p) + eye(RX, 9, 5, p),
+  // 5: eye patch
+  (p) =>
+    eye(LX, 12, 7, p) +
+    `<path d="M64 70L182 116" stroke="${OUTLINE}" stroke-width="4"/>` +
+    `<ellipse cx="${RX}" cy="${EY + 2}" rx="18" ry="15" fill="${OUTLINE}"/>`,
+  // 6: cyclops
+  (p) => eye(120, 22, 13, p),
+  // 7: droopy, half closed
+  (p) =>
+    eye(LX, 13, 8, p) +
+    eye(RX, 13, 8, p) +
+    `<path d="M81 101A15 15 0 0 1 111 101Z" fill="${p.skinShade}" ${stroke}/>` +
+    `<path d="M129 101A15 15 0 0 1 159 101Z" fill="${p.skinShade}" ${stroke}/>`,
+  // 8: crossed out
+  (p) =>
+    `<path d="M86 90L106 110M106 90L86 110M134 90L154 110M154 90L134 110" stroke="${p.eye}" stroke-width="6" stroke-linecap="round"/>`,
+  // 9: hypnotized spirals
+  (p) =>
+    [LX, RX]
+      .map(
+        (cx) =>
+          `<circle cx="${cx}" cy="${EY}" r="14" fill="${BONE}" ${stroke}/>` +
+          `<path d="M${cx} ${EY}m0 -2a2 2 0 1 1 -2 2a5 5 0 0 1 5 -5a8 8 0 0 1 8 8a11 11 0 0 1 -11 11" fill="none" stroke="${p.eye}" stroke-width="2.5"/>`
+      )
+      .join(''),
+  // 10: glowing slits
+  (p) =>
+    [LX, RX]
+      .map(
+        (cx) =>
+          `<ellipse cx="${cx}" cy="${EY}" rx="18" ry="9" fill="${p.eye}" opacity="0.35"/>` +
+          `<ellipse cx="${cx}" cy="${EY}" rx="13" ry="3" fill="${p.eye}" ${stroke}/>`
+      )
+      .join(''),
+  // 11: hollow sockets with a glint deep inside
+  (p) =>
+    [LX, RX]
+      .map(
+        (cx) =>
+          `<circle cx="${cx}" cy="${EY}" r="14" fill="${p.skinDark}" ${stroke}/>` +
+          `<circle cx="${cx}" cy="${EY + 3}" r="3" fill="${p.eye}"/>`
+      )
+      .join(''),
+]
+
+// Number of variants of each part, matching the DNA schema's variant counts
+export const ZOMBIE_PARTS = {
+  heads: HEADS.length,
+  eyes: EYES.length,
+  shirts: SHIRTS.length,
+} as const
+
+const MOUTH = (p: Palette) =>
+  `<path d="M94 142Q120 160 146 140Q142 158 120 162Q98 160 94 142Z" fill="${p.skinDark}" ${stroke}/>` +
+  `<path d="M104 148L108 156L112 150ZM126 150L130 157L134 148Z" fill="${BONE}"/>`
+
+function pick(parts: Part[], choice: number, trait: keyof ZombieTraits): Part {
+  if (!Number.isInteger(choice) || choice < 1 || choice > parts.length) {
+    throw new RangeError(
+      `${trait} must be an integer from 1 to ${parts.length}, got ${choice}`
+    )
+  }
+  return parts[choice - 1]
+}
+
+/**
+ * Renders a zombie as a self-contained SVG string, with no image assets,
+ * canvas or DOM, so it works the same in Node and the browser. The output
+ * only depends on the traits (and name): the same DNA always gives the same
+ * bytes. The markup uses no ids, so any number of zombies can be inlined in
+ * one page.
+ */
+export function renderZombieSvg(
+  zombie: ZombieTraits & { zombieName?: string },
+  options: RenderZombieOptions = {}
+): string {
+  const shirt = pick(SHIRTS, zombie.shirtChoice, 'shirtChoice')
+  const head = pick(HEADS, zombie.headChoice, 'headChoice')
+  const eyes = pick(EYES, zombie.eyeChoice, 'eyeChoice')
+  const colors = palette(zombie)
+
+  const size =
+    options.size === undefined
+      ? ''
+      : ` width="${options.size}" height="${options.size}"`
+  const title =
+    zombie.zombieName === undefined
+      ? ''
+      : `<title>${escapeXml(zombie.zombieName)}</title>`
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${VIEW_BOX}"${size} role="img">` +
+    title +
+    shirt(colors) +
+    head(colors) +
+    eyes(colors) +
+    MOUTH(colors) +
+    '</svg>'
+  )
+}
+
+// For <img src> or CSS url(), without touching the DOM
+export function zombieSvgDataUri(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
@@ -0,0 +1,322 @@
+import { isAddressEqual, type Address, type Hash } from 'viem'
+import {
+  MemoryCheckpointStore,
+  type CheckpointStore,
+  type IndexedTransfer,
+  type IndexedZombie,
+  type ZombieOwner,
+} from './indexer'
+import { decodeZombieDna, type ZombieTraits } from './zombieFactory'
+
+// A zombie as kept by a ZombieStore, with its traits already decoded
+export interface StoredZombie {
+  id: bigint
+  name: string
+  dna: bigint
+  traits: ZombieTraits
+  // Current owner, as of the last transfer the store was given
+  owner: Address
+  // Block and transaction that created it
+  blockNumber: bigint
+  txHash: Hash
+}
+
+// Inclusive bounds, either side optional
+export interface Range<T> {
+  min?: T
+  max?: T
+}
+
+export type ZombieSortKey = 'id' | 'name' | 'blockNumber'
+
+export interface ZombieQuery {
+  owner?: Address
+  // Case-insensitive substring of the name
+  name?: string
+  traits?: { [K in keyof ZombieTraits]?: Range<number> }
+  id?: Range<bigint>
+  blockNumber?: Range<bigint>
+  // Defaults to id, ascending
+  sortBy?: ZombieSortKey
+  order?: 'asc' | 'desc'
+  // Page size, defaults to 50
+  limit?: number
+  // nextCursor of the previous page, with the same filters and sorting
+  cursor?: string
+}
+
+export interface ZombiePage {
+  zombies: StoredZombie[]
+  // Undefined on the last page
+  nextCursor?: string
+}
+
+/**
+ * Where the app keeps the zombies it has indexed. Every implementation also
+ * keeps the indexer's checkpoint next to the zombies, so a restart resumes
+ * where the zombies it holds end.
+ */
+export interface ZombieStore {
+  readonly checkpoints: CheckpointStore
+  // Inserts or replaces by id
+  put(zombies: StoredZombie[]): Promise<void>
+  // Moves zombies to their new owner, in order, ex: from the indexer's
+  // onTransfers. Ids the store does not have are skipped
+  applyTransfers(transfers: IndexedTransfer[]): Promise<void>
+  // Gives zombies the owners read from the contract, ex: from the indexer's
+  // onOwners. Ids the store does not have are skipped
+  setOwners(owners: ZombieOwner[]): Promise<void>
+  get(id: bigint): Promise<StoredZombie | undefined>
+  query(query?: ZombieQuery): Promise<ZombiePage>
+  count(): Promise<number>
+  // Drops zombies created at or after a block, ex: after a reorg
+  removeFromBlock(blockNumber: bigint): Promise<void>
+  clear(): Promise<void>
+}
+
+export const DEFAULT_PAGE_SIZE = 50
+
+export function toStoredZombie(zombie: IndexedZombie): StoredZombie {
+  return {
+    id: zombie.zombieId,
+    name: zombie.name,
+    dna: zombie.dna,
+    traits: decodeZombieDna(zombie.dna, zombie.zombieId),
+    owner: zombie.owner,
+    blockNumber: zombie.blockNumber,
+    txHash: zombie.txHash,
+  }
+}
+
+export function toZombieOwner({ zombieId, to }: IndexedTransfer): ZombieOwner {
+  return { zombieId, owner: to }
+}
+
+function inRange<T extends number | bigint>(
+  value: T,
+  range: Range<T> | undefined
+): boolean {
+  return (
+    range === undefined ||
+    ((range.min === undefined || value >= range.min) &&
+      (range.max === undefined || value <= range.max))
+  )
+}
+
+export function matchesQuery(
+  zombie: StoredZombie,
+  query: ZombieQuery
+): boolean {
+  if (query.owner !== undefined && !isAddressEqual(zombie.owner, query.owner)) {
+    return false
+  }
+  if (
+    query.name !== undefined &&
+    !zombie.name.toLowerCase().includes(query.name.toLowerCase())
+  ) {
+    return false
+  }
+
+  for (const [trait, range] of Object.entries(query.traits ?? {})) {
+    if (!inRange(zombie.traits[trait as keyof ZombieTraits], range)) {
+      return false
+    }
+  }
+
+  return (
+    inRange(zombie.id, query.id) &&
+    inRange(zombie.blockNumber, query.blockNumber)
+  )
+}
+
+// Where a zombie falls in a sorted listing: its sort key, then its id so
+// the order (and cursors) are stable
+export type SortPosition = [key: string | bigint, id: bigint]
+
+function positionOf(zombie: StoredZombie, sortBy: ZombieSortKey): SortPosition {
+  return [zombie[sortBy], zombie.id]
+}
+
+function comparePositions(
+  [keyA, idA]: SortPosition,
+  [keyB, idB]: SortPosition
+): number {
+  const byKey =
+    typeof keyA === 'string'
+      ? keyA.localeCompare(keyB as string)
+      : compare(keyA, keyB as bigint)
+  return byKey !== 0 ? byKey : compare(idA, idB)
+}
+
+function compare(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+// The cursor is the position of the last zombie of the page, which stays
+// valid even if that zombie is removed meanwhile
+function encodeCursor([key, id]: SortPosition): string {
+  return JSON.stringify([String(key), String(id)])
+}
+
+function decodeCursor(cursor: string, sortBy: ZombieSortKey): SortPosition {
+  const [key, id] = JSON.parse(cursor) as [string, string]
+  return [sortBy === 'name' ? key : BigInt(key), BigInt(id)]
+}
+
+/**
+ * Builds one page out of zombies given in the query's order, ex: by an
+ * IndexedDB cursor. Zombies up to the query's cursor and those that do not
+ * match are skipped; add() returns false once the page is full, so the
+ * caller can stop reading.
+ */
+export class ZombiePageBuilder {
+  private query: ZombieQuery
+  private sortBy: ZombieSortKey
+  private direction: 1 | -1
+  private limit: number
+  // Position of the query's cursor, the page starts right after it
+  readonly after?: SortPosition
+  private zombies: StoredZombie[] = []
+  private hasMore = false
+
+  constructor(query: ZombieQuery = {}) {
+    const { sortBy = 'id', order = 'asc', limit = DEFAULT_PAGE_SIZE } = query
+    this.query = query
+    this.sortBy = sortBy
+    this.direction = order === 'asc' ? 1 : -1
+    this.limit = limit
+    this.after = query.cursor ? decodeCursor(query.cursor, sortBy) : undefined
+  }
+
+  add(zombie: StoredZombie): boolean {
+    if (this.hasMore) return false
+    if (
+      this.after &&
+      this.direction *
+        comparePositions(positionOf(zombie, this.sortBy), this.after) <=
+        0
+    ) {
+      return true
+    }
+    if (!matchesQuery(zombie, this.query)) return true
+
+    // A match past the page only tells that there is a next one
+    if (this.zombies.length === this.limit) {
+      this.hasMore = true
+      return false
+    }
+    this.zombies.push(zombie)
+    return true
+  }
+
+  get page(): ZombiePage {
+    const last = this.zombies[this.zombies.length - 1]
+    return {
+      zombies: this.zombies,
+      nextCursor: this.hasMore
+        ? encodeCursor(positionOf(last, this.sortBy))
+        : undefined,
+    }
+  }
+}
+
+/**
+ * Filters, sorts and pages zombies in memory. Shared by the stores that
+ * cannot do it natively.
+ */
+export function applyQuery(
+  zombies: Iterable<StoredZombie>,
+  query: ZombieQuery = {}
+): ZombiePage {
+  const { sortBy = 'id', order = 'asc' } = query
+  const direction = order === 'asc' ? 1 : -1
+  const sorted = [...zombies].sort(
+    (a, b) =>
+      direction * comparePositions(positionOf(a, sortBy), positionOf(b, sortBy))
+  )
+
+  const builder = new ZombiePageBuilder(query)
+  for (const zombie of sorted) {
+    if (!builder.add(zombie)) break
+  }
+  return builder.page
+}
+
+// JSON-safe form of a StoredZombie, for stores that cannot hold bigints
+export interface SerializedZombie {
+  id: string
+  name: string
+  dna: string
+  traits: ZombieTraits
+  owner: Address
+  blockNumber: string
+  txHash: Hash
+}
+
+export function serializeZombie(zombie: StoredZombie): SerializedZombie {
+  return {
+    id: zombie.id.toString(),
+    name: zombie.name,
+    dna: zombie.dna.toString(),
+    traits: zombie.traits,
+    owner: zombie.owner,
+    blockNumber: zombie.blockNumber.toString(),
+    txHash: zombie.txHash,
+  }
+}
+
+export function deserializeZombie(zombie: SerializedZombie): StoredZombie {
+  return {
+    id: BigInt(zombie.id),
+    name: zombie.name,
+    dna: BigInt(zombie.dna),
+    traits: zombie.traits,
+    owner: zombie.owner,
+    blockNumber: BigInt(zombie.blockNumber),
+    txHash: zombie.txHash,
+  }
+}
+
+// Keeps zombies for the lifetime of the page or process
+export class MemoryZombieStore implements ZombieStore {
+  readonly checkpoints = new MemoryCheckpointStore()
+  private zombies = new Map<bigint, StoredZombie>()
+
+  async put(zombies: StoredZombie[]) {
+    for (const zombie of zombies) this.zombies.set(zombie.id, zombie)
+  }
+
+  async applyTransfers(transfers: IndexedTransfer[]) {
+    await this.setOwners(transfers.map(toZombieOwner))
+  }
+
+  async setOwners(owners: ZombieOwner[]) {
+    for (const { zombieId, owner } of owners) {
+      const zombie = this.zombies.get(zombieId)
+      if (zombie) this.zombies.set(zombieId, { ...zombie, owner })
+    }
+  }
+
+  async get(id: bigint) {
+    return this.zombies.get(id)
+  }
+
+  async query(query?: ZombieQuery) {
+    return applyQuery(this.zombies.values(), query)
+  }
+
+  async count() {
+    return this.zombies.size
+  }
+
+  async removeFromBlock(blockNumber: bigint) {
+    for (const [id, zombie] of this.zombies) {
+      if (zombie.blockNumber >= blockNumber) this.zombies.delete(id)
+    }
+  }
+
+  async clear() {
+    this.zombies.clear()
+    await this.checkpoints.save(undefined)
+  }
+}
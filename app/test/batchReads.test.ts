@@ -0,0 +1,209 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  createPublicClient,
+  custom,
+  isAddressEqual,
+  multicall3Abi,
+  type Address,
+  type EIP1193Parameters,
+} from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieFactory } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+const NAMES = ['Ghoul', 'Walker', 'Crawler', 'Stalker', 'Lurker']
+
+describe('ZombieFactory batched reads', async function () {
+  const chain = await connectChain()
+  const multicallAddress = await chain.installMulticall3()
+
+  // Counts the eth_calls per target and how many are in flight at once
+  function countingClient() {
+    const calls: Address[] = []
+    let pending = 0
+    let maxPending = 0
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: custom({
+        async request({ method, params }: EIP1193Parameters) {
+          if (method !== 'eth_call') {
+            return chain.provider.request({ method, params } as never)
+          }
+          calls.push((params as [{ to: Address }])[0].to)
+          maxPending = Math.max(maxPending, ++pending)
+          try {
+            return await chain.provider.request({ method, params } as never)
+          } finally {
+            pending--
+          }
+        },
+      }),
+    })
+    return { publicClient, calls, maxPending: () => maxPending }
+  }
+
+  async function deployWithZombies() {
+    const address = await chain.deployContract('ZombieFactory')
+    const writer = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+    })
+    for (const name of NAMES) await writer.createRandomZombie(name)
+    return address
+  }
+
+  it("Should install the Multicall3 that viem's multicall3Abi describes", async function () {
+    const { number, timestamp } = await chain.publicClient.getBlock()
+
+    assert.equal(
+      await chain.publicClient.readContract({
+        address: multicallAddress,
+        abi: multicall3Abi,
+        functionName: 'getCurrentBlockTimestamp',
+        blockNumber: number,
+      }),
+      timestamp
+    )
+    assert.equal(await chain.installMulticall3(), multicallAddress)
+  })
+
+  it('Should read the zombies in Multicall3 batches of batchSize', async function () {
+    const address = await deployWithZombies()
+    const { publicClient, calls } = countingClient()
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient,
+      multicallAddress,
+    })
+
+    const zombies = await zombieFactory.getZombies([4n, 0n, 2n, 1n, 3n], {
+      batchSize: 2,
+    })
+
+    assert.deepEqual(
+      zombies.map(({ id, name }) => [id, name]),
+      [4n, 0n, 2n, 1n, 3n].map((id) => [id, NAMES[Number(id)]])
+    )
+    assert.equal(calls.length, 3)
+    assert.ok(calls.every((to) => isAddressEqual(to, multicallAddress)))
+  })
+
+  it('Should fall back to single calls, a few at a time, without Multicall3', async function () {
+    const address = await deployWithZombies()
+    const { publicClient, calls, maxPending } = countingClient()
+    const zombieFactory = new ZombieFactory(address, { publicClient })
+
+    const zombies = await zombieFactory.getZombies([0n, 1n, 2n, 3n, 4n], {
+      concurrency: 2,
+    })
+
+    assert.deepEqual(
+      zombies.map(({ name }) => name),
+      NAMES
+    )
+    assert.equal(calls.length, 5)
+    assert.ok(calls.every((to) => isAddressEqual(to, address)))
+    assert.equal(maxPending(), 2)
+  })
+
+  it('Should list a page as it was at one block', async function () {
+    const address = await deployWithZombies()
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+      multicallAddress,
+    })
+    const blockNumber = await chain.publicClient.getBlockNumber({
+      cacheTime: 0,
+    })
+    await zombieFactory.createRandomZombie('Latecomer')
+
+    const page = await zombieFactory.listZombies({
+      offset: 3,
+      limit: 10,
+      blockNumber,
+    })
+
+    assert.equal(page.total, BigInt(NAMES.length))
+    assert.equal(page.blockNumber, blockNumber)
+    assert.deepEqual(
+      page.zombies.map(({ id, name }) => [id, name]),
+      [
+        [3n, 'Stalker'],
+        [4n, 'Lurker'],
+      ]
+    )
+  })
+
+  it('Should walk the zombies newest first with the cursor', async function () {
+    const address = await deployWithZombies()
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      multicallAddress,
+    })
+    const names: string[] = []
+
+    let cursor: string | undefined
+    do {
+      const page = await zombieFactory.listZombies({
+        order: 'desc',
+        limit: 2,
+        cursor,
+      })
+      names.push(...page.zombies.map(({ name }) => name))
+      cursor = page.nextCursor
+    } while (cursor)
+
+    assert.deepEqual(names, NAMES.toReversed())
+  })
+
+  it('Should list only the zombies of an owner', async function () {
+    const address = await deployWithZombies()
+    const [, other] = chain.walletClients
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: other,
+      multicallAddress,
+    })
+    for (const name of ['First', 'Second', 'Third']) {
+      await zombieFactory.createRandomZombie(name)
+    }
+    const owner = other.account.address
+
+    const first = await zombieFactory.listZombies({ owner, limit: 2 })
+    const rest = await zombieFactory.listZombies({
+      owner,
+      limit: 2,
+      cursor: first.nextCursor,
+    })
+
+    assert.equal(first.total, 3n)
+    assert.deepEqual(
+      first.zombies.map(({ name }) => name),
+      ['First', 'Second']
+    )
+    assert.deepEqual(
+      rest.zombies.map(({ name }) => name),
+      ['Third']
+    )
+    assert.equal(rest.nextCursor, undefined)
+  })
+
+  it('Should read the zombies of an owner at the same block', async function () {
+    const address = await deployWithZombies()
+    const [, other] = chain.walletClients
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: other,
+      multicallAddress,
+    })
+    await zombieFactory.createRandomZombie('Outsider')
+
+    const zombies = await zombieFactory.getZombiesByOwner(other.account.address)
+
+    assert.deepEqual(
+      zombies.map(({ id, name }) => [id, name]),
+      [[BigInt(NAMES.length), 'Outsider']]
+    )
+  })
+})
@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describe, it } from 'node:test'
+import { parseAbi, parseEther, zeroAddress, type Address } from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieError } from '../src/errors'
+import {
+  ZombieFactory,
+  type MintedZombie,
+  type ZombieBattleEvent,
+} from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+// web3's contracts/mocks/ZombieAttackMock.sol, which the app has no ABI for.
+// Every attack rolls nextRoll: below 70 wins
+const ZombieAttackMockAbi = parseAbi([
+  'function setNextRoll(uint256 _nextRoll)',
+])
+const WINNING_ROLL = 69n
+const LOSING_ROLL = 70n
+
+const COOLDOWN = 24 * 60 * 60
+
+describe('ZombieFactory battles', async function () {
+  const chain = await connectChain()
+  const [alice, bob] = chain.walletClients
+
+  // Alice's zombie 0 and Bob's zombie 1, on a ZombieAttackMock
+  async function deploy() {
+    const address = await chain.deployContract('ZombieAttackMock', [
+      zeroAddress,
+    ])
+    const [asAlice, asBob] = [alice, bob].map(
+      (walletClient) =>
+        new ZombieFactory(address, {
+          publicClient: chain.publicClient,
+          walletClient,
+        })
+    )
+    const attacker = await asAlice.createRandomZombie('Ghoul')
+    const target = await asBob.createRandomZombie('Walker')
+    assert.equal(attacker.status, 'confirmed')
+    assert.equal(target.status, 'confirmed')
+    return { address, asAlice, asBob, attacker, target }
+  }
+
+  async function setNextRoll(address: Address, roll: bigint) {
+    const hash = await alice.writeContract({
+      address,
+      abi: ZombieAttackMockAbi,
+      functionName: 'setNextRoll',
+      args: [roll],
+      account: alice.account,
+      chain: hardhat,
+    })
+    await chain.publicClient.waitForTransactionReceipt({ hash })
+  }
+
+  async function blockTime(blockNumber: bigint) {
+    const { timestamp } = await chain.publicClient.getBlock({ blockNumber })
+    return Number(timestamp)
+  }
+
+  it('Should report a win with the offspring and the new level', async function () {
+    const { address, asAlice, attacker, target } = await deploy()
+    await setNextRoll(address, WINNING_ROLL)
+
+    const result = await asAlice.attack(attacker.zombieId, target.zombieId)
+
+    assert.equal(result.status, 'confirmed')
+    assert.equal(result.outcome, 'won')
+    assert.equal(result.level, 2)
+    // Half the attacker's DNA, half the target's, with the zombie species
+    const average = (attacker.dna + target.dna) / 2n
+    const offspring: MintedZombie = {
+      zombieId: 2n,
+      name: 'NoName',
+      dna: average - (average % 100n),
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+    }
+    assert.deepEqual(result.offspring, offspring)
+    assert.deepEqual(
+      (await asAlice.getZombiesByOwner(alice.account.address)).map(
+        ({ id }) => id
+      ),
+      [attacker.zombieId, offspring.zombieId]
+    )
+    assert.deepEqual(await asAlice.getZombieStats(attacker.zombieId), {
+      level: 2,
+      readyTime: (await blockTime(result.blockNumber)) + COOLDOWN,
+      winCount: 1,
+      lossCount: 0,
+    })
+    const { level, winCount, lossCount } = await asAlice.getZombieStats(
+      target.zombieId
+    )
+    assert.deepEqual([level, winCount, lossCount], [1, 0, 1])
+  })
+
+  it('Should report a loss without offspring', async function () {
+    const { address, asAlice, attacker, target } = await deploy()
+    await setNextRoll(address, LOSING_ROLL)
+
+    const result = await asAlice.attack(attacker.zombieId, target.zombieId)
+
+    assert.equal(result.status, 'confirmed')
+    assert.deepEqual(result, {
+      status: 'confirmed',
+      outcome: 'lost',
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+    })
+    assert.equal(await asAlice.getZombiesCount(), 2n)
+    assert.deepEqual(await asAlice.getZombieStats(attacker.zombieId), {
+      level: 1,
+      readyTime: (await blockTime(result.blockNumber)) + COOLDOWN,
+      winCount: 0,
+      lossCount: 1,
+    })
+    const { winCount, lossCount } = await asAlice.getZombieStats(
+      target.zombieId
+    )
+    assert.deepEqual([winCount, lossCount], [1, 0])
+  })
+
+  it('Should throw CONTRACT_REVERTED for an attack on cooldown', async function () {
+    const { address, asAlice, attacker, target } = await deploy()
+    await setNextRoll(address, LOSING_ROLL)
+    await asAlice.attack(attacker.zombieId, target.zombieId)
+
+    await assert.rejects(
+      asAlice.attack(attacker.zombieId, target.zombieId),
+      (error) =>
+        error instanceof ZombieError &&
+        error.details.kind === 'CONTRACT_REVERTED' &&
+        error.details.errorName === 'ZombieNotReady'
+    )
+  })
+
+  it('Should level any zombie up for the fee', async function () {
+    const { address, asAlice, target } = await deploy()
+    const fee = await asAlice.getLevelUpFee()
+
+    const result = await asAlice.levelUp(target.zombieId)
+
+    assert.equal(fee, parseEther('0.001'))
+    assert.equal(result.status, 'confirmed')
+    assert.equal(result.level, 2)
+    assert.equal((await asAlice.getZombieStats(target.zombieId)).level, 2)
+    assert.equal(await chain.publicClient.getBalance({ address }), fee)
+  })
+
+  it('Should throw CONTRACT_REVERTED for a level up without the fee', async function () {
+    const { address, asAlice, attacker } = await deploy()
+    asAlice.getLevelUpFee = async () => 0n
+
+    await assert.rejects(asAlice.levelUp(attacker.zombieId), (error) => {
+      assert.ok(error instanceof ZombieError)
+      assert.equal(error.details.kind, 'CONTRACT_REVERTED')
+      assert.equal(error.details.errorName, 'IncorrectLevelUpFee')
+      assert.deepEqual(error.details.args, [0n, parseEther('0.001')])
+      return true
+    })
+    assert.equal((await asAlice.getZombieStats(attacker.zombieId)).level, 1)
+    assert.equal(await chain.publicClient.getBalance({ address }), 0n)
+  })
+
+  it('Should pass only the battle events to the watcher', async function () {
+    const { address, asAlice, asBob, attacker, target } = await deploy()
+    const events: ZombieBattleEvent[] = []
+    const errors: ZombieError[] = []
+    const unwatch = asAlice.watchBattleEvents(
+      (event) => events.push(event),
+      (error) => errors.push(error)
+    )
+
+    try {
+      // Let the watcher take its starting block before the writes
+      await sleep(200)
+      await asAlice.levelUp(attacker.zombieId)
+      // NewZombie, Transfer and Approval are left out
+      await asBob.createRandomZombie('Crawler')
+      await asBob.approve(alice.account.address, target.zombieId)
+      await setNextRoll(address, WINNING_ROLL)
+      await asAlice.attack(attacker.zombieId, target.zombieId)
+      while (events.length < 3 && errors.length < 1) await sleep(20)
+    } finally {
+      unwatch()
+    }
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(events, [
+      { type: 'levelUp', zombieId: attacker.zombieId, level: 2 },
+      { type: 'levelUp', zombieId: attacker.zombieId, level: 3 },
+      {
+        type: 'won',
+        zombieId: attacker.zombieId,
+        targetId: target.zombieId,
+        newZombieId: 3n,
+      },
+    ])
+  })
+})
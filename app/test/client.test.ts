@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { custom, getAddress } from 'viem'
+import { hardhat, sepolia } from 'viem/chains'
+import { DEFAULT_CHAIN } from '../src/client'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { isZombieError } from '../src/errors'
+import {
+  createZombieFactoryFromPrivateKey,
+  ZombieFactory,
+} from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+// First account of Hardhat's default mnemonic, funded on every EDR chain
+const HARDHAT_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+describe('ZombieFactory clients', async function () {
+  const chain = await connectChain()
+  const transport = custom(chain.provider)
+
+  it('Should default to sepolia without ZOMBIE_CHAIN_ID', function () {
+    assert.equal(DEFAULT_CHAIN.id, sepolia.id)
+  })
+
+  it('Should read without any wallet, and only fail once asked to write', async function () {
+    const address = await chain.deployContract('ZombieFactory')
+    const writer = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+    })
+    await writer.createRandomZombie('Ghoul')
+
+    const reader = new ZombieFactory(address, { chain: hardhat, transport })
+
+    assert.equal((await reader.getZombie(0n)).name, 'Ghoul')
+    await assert.rejects(reader.submitRandomZombie('Walker'), (error) =>
+      isZombieError(error, 'NO_WALLET')
+    )
+  })
+
+  it('Should create the clients once, on first use', async function () {
+    const address = await chain.deployContract('ZombieFactory')
+    const zombieFactory = new ZombieFactory(address, {
+      chain: hardhat,
+      transport,
+      account: chain.walletClients[0].account.address,
+      provider: chain.provider,
+    })
+
+    const { publicClient, walletClient } = zombieFactory
+    assert.equal(zombieFactory.publicClient, publicClient)
+    assert.equal(zombieFactory.walletClient, walletClient)
+    assert.equal(publicClient.chain?.id, hardhat.id)
+
+    const result = await zombieFactory.createRandomZombie('Walker')
+    assert.equal(result.status, 'confirmed')
+  })
+
+  it('Should sign locally in Node mode, without an injected wallet', async function () {
+    const address = await chain.deployContract('ZombieFactory')
+    const zombieFactory = createZombieFactoryFromPrivateKey(
+      address,
+      HARDHAT_PRIVATE_KEY,
+      { chain: hardhat, transport }
+    )
+
+    const result = await zombieFactory.createRandomZombie('Crawler')
+
+    const account = await zombieFactory.getAccount()
+    assert.equal(result.status, 'confirmed')
+    assert.equal(typeof account === 'object' && account.type, 'local')
+    assert.equal(
+      result.status === 'confirmed' &&
+        (await zombieFactory.publicClient.readContract({
+          address,
+          abi: ZombieFactoryAbi,
+          functionName: 'ownerOf',
+          args: [result.zombieId],
+        })),
+      getAddress(chain.walletClients[0].account.address)
+    )
+  })
+
+  describe('forChain', function () {
+    it('Should find the deployment named by the network variables', async function () {
+      const address = await chain.deployContract('ZombieFactory')
+      const zombieFactory = ZombieFactory.forChain(hardhat.id, {
+        env: {
+          LOCALHOST_ZOMBIE_FACTORY_ADDRESS: address,
+          LOCALHOST_ZOMBIE_FACTORY_START_BLOCK: '7',
+        },
+        transport,
+      })
+
+      assert.equal(zombieFactory.address, address)
+      assert.equal(zombieFactory.chain.id, hardhat.id)
+      assert.equal(await zombieFactory.isNameAvailable('Stalker'), true)
+    })
+
+    it('Should throw NO_DEPLOYMENT naming the chains that have one', function () {
+      assert.throws(
+        () =>
+          ZombieFactory.forChain(hardhat.id, {
+            env: {
+              SEPOLIA_ZOMBIE_FACTORY_ADDRESS:
+                '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+            },
+          }),
+        (error) =>
+          isZombieError(error, 'NO_DEPLOYMENT') &&
+          error.details.kind === 'NO_DEPLOYMENT' &&
+          error.details.deployedChainIds.includes(sepolia.id) &&
+          error.message.includes('sepolia (11155111)')
+      )
+    })
+
+    it('Should throw NO_DEPLOYMENT for a chain outside the registry', function () {
+      assert.throws(
+        () => ZombieFactory.forChain(1, { env: {} }),
+        (error) => isZombieError(error, 'NO_DEPLOYMENT')
+      )
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { ZombieError } from '../src/errors'
+import { createMemoryRevealStorage } from '../src/pendingReveals'
+import { ZombieFactory } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+describe('ZombieFactory commit-reveal', async function () {
+  const chain = await connectChain()
+  const address = await chain.deployContract('ZombieFactory')
+  const [revealDelay, revealWindow] = await Promise.all(
+    (['REVEAL_DELAY', 'REVEAL_WINDOW'] as const).map((functionName) =>
+      chain.publicClient.readContract({
+        address,
+        abi: ZombieFactoryAbi,
+        functionName,
+      })
+    )
+  )
+  // Shared like localStorage is by the tabs and reloads of one origin
+  const revealStorage = createMemoryRevealStorage()
+
+  // A new client on the same storage, as after a page reload
+  const reload = () =>
+    new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+      revealStorage,
+    })
+
+  async function commit(name: string) {
+    const committed = await reload().commitZombie(name)
+    assert.equal(committed.status, 'confirmed')
+    return committed.commitment
+  }
+
+  it('Should keep a commitment across a reload and reveal it after REVEAL_DELAY', async function () {
+    const commitment = await commit('Ghoul')
+
+    const zombieFactory = reload()
+    assert.deepEqual(
+      (await zombieFactory.getPendingReveals()).map(({ commitment, name }) => ({
+        commitment,
+        name,
+      })),
+      [{ commitment, name: 'Ghoul' }]
+    )
+
+    await chain.mine(Number(revealDelay) + 1)
+    const result = await zombieFactory.revealZombie(commitment)
+
+    assert.equal(result.status, 'confirmed')
+    assert.equal(result.name, 'Ghoul')
+    assert.equal((await zombieFactory.getZombie(result.zombieId)).name, 'Ghoul')
+    assert.deepEqual(await reload().getPendingReveals(), [])
+  })
+
+  it('Should report a commitment expired after REVEAL_WINDOW and forget it', async function () {
+    const commitment = await commit('Walker')
+
+    await chain.mine(Number(revealDelay + revealWindow))
+    const zombieFactory = reload()
+
+    await assert.rejects(
+      zombieFactory.revealZombie(commitment),
+      (error) =>
+        error instanceof ZombieError && error.kind === 'COMMITMENT_EXPIRED'
+    )
+    assert.deepEqual(await zombieFactory.getPendingReveals(), [])
+  })
+
+  it('Should refuse a commitment this client has no secret for', async function () {
+    const commitment = await commit('Crawler')
+    const elsewhere = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+      revealStorage: createMemoryRevealStorage(),
+    })
+
+    await assert.rejects(
+      elsewhere.revealZombie(commitment),
+      (error) =>
+        error instanceof ZombieError && error.kind === 'UNKNOWN_COMMITMENT'
+    )
+  })
+})
@@ -0,0 +1,317 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+import {
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  toHex,
+  type EIP1193Parameters,
+  type Hash,
+  type Hex,
+  type RpcTransactionReceipt,
+} from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { ZombieError } from '../src/errors'
+import {
+  ZombieFactory,
+  type ZombieBatchOutcome,
+  type ZombieBatchStatus,
+} from '../src/zombieFactory'
+import { connectChain, type TestWalletClient } from './helpers/chain'
+
+interface WalletOptions {
+  // What wallet_getCapabilities reports for atomic batches on the chain
+  atomic: 'supported' | 'unsupported'
+  // Names whose prompt the user rejects, with EIP-1193 code 4001
+  rejectedNames?: string[]
+}
+
+describe('ZombieFactory batch creation', async function () {
+  const chain = await connectChain()
+  const [account] = chain.walletClients.map(({ account }) => account)
+
+  afterEach(async function () {
+    await chain.setAutomine(true)
+  })
+
+  // An injected wallet over the node. wallet_sendCalls sends the calls as
+  // transactions that the first wallet_getCallsStatus mines in one block:
+  // atomic as long as none reverts, which is all these tests need
+  function wallet({ atomic, rejectedNames = [] }: WalletOptions) {
+    const methods: string[] = []
+    const batches = new Map<string, Hash[]>()
+
+    const rejectsAny = (calls: { data: Hex }[]) =>
+      calls.some(({ data }) =>
+        rejectedNames.includes(
+          decodeFunctionData({ abi: ZombieFactoryAbi, data })
+            .args?.[0] as string
+        )
+      )
+
+    async function request({ method, params }: EIP1193Parameters) {
+      methods.push(method)
+      switch (method) {
+        case 'wallet_getCapabilities':
+          return { [toHex(hardhat.id)]: { atomic: { status: atomic } } }
+
+        case 'wallet_sendCalls': {
+          const [{ from, calls }] = params as [
+            { from: Hex; calls: { to: Hex; data: Hex }[] },
+          ]
+          if (rejectsAny(calls)) {
+            throw { code: 4001, message: 'User rejected the request.' }
+          }
+          await chain.setAutomine(false)
+          const hashes: Hash[] = []
+          for (const { to, data } of calls) {
+            hashes.push(
+              (await chain.provider.request({
+                method: 'eth_sendTransaction',
+                params: [{ from, to, data }],
+              } as never)) as Hash
+            )
+          }
+          const id = toHex(batches.size + 1, { size: 32 })
+          batches.set(id, hashes)
+          return { id }
+        }
+
+        case 'wallet_getCallsStatus': {
+          const [id] = params as [string]
+          const hashes = batches.get(id)!
+          const receipts = (await Promise.all(
+            hashes.map((hash) =>
+              chain.provider.request({
+                method: 'eth_getTransactionReceipt',
+                params: [hash],
+              } as never)
+            )
+          )) as (RpcTransactionReceipt | null)[]
+          const status = {
+            version: '2.0.0',
+            id,
+            chainId: toHex(hardhat.id),
+            atomic: true,
+          }
+          if (receipts.some((receipt) => receipt === null)) {
+            await chain.mine()
+            await chain.setAutomine(true)
+            return { ...status, status: 100 }
+          }
+          return {
+            ...status,
+            status: receipts.every((receipt) => receipt!.status === '0x1')
+              ? 200
+              : 500,
+            receipts: receipts.map((receipt) => ({
+              logs: receipt!.logs,
+              status: receipt!.status,
+              blockHash: receipt!.blockHash,
+              blockNumber: receipt!.blockNumber,
+              gasUsed: receipt!.gasUsed,
+              transactionHash: receipt!.transactionHash,
+            })),
+          }
+        }
+
+        case 'eth_sendTransaction': {
+          const [{ data }] = params as [{ data: Hex }]
+          if (rejectsAny([{ data }])) {
+            throw { code: 4001, message: 'User rejected the request.' }
+          }
+          return chain.provider.request({ method, params } as never)
+        }
+
+        default:
+          return chain.provider.request({ method, params } as never)
+      }
+    }
+
+    const walletClient = createWalletClient({
+      chain: hardhat,
+      account: account.address,
+      transport: custom({ request }),
+      pollingInterval: 50,
+    }) as TestWalletClient
+    return { walletClient, methods }
+  }
+
+  async function deploy(options: WalletOptions) {
+    const { walletClient, methods } = wallet(options)
+    const zombieFactory = new ZombieFactory(
+      await chain.deployContract('ZombieFactory'),
+      { publicClient: chain.publicClient, walletClient }
+    )
+    return { zombieFactory, methods }
+  }
+
+  function errorKind({ error }: ZombieBatchOutcome) {
+    return error instanceof ZombieError ? error.kind : error
+  }
+
+  it('Should create every zombie in one wallet_sendCalls when the wallet batches atomically', async function () {
+    const { zombieFactory, methods } = await deploy({ atomic: 'supported' })
+    const names = ['Ghoul', 'Walker', 'Crawler']
+    const updates: ZombieBatchStatus[] = []
+
+    const result = await zombieFactory.createRandomZombies(names, {
+      onStatus: (update) => updates.push(update),
+    })
+
+    assert.equal(result.mode, 'batch')
+    assert.ok(result.batchId)
+    assert.equal(methods.filter((m) => m === 'wallet_sendCalls').length, 1)
+    assert.ok(!methods.includes('eth_sendTransaction'))
+    assert.deepEqual(
+      updates.map((update) =>
+        update.status === 'polled' ? update.callsStatus : update.status
+      ),
+      ['signing', 'submitted', 'pending', 'success']
+    )
+
+    assert.deepEqual(
+      result.outcomes.map(({ name, result }) => ({
+        name,
+        status: result?.status,
+      })),
+      names.map((name) => ({ name, status: 'confirmed' }))
+    )
+    const minted = result.outcomes.map(({ result }) => {
+      assert.equal(result?.status, 'confirmed')
+      return result
+    })
+    assert.equal(new Set(minted.map(({ blockNumber }) => blockNumber)).size, 1)
+    for (const { zombieId, name } of minted) {
+      assert.equal((await zombieFactory.getZombie(zombieId)).name, name)
+    }
+    assert.equal(await zombieFactory.getZombiesCount(), 3n)
+  })
+
+  it('Should leave out the names the contract would refuse from the batch', async function () {
+    const { zombieFactory } = await deploy({ atomic: 'supported' })
+    await zombieFactory.createRandomZombie('Walker')
+
+    const result = await zombieFactory.createRandomZombies([
+      'Ghoul',
+      'walker',
+      ' Crawler',
+      'GHOUL',
+      'Lurker',
+    ])
+
+    assert.equal(result.mode, 'batch')
+    assert.deepEqual(result.outcomes.map(errorKind), [
+      undefined,
+      'INVALID_NAME',
+      'INVALID_NAME',
+      'INVALID_NAME',
+      undefined,
+    ])
+    assert.deepEqual(
+      result.outcomes.map(({ result }) => result?.status),
+      ['confirmed', undefined, undefined, undefined, 'confirmed']
+    )
+    assert.equal(await zombieFactory.getZombiesCount(), 3n)
+  })
+
+  it('Should fail every name when the user rejects the batch', async function () {
+    const { zombieFactory } = await deploy({
+      atomic: 'supported',
+      rejectedNames: ['Walker'],
+    })
+
+    const result = await zombieFactory.createRandomZombies([
+      'Ghoul',
+      'Walker',
+      'Crawler',
+    ])
+
+    assert.equal(result.mode, 'batch')
+    assert.equal(result.batchId, undefined)
+    assert.deepEqual(result.outcomes.map(errorKind), [
+      'USER_REJECTED',
+      'USER_REJECTED',
+      'USER_REJECTED',
+    ])
+    assert.equal(await zombieFactory.getZombiesCount(), 0n)
+  })
+
+  it('Should send one transaction per name when the wallet cannot batch atomically', async function () {
+    const { zombieFactory, methods } = await deploy({ atomic: 'unsupported' })
+    const names = ['Ghoul', 'Walker', 'Crawler']
+    const updates: ZombieBatchStatus[] = []
+    const nonce = await chain.publicClient.getTransactionCount({
+      address: account.address,
+    })
+
+    const result = await zombieFactory.createRandomZombies(names, {
+      onStatus: (update) => updates.push(update),
+    })
+
+    assert.equal(result.mode, 'sequential')
+    assert.equal(result.batchId, undefined)
+    assert.ok(!methods.includes('wallet_sendCalls'))
+    assert.deepEqual(
+      updates.map((update) => [
+        update.status,
+        'name' in update ? update.name : undefined,
+      ]),
+      names.flatMap((name) => [
+        ['signing', name],
+        ['submitted', name],
+      ])
+    )
+    const nonces = []
+    for (const { name, result: created } of result.outcomes) {
+      assert.equal(created?.status, 'confirmed')
+      assert.equal(created.name, name)
+      nonces.push(
+        (await chain.publicClient.getTransaction({ hash: created.txHash }))
+          .nonce
+      )
+    }
+    assert.deepEqual(nonces, [nonce, nonce + 1, nonce + 2])
+  })
+
+  it('Should create the other zombies when the user rejects one transaction', async function () {
+    const { zombieFactory } = await deploy({
+      atomic: 'unsupported',
+      rejectedNames: ['Walker'],
+    })
+    const nonce = await chain.publicClient.getTransactionCount({
+      address: account.address,
+    })
+
+    const result = await zombieFactory.createRandomZombies([
+      'Ghoul',
+      'Walker',
+      'Bad;name',
+      'Crawler',
+    ])
+
+    assert.equal(result.mode, 'sequential')
+    assert.deepEqual(result.outcomes.map(errorKind), [
+      undefined,
+      'USER_REJECTED',
+      'INVALID_NAME',
+      undefined,
+    ])
+    // Crawler takes the nonce the rejected Walker did not use
+    const nonces = []
+    for (const { result: created } of [
+      result.outcomes[0],
+      result.outcomes[3],
+    ]) {
+      assert.equal(created?.status, 'confirmed')
+      nonces.push(
+        (await chain.publicClient.getTransaction({ hash: created.txHash }))
+          .nonce
+      )
+    }
+    assert.deepEqual(nonces, [nonce, nonce + 1])
+    assert.equal(await zombieFactory.getZombiesCount(), 2n)
+    assert.equal(await zombieFactory.isNameAvailable('Walker'), true)
+  })
+})
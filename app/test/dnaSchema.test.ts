@@ -0,0 +1,268 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  decodeDna,
+  decodeSpeciesMarker,
+  decodeZombieTraits,
+  DNA_SCHEMAS,
+  DnaError,
+  encodeTraits,
+  LATEST_DNA_SCHEMA,
+  parseDnaSchema,
+  parseDnaSchemas,
+  schemaForZombie,
+  type DnaSchema,
+} from '../src/dnaSchema'
+import { decodeZombieSpecies } from '../src/zombieFactory'
+
+// A schema as dnaSchemas.json holds it, before parsing
+function schemaInput(traits: object[], fields: object = {}) {
+  return { version: 1, dnaDigits: 16, traits, ...fields }
+}
+
+const head = {
+  name: 'headChoice',
+  start: 0,
+  length: 2,
+  kind: 'variant',
+  variants: 7,
+}
+const skin = { name: 'skinColorChoice', start: 2, length: 2, kind: 'hue' }
+
+// Rejected with a DnaError naming `trait`, when given
+function rejects(parse: () => unknown, trait?: string) {
+  assert.throws(
+    parse,
+    (error) =>
+      error instanceof DnaError &&
+      (trait === undefined || error.trait === trait)
+  )
+}
+
+describe('DNA schema', function () {
+  describe('parseDnaSchema', function () {
+    it('Should type the schema, defaulting the label and fromZombieId', function () {
+      assert.deepEqual(parseDnaSchema(schemaInput([head, skin])), {
+        version: 1,
+        fromZombieId: 0n,
+        dnaDigits: 16,
+        traits: [
+          { ...head, label: 'headChoice' },
+          { ...skin, label: 'skinColorChoice' },
+        ],
+      })
+    })
+
+    it('Should reject traits whose digit slices overlap', function () {
+      rejects(
+        () =>
+          parseDnaSchema(
+            schemaInput([head, { ...skin, start: 1 }, { ...skin, start: 4 }])
+          ),
+        'skinColorChoice'
+      )
+      rejects(() => parseDnaSchema(schemaInput([head, { ...head, start: 4 }])))
+    })
+
+    it('Should keep the species marker digits out of every trait', function () {
+      parseDnaSchema(schemaInput([{ ...skin, start: 12 }]))
+
+      for (const start of [13, 14]) {
+        rejects(
+          () => parseDnaSchema(schemaInput([{ ...skin, start }])),
+          'skinColorChoice'
+        )
+      }
+      rejects(() => parseDnaSchema(schemaInput([skin], { dnaDigits: 2 })))
+    })
+
+    it('Should reject malformed schemas and traits', function () {
+      const malformed = [
+        null,
+        [head],
+        schemaInput([]),
+        schemaInput([head], { version: '1' }),
+        schemaInput([head], { fromZombieId: -1 }),
+        schemaInput([head], { fromZombieId: '0x10' }),
+        schemaInput([head], { dnaDigits: 78 }),
+        schemaInput([{ ...head, name: '' }]),
+        schemaInput([head, head]),
+        schemaInput([{ ...head, label: 7 }]),
+        schemaInput([{ ...head, length: 0 }]),
+        schemaInput([{ ...head, length: 16 }]),
+        schemaInput([{ ...head, start: 1.5 }]),
+        schemaInput([{ ...head, start: 16 }]),
+        schemaInput([{ ...head, kind: 'color' }]),
+        schemaInput([{ ...head, variants: 0 }]),
+        schemaInput([{ ...head, variants: 101 }]),
+      ]
+      for (const input of malformed) {
+        rejects(() => parseDnaSchema(input))
+      }
+    })
+  })
+
+  describe('parseDnaSchemas', function () {
+    const v2 = schemaInput([head, skin], { version: 2, fromZombieId: '10' })
+
+    it('Should read the versions of a JSON file in order', function () {
+      const schemas = parseDnaSchemas(
+        JSON.parse(JSON.stringify({ versions: [schemaInput([head]), v2] }))
+      )
+
+      assert.deepEqual(
+        schemas.map(({ version, fromZombieId }) => [version, fromZombieId]),
+        [
+          [1, 0n],
+          [2, 10n],
+        ]
+      )
+    })
+
+    it('Should reject a bad versions list', function () {
+      const bad = [
+        JSON.parse('[]'),
+        JSON.parse('{ "version": 1 }'),
+        { versions: [] },
+        { versions: [{ ...v2, version: 1 }] },
+        { versions: [schemaInput([head]), { ...v2, version: 1 }] },
+        { versions: [schemaInput([head]), { ...v2, fromZombieId: 0 }] },
+        { versions: [v2, schemaInput([head])] },
+      ]
+      for (const input of bad) {
+        rejects(() => parseDnaSchemas(input))
+      }
+      assert.throws(() => parseDnaSchemas(JSON.parse('{ "versions": [')))
+    })
+  })
+
+  describe('schemaForZombie', function () {
+    const schemas = parseDnaSchemas({
+      versions: [
+        schemaInput([head]),
+        schemaInput([head, skin], { version: 2, fromZombieId: '10' }),
+      ],
+    })
+
+    it('Should pick the version each zombie was minted with', function () {
+      assert.deepEqual(
+        [0n, 9n, 10n, 1_000n].map(
+          (zombieId) => schemaForZombie(zombieId, schemas).version
+        ),
+        [1, 1, 2, 2]
+      )
+      assert.equal(schemaForZombie(0n), DNA_SCHEMAS[0])
+    })
+
+    it('Should decode the same DNA with the traits of its version', function () {
+      // Head digits 34, skin digits 56
+      const dna = 3_456_000_000_000_000n
+
+      assert.deepEqual(decodeDna(dna, schemaForZombie(9n, schemas)), {
+        headChoice: 7,
+      })
+      assert.deepEqual(decodeDna(dna, schemaForZombie(10n, schemas)), {
+        headChoice: 7,
+        skinColorChoice: 201,
+      })
+    })
+
+    it('Should refuse a zombie before the first version', function () {
+      const late: DnaSchema[] = [{ ...schemas[1], fromZombieId: 5n }]
+
+      rejects(() => schemaForZombie(4n, late))
+    })
+  })
+
+  describe('decodeDna and encodeTraits', function () {
+    const schema = LATEST_DNA_SCHEMA
+    const variants = schema.traits.filter((trait) => trait.kind === 'variant')
+    const hues = schema.traits.filter((trait) => trait.kind === 'hue')
+
+    it('Should encode decoded traits back to the same traits', function () {
+      for (const dna of [
+        0n,
+        1n,
+        5_142_957_193_710_362n,
+        9_999_999_999_999_999n,
+        1_234_567_890_123_499n,
+      ]) {
+        const traits = decodeDna(dna, schema)
+        const encoded = encodeTraits(traits, schema)
+
+        assert.deepEqual(decodeDna(encoded, schema), traits, String(dna))
+        assert.ok(encoded < 10n ** BigInt(schema.dnaDigits))
+        // What createRandomZombie mints, not a kitty
+        assert.equal(decodeSpeciesMarker(encoded), 0n)
+        assert.equal(decodeZombieSpecies(encoded), 'zombie')
+      }
+    })
+
+    it('Should round-trip every variant and every hue the digits can hold', function () {
+      const base = decodeDna(0n, schema)
+      for (const trait of variants) {
+        for (let value = 1; value <= trait.variants; value++) {
+          const traits = { ...base, [trait.name]: value }
+          assert.deepEqual(
+            decodeDna(encodeTraits(traits, schema), schema),
+            traits
+          )
+        }
+      }
+      for (const trait of hues) {
+        for (let n = 0; n < 10 ** trait.length; n++) {
+          const dna =
+            BigInt(n) *
+            10n ** BigInt(schema.dnaDigits - trait.start - trait.length)
+          const traits = decodeDna(dna, schema)
+          assert.deepEqual(
+            decodeDna(encodeTraits(traits, schema), schema),
+            traits
+          )
+        }
+      }
+    })
+
+    it('Should refuse DNA that does not fit in dnaDigits', function () {
+      rejects(() => decodeDna(-1n, schema))
+      rejects(() => decodeDna(10n ** BigInt(schema.dnaDigits), schema))
+    })
+
+    it('Should decode the zombie traits, refusing a schema without one', function () {
+      const dna = 5_142_957_193_710_362n
+
+      assert.deepEqual(decodeZombieTraits(dna, schema), decodeDna(dna, schema))
+      rejects(
+        () =>
+          decodeZombieTraits(dna, parseDnaSchema(schemaInput([head, skin]))),
+        'eyeChoice'
+      )
+    })
+
+    it('Should refuse out-of-range, missing and unknown traits', function () {
+      const base = decodeDna(0n, schema)
+      const [variant] = variants
+      const [hue] = hues
+
+      for (const value of [0, variant.variants + 1, 1.5]) {
+        rejects(
+          () => encodeTraits({ ...base, [variant.name]: value }, schema),
+          variant.name
+        )
+      }
+      // Two digits hold 100 of the 360 degrees: 1 is not one of them
+      for (const value of [-1, 360, 1]) {
+        rejects(
+          () => encodeTraits({ ...base, [hue.name]: value }, schema),
+          hue.name
+        )
+      }
+      const { [hue.name]: _, ...missing } = base
+      rejects(() => encodeTraits(missing, schema), hue.name)
+      rejects(
+        () => encodeTraits({ ...base, hatChoice: 1 }, schema),
+        'hatChoice'
+      )
+    })
+  })
+})
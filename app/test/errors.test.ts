@@ -0,0 +1,223 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  encodeFunctionData,
+  HttpRequestError,
+  MethodNotFoundRpcError,
+  ProviderDisconnectedError,
+  RpcRequestError,
+  SocketClosedError,
+  UserRejectedRequestError,
+} from 'viem'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { toZombieError, withRetry, ZombieError } from '../src/errors'
+import { connectChain } from './helpers/chain'
+
+// How viem reports a failed createRandomZombie, with `cause` underneath
+function executionError(cause: BaseError): ContractFunctionExecutionError {
+  return new ContractFunctionExecutionError(cause, {
+    abi: ZombieFactoryAbi,
+    functionName: 'createRandomZombie',
+    args: ['Ghoul'],
+  })
+}
+
+const rateLimited = () =>
+  executionError(new HttpRequestError({ url: 'http://rpc', status: 429 }))
+
+// How the http transport reports a JSON-RPC error of the node
+function nodeError(code: number, message: string): RpcRequestError {
+  return new RpcRequestError({
+    body: { method: 'eth_call' },
+    error: { code, message },
+    url: 'http://rpc',
+  })
+}
+
+describe('Zombie errors', async function () {
+  const chain = await connectChain()
+
+  describe('toZombieError', function () {
+    it('Should find a rejection buried in the cause chain', function () {
+      const error = toZombieError(
+        executionError(new UserRejectedRequestError(new Error('denied')))
+      )
+
+      assert.equal(error.kind, 'USER_REJECTED')
+      assert.equal(error.retryable, false)
+      assert.ok(error.cause instanceof ContractFunctionExecutionError)
+    })
+
+    it('Should take EIP-1193 code 4001 from wallets viem did not wrap', function () {
+      const error = toZombieError({ code: 4001, message: 'User denied' })
+
+      assert.equal(error.kind, 'USER_REJECTED')
+    })
+
+    it('Should decode the custom error of a revert on chain', async function () {
+      const address = await chain.deployContract('ZombieFactory')
+      const failure = await chain.publicClient
+        .simulateContract({
+          address,
+          abi: ZombieFactoryAbi,
+          functionName: 'createRandomZombie',
+          args: ['Bad name!'],
+          account: chain.walletClients[0].account,
+        })
+        .catch((error: unknown) => error)
+
+      const error = toZombieError(failure)
+
+      assert.equal(error.kind, 'CONTRACT_REVERTED')
+      assert.equal(
+        error.details.kind === 'CONTRACT_REVERTED' && error.details.errorName,
+        'InvalidNameCharacter'
+      )
+      assert.equal(error.message, 'Transaction reverted: InvalidNameCharacter')
+    })
+
+    it('Should tell rate limits from other HTTP failures', function () {
+      const limited = toZombieError(rateLimited())
+      const down = toZombieError(
+        executionError(new HttpRequestError({ url: 'http://rpc', status: 502 }))
+      )
+
+      assert.equal(limited.kind, 'RATE_LIMITED')
+      assert.equal(limited.retryable, true)
+      assert.deepEqual(down.details, { kind: 'NETWORK', status: 502 })
+      assert.equal(down.retryable, true)
+    })
+
+    it('Should retry a closed socket or a disconnected wallet', function () {
+      const errors = [
+        executionError(new SocketClosedError({ url: 'ws://rpc' })),
+        new ProviderDisconnectedError(new Error('Disconnected')),
+        { code: 4900, message: 'Disconnected' },
+      ].map(toZombieError)
+
+      for (const error of errors) {
+        assert.deepEqual(error.details, { kind: 'NETWORK', status: undefined })
+        assert.equal(error.retryable, true)
+      }
+    })
+
+    it('Should not retry the invalid params the node refused', async function () {
+      const failure = await chain.publicClient
+        .request({ method: 'eth_getBalance', params: ['0xzz', 'latest'] })
+        .catch((error: unknown) => error)
+
+      const error = toZombieError(failure)
+
+      assert.deepEqual(error.details, { kind: 'RPC_ERROR', code: -32602 })
+      assert.equal(error.retryable, false)
+      assert.match(error.message, /^RPC error -32602: invalid value "0xzz"/)
+    })
+
+    it('Should not retry the other JSON-RPC errors of an HTTP node', function () {
+      const error = toZombieError(
+        new MethodNotFoundRpcError(
+          nodeError(-32601, 'the method eth_foo does not exist')
+        )
+      )
+
+      assert.deepEqual(error.details, { kind: 'RPC_ERROR', code: -32601 })
+      assert.equal(error.retryable, false)
+      assert.equal(
+        error.message,
+        'RPC error -32601: the method eth_foo does not exist'
+      )
+    })
+
+    it('Should report an execution reverted without the ABI as CONTRACT_REVERTED', async function () {
+      const address = await chain.deployContract('ZombieFactory')
+      // A raw eth_call: viem has no ABI to decode the revert with
+      const failure = await chain.publicClient
+        .call({
+          to: address,
+          data: encodeFunctionData({
+            abi: ZombieFactoryAbi,
+            functionName: 'createRandomZombie',
+            args: ['Bad name!'],
+          }),
+        })
+        .catch((error: unknown) => error)
+
+      for (const error of [
+        toZombieError(failure),
+        toZombieError(nodeError(3, 'execution reverted')),
+      ]) {
+        assert.deepEqual(error.details, { kind: 'CONTRACT_REVERTED' })
+        assert.equal(error.retryable, false)
+      }
+    })
+
+    it('Should keep a ZombieError as it is', function () {
+      const error = new ZombieError({ kind: 'NO_WALLET' })
+
+      assert.equal(toZombieError(error), error)
+    })
+  })
+
+  describe('withRetry', function () {
+    it('Should retry retryable failures with a doubling delay', async function () {
+      const retries: [string, number, number][] = []
+      let calls = 0
+
+      const result = await withRetry(
+        async () => {
+          if (++calls < 3) throw rateLimited()
+          return 'done'
+        },
+        {
+          baseDelayMs: 1,
+          onRetry: (error, attempt, delayMs) =>
+            retries.push([error.kind, attempt, delayMs]),
+        }
+      )
+
+      assert.equal(result, 'done')
+      assert.deepEqual(retries, [
+        ['RATE_LIMITED', 1, 1],
+        ['RATE_LIMITED', 2, 2],
+      ])
+    })
+
+    it('Should throw a rejection right away', async function () {
+      let calls = 0
+
+      await assert.rejects(
+        withRetry(
+          async () => {
+            calls++
+            throw executionError(new UserRejectedRequestError(new Error()))
+          },
+          { baseDelayMs: 1 }
+        ),
+        (error) =>
+          error instanceof ZombieError && error.kind === 'USER_REJECTED'
+      )
+      assert.equal(calls, 1)
+    })
+
+    it('Should give up after the last retry with the classified error', async function () {
+      let calls = 0
+
+      await assert.rejects(
+        withRetry(
+          async () => {
+            calls++
+            throw rateLimited()
+          },
+          { retries: 2, baseDelayMs: 1 }
+        ),
+        (error) =>
+          error instanceof ZombieError &&
+          error.kind === 'RATE_LIMITED' &&
+          error.cause instanceof ContractFunctionExecutionError
+      )
+      assert.equal(calls, 3)
+    })
+  })
+})
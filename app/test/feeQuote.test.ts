@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { formatEther, toHex } from 'viem'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { ZombieError } from '../src/errors'
+import { quoteContractWrite, type FeeQuote } from '../src/feeQuote'
+import { ZombieFactory } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+// The L1Block predeploy packs both scalars with the sequence number in slot 3
+const L1_BLOCK_ADDRESS = '0x4200000000000000000000000000000000000015'
+const BASE_FEE_SCALAR = 1368n
+const BLOB_BASE_FEE_SCALAR = 810949n
+
+// The totals add the L1 data fee to the execution fee
+function assertTotals(quote: FeeQuote) {
+  let expectedFeePerGas = quote.baseFeePerGas + quote.maxPriorityFeePerGas
+  if (expectedFeePerGas > quote.maxFeePerGas) {
+    expectedFeePerGas = quote.maxFeePerGas
+  }
+  const expected = quote.gasLimit * expectedFeePerGas + quote.l1DataFee
+  const max = quote.gasLimit * quote.maxFeePerGas + quote.l1DataFee
+
+  assert.deepEqual(quote.expected, {
+    wei: expected,
+    eth: formatEther(expected),
+  })
+  assert.deepEqual(quote.max, { wei: max, eth: formatEther(max) })
+}
+
+describe('Fee quotes', function () {
+  it('Should quote no L1 data fee on an L1', async function () {
+    const chain = await connectChain('hardhatMainnet')
+    const zombieFactory = new ZombieFactory(
+      await chain.deployContract('ZombieFactory'),
+      {
+        publicClient: chain.publicClient,
+        walletClient: chain.walletClients[0],
+        chainType: 'l1',
+      }
+    )
+
+    const quote = await zombieFactory.quoteCreateZombie('Ghoul')
+
+    assert.equal(quote.l1DataFee, 0n)
+    assert.ok(quote.gasLimit > 0n)
+    assertTotals(quote)
+  })
+
+  it('Should add the L1 data fee on an OP-stack chain', async function () {
+    const chain = await connectChain('hardhatOp')
+    // EDR leaves the Ecotone fee scalars of L1Block at 0, which makes every
+    // L1 fee 0: set OP mainnet's, as the sequencer's L1 attributes would
+    await chain.setStorageAt(
+      L1_BLOCK_ADDRESS,
+      '0x3',
+      toHex((BASE_FEE_SCALAR << 96n) | (BLOB_BASE_FEE_SCALAR << 64n), {
+        size: 32,
+      })
+    )
+    const zombieFactory = new ZombieFactory(
+      await chain.deployContract('ZombieFactory'),
+      {
+        publicClient: chain.publicClient,
+        walletClient: chain.walletClients[0],
+        chainType: 'op',
+      }
+    )
+
+    const quote = await zombieFactory.quoteCreateZombie('Ghoul')
+
+    assert.ok(quote.l1DataFee > 0n)
+    assertTotals(quote)
+  })
+
+  it('Should take the chain type from the registry by default', async function () {
+    // The registry's 31337 is the localhost network, an L1
+    const chain = await connectChain('hardhatOp')
+    const address = await chain.deployContract('ZombieFactory')
+
+    const quote = await quoteContractWrite(chain.publicClient, {
+      address,
+      abi: ZombieFactoryAbi,
+      functionName: 'createRandomZombie',
+      args: ['Ghoul'],
+      account: chain.walletClients[0].account,
+    })
+
+    assert.equal(quote.l1DataFee, 0n)
+  })
+
+  it('Should throw CONTRACT_REVERTED for a write that would revert', async function () {
+    const chain = await connectChain('hardhatOp')
+    const address = await chain.deployContract('ZombieFactory')
+    const request = {
+      address,
+      abi: ZombieFactoryAbi,
+      functionName: 'createRandomZombie',
+      args: ['Ghoul'],
+      account: chain.walletClients[0].account,
+    }
+    await new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClients[0],
+    }).createRandomZombie('Ghoul')
+
+    await assert.rejects(
+      quoteContractWrite(chain.publicClient, request, { chainType: 'op' }),
+      (error) =>
+        error instanceof ZombieError && error.kind === 'CONTRACT_REVERTED'
+    )
+  })
+})
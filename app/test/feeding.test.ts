@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseAbi, type Address } from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieError } from '../src/errors'
+import { decodeZombieSpecies, ZombieFactory } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+// web3's contracts/mocks/KittyMock.sol, which the app has no ABI for
+const KittyMockAbi = parseAbi([
+  'function setKitty(uint256 _id, uint256 _kittyGenes)',
+])
+
+const KITTY_ID = 1n
+const KITTY_GENES = 626_837_621_154_801_616_088_980_922_659_877_168_609_154n
+
+describe('ZombieFactory feeding', async function () {
+  const chain = await connectChain()
+  const [walletClient] = chain.walletClients
+
+  // ZombieFeeding over a KittyMock that has KITTY_ID
+  async function deploy() {
+    const kittyMock = await chain.deployContract('KittyMock')
+    await setKitty(kittyMock, KITTY_ID, KITTY_GENES)
+    const zombieFactory = new ZombieFactory(
+      await chain.deployContract('ZombieFeeding', [kittyMock]),
+      { publicClient: chain.publicClient, walletClient }
+    )
+    const created = await zombieFactory.createRandomZombie('Ghoul')
+    assert.equal(created.status, 'confirmed')
+    return { zombieFactory, zombie: created }
+  }
+
+  async function setKitty(kittyMock: Address, id: bigint, genes: bigint) {
+    const hash = await walletClient.writeContract({
+      address: kittyMock,
+      abi: KittyMockAbi,
+      functionName: 'setKitty',
+      args: [id, genes],
+      account: walletClient.account,
+      chain: hardhat,
+    })
+    await chain.publicClient.waitForTransactionReceipt({ hash })
+  }
+
+  it('Should breed a kitty zombie from a kitty', async function () {
+    const { zombieFactory, zombie } = await deploy()
+
+    const result = await zombieFactory.feedOnKitty(zombie.zombieId, KITTY_ID)
+
+    // ZombieFeeding averages the DNAs, then marks the kitty species: 99
+    const average = (zombie.dna + (KITTY_GENES % 10n ** 16n)) / 2n
+    const dna = average - (average % 100n) + 99n
+    assert.equal(result.status, 'confirmed')
+    assert.equal(result.zombieId, zombie.zombieId + 1n)
+    assert.equal(result.name, 'NoName')
+    assert.equal(result.dna, dna)
+    assert.deepEqual(await zombieFactory.getZombie(result.zombieId), {
+      name: 'NoName',
+      dna,
+    })
+    assert.equal(decodeZombieSpecies(dna), 'kitty')
+    assert.equal(decodeZombieSpecies(zombie.dna), 'zombie')
+  })
+
+  it('Should throw CONTRACT_REVERTED while the zombie is on cooldown', async function () {
+    const { zombieFactory, zombie } = await deploy()
+    await zombieFactory.feedOnKitty(zombie.zombieId, KITTY_ID)
+
+    await assert.rejects(
+      zombieFactory.feedOnKitty(zombie.zombieId, KITTY_ID),
+      (error) =>
+        error instanceof ZombieError &&
+        error.details.kind === 'CONTRACT_REVERTED' &&
+        error.details.errorName === 'ZombieNotReady'
+    )
+    assert.equal(await zombieFactory.getZombiesCount(), 2n)
+  })
+})
@@ -0,0 +1,129 @@
+import { fileURLToPath } from 'node:url'
+import { createHardhatRuntimeEnvironment } from 'hardhat/hre'
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  type Abi,
+  type Account,
+  type Address,
+  type EIP1193Provider,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { hardhat } from 'viem/chains'
+import { installMulticall3 } from '../../../web3/scripts/lib/multicall3'
+
+export type TestWalletClient = WalletClient & { account: Account }
+
+// A fresh simulated chain, with clients built the way an app would build
+// them from an injected provider
+export interface TestChain {
+  provider: EIP1193Provider
+  publicClient: PublicClient
+  // One per funded account of the node
+  walletClients: TestWalletClient[]
+  // Deploys a contract compiled by web3 and returns its address
+  deployContract(
+    contractName: string,
+    args?: readonly unknown[],
+    walletClient?: TestWalletClient
+  ): Promise<Address>
+  mine(blocks?: number): Promise<void>
+  // Off, sent transactions wait in the mempool for mine()
+  setAutomine(enabled: boolean): Promise<void>
+  // evm_snapshot / evm_revert: reverting drops every block mined since the
+  // snapshot, as a reorg would
+  snapshot(): Promise<Hex>
+  revert(snapshotId: Hex): Promise<void>
+  // Puts Multicall3 at its canonical address, which EDR starts without
+  installMulticall3(): Promise<Address>
+  // hardhat_setStorageAt: overwrites one 32-byte storage slot
+  setStorageAt(address: Address, slot: Hex, value: Hex): Promise<void>
+}
+
+// The contracts are web3's, as compiled there: `npm test` builds them first
+const hre = await createHardhatRuntimeEnvironment(
+  {
+    paths: { artifacts: '../web3/artifacts' },
+    networks: {
+      hardhatMainnet: { type: 'edr-simulated', chainType: 'l1' },
+      hardhatOp: { type: 'edr-simulated', chainType: 'op' },
+    },
+  },
+  {},
+  fileURLToPath(new URL('../..', import.meta.url))
+)
+
+export async function connectChain(
+  network: 'hardhatMainnet' | 'hardhatOp' = 'hardhatMainnet'
+): Promise<TestChain> {
+  const { provider: nodeProvider } = await hre.network.connect({ network })
+  const provider = nodeProvider as unknown as EIP1193Provider
+  const transport = custom(provider)
+
+  const publicClient = createPublicClient({
+    chain: hardhat,
+    transport,
+    pollingInterval: 50,
+  })
+  const addresses = await provider.request({ method: 'eth_accounts' })
+  const walletClients = addresses.map(
+    (address) =>
+      createWalletClient({
+        chain: hardhat,
+        account: address,
+        transport,
+        pollingInterval: 50,
+      }) as TestWalletClient
+  )
+
+  return {
+    provider,
+    publicClient,
+    walletClients,
+    async deployContract(contractName, args = [], walletClient) {
+      const { abi, bytecode } = await hre.artifacts.readArtifact(contractName)
+      const deployer = walletClient ?? walletClients[0]
+      const hash = await deployer.deployContract({
+        abi: abi as Abi,
+        bytecode: bytecode as Hex,
+        args,
+        account: deployer.account,
+        chain: hardhat,
+      })
+      const { contractAddress } = await publicClient.waitForTransactionReceipt({
+        hash,
+      })
+      return contractAddress!
+    },
+    async mine(blocks = 1) {
+      await nodeProvider.request({
+        method: 'hardhat_mine',
+        params: [`0x${blocks.toString(16)}`],
+      })
+    },
+    async setAutomine(enabled) {
+      await nodeProvider.request({
+        method: 'evm_setAutomine',
+        params: [enabled],
+      })
+    },
+    async snapshot() {
+      return (await nodeProvider.request({ method: 'evm_snapshot' })) as Hex
+    },
+    async revert(snapshotId) {
+      await nodeProvider.request({ method: 'evm_revert', params: [snapshotId] })
+    },
+    installMulticall3() {
+      return installMulticall3(nodeProvider, publicClient, hre.artifacts)
+    },
+    async setStorageAt(address, slot, value) {
+      await nodeProvider.request({
+        method: 'hardhat_setStorageAt',
+        params: [address, slot, value],
+      })
+    },
+  }
+}
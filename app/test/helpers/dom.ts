@@ -0,0 +1,24 @@
+import { JSDOM } from 'jsdom'
+
+// A browser page for the React tests and the custom elements. Import it
+// before react-dom and zombieElements, which look for the DOM once, when
+// they load
+const dom = new JSDOM('<!doctype html><html><body></body></html>', {
+  url: 'http://localhost/',
+})
+
+Object.assign(globalThis, {
+  window: dom.window,
+  document: dom.window.document,
+  HTMLElement: dom.window.HTMLElement,
+  Node: dom.window.Node,
+  customElements: dom.window.customElements,
+  // Node's own CustomEvent cannot be dispatched on jsdom nodes
+  CustomEvent: dom.window.CustomEvent,
+  // Tells React that updates are wrapped in act()
+  IS_REACT_ACT_ENVIRONMENT: true,
+})
+
+export function createContainer(): HTMLElement {
+  return document.body.appendChild(document.createElement('div'))
+}
@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  createPublicClient,
+  custom,
+  getAddress,
+  hexToBigInt,
+  type Address,
+  type EIP1193Parameters,
+  type Hex,
+} from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import {
+  ZombieIndexer,
+  type IndexedTransfer,
+  type IndexedZombie,
+  type ZombieOwner,
+} from '../src/indexer'
+import { connectChain } from './helpers/chain'
+
+describe('ZombieIndexer', async function () {
+  const chain = await connectChain()
+  const [walletClient, bob] = chain.walletClients
+
+  async function createZombie(address: Address, name: string) {
+    await chain.publicClient.waitForTransactionReceipt({
+      hash: await walletClient.writeContract({
+        address,
+        abi: ZombieFactoryAbi,
+        functionName: 'createRandomZombie',
+        args: [name],
+        account: walletClient.account,
+        chain: walletClient.chain,
+      }),
+    })
+  }
+
+  async function transferZombie(address: Address, zombieId: bigint) {
+    await chain.publicClient.waitForTransactionReceipt({
+      hash: await walletClient.writeContract({
+        address,
+        abi: ZombieFactoryAbi,
+        functionName: 'transferFrom',
+        args: [walletClient.account.address, bob.account.address, zombieId],
+        account: walletClient.account,
+        chain: walletClient.chain,
+      }),
+    })
+  }
+
+  // A fresh contract, plus the block it was deployed in
+  async function deploy() {
+    const address = await chain.deployContract('ZombieFactory')
+    return { address, fromBlock: await chain.publicClient.getBlockNumber() }
+  }
+
+  const namesOf = (zombies: IndexedZombie[]) => zombies.map(({ name }) => name)
+
+  it('Should halve the range while the RPC refuses it, and keep it halved', async function () {
+    const { address, fromBlock } = await deploy()
+    for (const name of ['Ghoul', 'Walker', 'Crawler']) {
+      await createZombie(address, name)
+      await chain.mine(5)
+    }
+
+    // Refuses eth_getLogs over more than 4 blocks, as Alchemy words it
+    const requested: bigint[] = []
+    const publicClient = createPublicClient({
+      chain: hardhat,
+      transport: custom({
+        async request({ method, params }: EIP1193Parameters) {
+          if (method === 'eth_getLogs') {
+            const [{ fromBlock, toBlock }] = params as [
+              { fromBlock: Hex; toBlock: Hex },
+            ]
+            const blocks = hexToBigInt(toBlock) - hexToBigInt(fromBlock) + 1n
+            requested.push(blocks)
+            if (blocks > 4n) {
+              throw {
+                code: -32602,
+                message:
+                  'Log response size exceeded. You can make eth_getLogs requests with up to a 4 block range',
+              }
+            }
+          }
+          return chain.provider.request({ method, params } as never)
+        },
+      }),
+    })
+    const zombies: IndexedZombie[] = []
+
+    await new ZombieIndexer({
+      publicClient,
+      address,
+      fromBlock,
+      chunkSize: 16n,
+      onZombies: (found) => void zombies.push(...found),
+    }).sync()
+
+    assert.deepEqual(namesOf(zombies), ['Ghoul', 'Walker', 'Crawler'])
+    assert.deepEqual(requested.slice(0, 3), [16n, 8n, 4n])
+    assert.ok(requested.slice(2).every((blocks) => blocks <= 4n))
+  })
+
+  it('Should rewind past a reorg and index the new chain', async function () {
+    const { address, fromBlock } = await deploy()
+    await createZombie(address, 'Ghoul')
+    await chain.mine(4)
+    const zombies: IndexedZombie[] = []
+    const rewinds: bigint[] = []
+    const indexer = new ZombieIndexer({
+      publicClient: chain.publicClient,
+      address,
+      fromBlock,
+      reorgDepth: 2n,
+      onZombies: (found) => void zombies.push(...found),
+      onRewind: (from) => {
+        rewinds.push(from)
+        zombies.splice(
+          0,
+          zombies.length,
+          ...zombies.filter(({ blockNumber }) => blockNumber < from)
+        )
+      },
+    })
+
+    const snapshotId = await chain.snapshot()
+    await createZombie(address, 'Walker')
+    const checkpoint = await indexer.sync()
+    assert.deepEqual(namesOf(zombies), ['Ghoul', 'Walker'])
+
+    // Another chain from the snapshot on, as long as the one dropped
+    await chain.revert(snapshotId)
+    await createZombie(address, 'Crawler')
+    await chain.mine(2)
+
+    await indexer.sync()
+
+    assert.deepEqual(rewinds, [checkpoint! - 1n])
+    assert.deepEqual(namesOf(zombies), ['Ghoul', 'Crawler'])
+  })
+
+  it('Should read again the owners that reorged out transfers had changed', async function () {
+    const { address, fromBlock } = await deploy()
+    await createZombie(address, 'Ghoul')
+    await chain.mine(4)
+    const zombies: IndexedZombie[] = []
+    const transfers: IndexedTransfer[] = []
+    const owners: ZombieOwner[] = []
+    const indexer = new ZombieIndexer({
+      publicClient: chain.publicClient,
+      address,
+      fromBlock,
+      reorgDepth: 4n,
+      onZombies: (found) => void zombies.push(...found),
+      onTransfers: (found) => void transfers.push(...found),
+      onRewind: (from) => {
+        zombies.splice(
+          0,
+          zombies.length,
+          ...zombies.filter(({ blockNumber }) => blockNumber < from)
+        )
+        transfers.splice(
+          0,
+          transfers.length,
+          ...transfers.filter(({ blockNumber }) => blockNumber < from)
+        )
+      },
+      onOwners: (read) => void owners.push(...read),
+    })
+
+    const snapshotId = await chain.snapshot()
+    await transferZombie(address, 0n)
+    // Minted and transferred in the dropped blocks: the rewind drops it
+    await createZombie(address, 'Walker')
+    await transferZombie(address, 1n)
+    await indexer.sync()
+    assert.deepEqual(
+      transfers.map(({ zombieId }) => zombieId),
+      [0n, 1n]
+    )
+
+    await chain.revert(snapshotId)
+    await createZombie(address, 'Crawler')
+    await chain.mine(2)
+
+    await indexer.sync()
+
+    assert.deepEqual(namesOf(zombies), ['Ghoul', 'Crawler'])
+    assert.deepEqual(transfers, [])
+    assert.deepEqual(owners, [
+      { zombieId: 0n, owner: getAddress(walletClient.account.address) },
+    ])
+  })
+
+  it('Should leave the last confirmations blocks for later', async function () {
+    const { address, fromBlock } = await deploy()
+    const zombies: IndexedZombie[] = []
+    const indexer = new ZombieIndexer({
+      publicClient: chain.publicClient,
+      address,
+      fromBlock,
+      confirmations: 2n,
+      onZombies: (found) => void zombies.push(...found),
+    })
+    await createZombie(address, 'Ghoul')
+
+    await indexer.sync()
+    assert.deepEqual(zombies, [])
+
+    await chain.mine(2)
+    await indexer.sync()
+    assert.deepEqual(namesOf(zombies), ['Ghoul'])
+  })
+})
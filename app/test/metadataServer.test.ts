@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'node:net'
+import { after, describe, it } from 'node:test'
+import { LATEST_DNA_SCHEMA } from '../src/dnaSchema'
+import {
+  createMetadataServer,
+  type ZombieMetadata,
+} from '../src/metadataServer'
+import { decodeZombieDna, ZombieFactory } from '../src/zombieFactory'
+import { renderZombieSvg } from '../src/zombieRenderer'
+import { connectChain } from './helpers/chain'
+
+describe('Metadata server', async function () {
+  const chain = await connectChain()
+  const zombieFactory = new ZombieFactory(
+    await chain.deployContract('ZombieFactory'),
+    { publicClient: chain.publicClient, walletClient: chain.walletClients[0] }
+  )
+  for (const name of ['Ghoul', 'Walker']) {
+    await zombieFactory.createRandomZombie(name)
+  }
+  const walker = await zombieFactory.getZombie(1n)
+
+  const server = createMetadataServer({
+    zombieFactory,
+    imageBaseUrl: 'https://cdn.example/zombies/',
+    maxAge: 60,
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const get = (path: string, init?: RequestInit) =>
+    fetch(`http://127.0.0.1:${port}${path}`, init)
+
+  after(async function () {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('Should serve the metadata of a zombie with its DNA traits', async function () {
+    const response = await get('/zombies/1')
+    const metadata: ZombieMetadata = await response.json()
+
+    const traits = decodeZombieDna(walker.dna, 1n)
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get('cache-control'), 'public, max-age=60')
+    assert.equal(metadata.name, 'Walker')
+    assert.equal(metadata.image, 'https://cdn.example/zombies/1.svg')
+    assert.deepEqual(
+      metadata.attributes,
+      LATEST_DNA_SCHEMA.traits.map((trait) => ({
+        trait_type: trait.label,
+        value: traits[trait.name],
+        ...(trait.kind === 'hue' && { display_type: 'number' }),
+      }))
+    )
+    assert.deepEqual(
+      metadata.attributes.slice(0, 3).map(({ trait_type }) => trait_type),
+      ['Head', 'Eyes', 'Shirt']
+    )
+  })
+
+  it('Should serve the image for good', async function () {
+    const response = await get('/zombies/1.svg')
+
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get('content-type'), 'image/svg+xml')
+    assert.equal(
+      response.headers.get('cache-control'),
+      'public, max-age=31536000, immutable'
+    )
+    assert.equal(
+      await response.text(),
+      renderZombieSvg({
+        ...decodeZombieDna(walker.dna, 1n),
+        zombieName: 'Walker',
+      })
+    )
+  })
+
+  it('Should answer 404, not cached, past the zombies count', async function () {
+    for (const path of ['/zombies/2', '/zombies/2.svg']) {
+      const response = await get(path)
+
+      assert.equal(response.status, 404)
+      assert.equal(response.headers.get('cache-control'), 'no-store')
+      assert.deepEqual(await response.json(), {
+        error: 'Zombie 2 does not exist',
+      })
+    }
+  })
+
+  it('Should find a zombie minted after a 404', async function () {
+    assert.equal((await get('/zombies/2')).status, 404)
+    await zombieFactory.createRandomZombie('Crawler')
+
+    const response = await get('/zombies/2')
+
+    assert.equal(response.status, 200)
+    assert.equal(((await response.json()) as ZombieMetadata).name, 'Crawler')
+  })
+
+  it('Should answer 400 to a malformed id', async function () {
+    for (const id of ['abc', '-1', '1.5', '0x1', '9'.repeat(79)]) {
+      const response = await get(`/zombies/${id}`)
+
+      assert.equal(response.status, 400, id)
+      assert.equal(response.headers.get('cache-control'), 'no-store')
+    }
+  })
+
+  it('Should only answer GET and HEAD', async function () {
+    const response = await get('/zombies/1', { method: 'POST' })
+
+    assert.equal(response.status, 405)
+    assert.equal(response.headers.get('allow'), 'GET, HEAD')
+    assert.equal((await get('/elsewhere')).status, 404)
+  })
+})
@@ -0,0 +1,173 @@
+import { createContainer } from './helpers/dom'
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describe, it } from 'node:test'
+import { act, createElement, StrictMode, type ReactNode } from 'react'
+import { createRoot } from 'react-dom/client'
+import { useZombies, ZombieStoreProvider } from '../src/react'
+import {
+  ReactiveZombieStore,
+  type ZombiePageQuery,
+} from '../src/reactiveZombieStore'
+import { ZombieFactory } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+describe('ReactiveZombieStore and hooks', async function () {
+  const chain = await connectChain()
+  const [alice, bob] = chain.walletClients
+  const address = await chain.deployContract('ZombieFactory')
+  const asAlice = new ZombieFactory(address, {
+    publicClient: chain.publicClient,
+    walletClient: alice,
+  })
+  const asBob = new ZombieFactory(address, {
+    publicClient: chain.publicClient,
+    walletClient: bob,
+  })
+  for (const name of ['Ghoul', 'Walker', 'Crawler']) {
+    await asAlice.createRandomZombie(name)
+  }
+  await asBob.createRandomZombie('Stalker')
+
+  // A store whose NewZombie watchers are counted
+  function watchedStore() {
+    const zombieFactory = new ZombieFactory(address, {
+      publicClient: chain.publicClient,
+    })
+    const watchers = { started: 0, active: 0 }
+    const watch = zombieFactory.watchNewZombieEvents.bind(zombieFactory)
+    zombieFactory.watchNewZombieEvents = (callback, onError) => {
+      watchers.started++
+      watchers.active++
+      const unwatch = watch(callback, onError)
+      return () => {
+        watchers.active--
+        unwatch()
+      }
+    }
+    return { store: new ReactiveZombieStore(zombieFactory), watchers }
+  }
+
+  function ZombieNames(query: ZombiePageQuery) {
+    const page = useZombies(query)
+    return createElement(
+      'ul',
+      null,
+      page.data?.zombies.map(({ id, name }) =>
+        createElement('li', { key: id.toString() }, name)
+      )
+    )
+  }
+
+  async function render(store: ReactiveZombieStore, children: ReactNode) {
+    const container = createContainer()
+    const root = createRoot(container)
+    await act(async () => {
+      root.render(
+        createElement(
+          StrictMode,
+          null,
+          createElement(ZombieStoreProvider, { store }, children)
+        )
+      )
+    })
+    const names = () =>
+      [...container.querySelectorAll('li')].map(
+        ({ textContent }) => textContent
+      )
+    return { root, names }
+  }
+
+  // Lets React apply what the store reads meanwhile, until `done`
+  async function waitFor(done: () => boolean, timeoutMs = 5000) {
+    const deadline = Date.now() + timeoutMs
+    while (!done()) {
+      assert.ok(Date.now() < deadline, 'Timed out')
+      await act(() => sleep(25))
+    }
+  }
+
+  it('Should keep the snapshot and untouched entries the same until they change', async function () {
+    const { store } = watchedStore()
+    const query = { limit: 2 }
+    const before = store.getSnapshot()
+    let changes = 0
+    const unsubscribe = store.subscribe(() => changes++)
+
+    assert.equal(store.getSnapshot(), before)
+    assert.equal(store.getPageState(query), store.getPageState({ limit: 2 }))
+    assert.equal(store.getPageState(query), store.getZombieState(7n))
+
+    await store.loadZombies(query)
+    const loaded = store.getSnapshot()
+    assert.equal(changes, 2)
+    assert.notEqual(loaded, before)
+    assert.equal(loaded.count, before.count)
+    assert.equal(loaded.transactions, before.transactions)
+
+    // Already loaded: nothing is read and nothing changes
+    await store.loadZombies({ ...query, offset: 0 })
+    assert.equal(changes, 2)
+    assert.equal(store.getSnapshot(), loaded)
+    unsubscribe()
+  })
+
+  it('Should keep one watcher through the StrictMode remount and stop it on unmount', async function () {
+    const { store, watchers } = watchedStore()
+
+    const { root, names } = await render(
+      store,
+      createElement(ZombieNames, { limit: 2 })
+    )
+    await waitFor(() => names().length === 2)
+
+    assert.deepEqual(watchers, { started: 1, active: 1 })
+
+    await act(async () => root.unmount())
+    // The unsubscribe waits a microtask for a resubscription
+    await Promise.resolve()
+    assert.deepEqual(watchers, { started: 1, active: 0 })
+  })
+
+  it('Should pass owner, order and cursor through to listZombies', async function () {
+    const { store } = watchedStore()
+    const owner = alice.account.address
+    const first = await asAlice.listZombies({ owner, order: 'desc', limit: 2 })
+
+    const { root, names } = await render(store, [
+      createElement(ZombieNames, {
+        key: 'first',
+        owner,
+        order: 'desc',
+        limit: 2,
+      }),
+      createElement(ZombieNames, {
+        key: 'next',
+        owner,
+        order: 'desc',
+        limit: 2,
+        cursor: first.nextCursor,
+      }),
+    ])
+    await waitFor(() => names().length === 3)
+
+    assert.deepEqual(names(), ['Crawler', 'Walker', 'Ghoul'])
+    await act(async () => root.unmount())
+  })
+
+  it('Should refresh a loaded owner page when the owner creates a zombie', async function () {
+    const { store } = watchedStore()
+    const owner = bob.account.address
+
+    const { root, names } = await render(
+      store,
+      createElement(ZombieNames, { owner, order: 'desc', limit: 2 })
+    )
+    await waitFor(() => names().length === 1)
+    await asBob.createRandomZombie('Lurker')
+
+    await waitFor(() => names().length === 2)
+    assert.deepEqual(names(), ['Lurker', 'Stalker'])
+    await act(async () => root.unmount())
+  })
+})
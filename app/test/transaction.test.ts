@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { afterEach, describe, it } from 'node:test'
+import { parseGwei, type Address, type Hash } from 'viem'
+import { waitForTransaction, type TransactionStatus } from '../src/transaction'
+import { connectChain } from './helpers/chain'
+
+describe('waitForTransaction', async function () {
+  const chain = await connectChain()
+  const [sender, recipient] = chain.walletClients
+  const from = sender.account.address
+  const to = recipient.account.address
+
+  afterEach(async function () {
+    await chain.setAutomine(true)
+  })
+
+  // Sends a transfer that stays pending until mine()
+  async function sendPending(value: bigint) {
+    await chain.setAutomine(false)
+    const nonce = await chain.publicClient.getTransactionCount({
+      address: from,
+      blockTag: 'pending',
+    })
+    const hash = await sender.sendTransaction({
+      account: sender.account,
+      chain: sender.chain,
+      to,
+      value,
+      nonce,
+      maxFeePerGas: parseGwei('10'),
+      maxPriorityFeePerGas: parseGwei('1'),
+    })
+    return { hash, nonce }
+  }
+
+  // Sends the replacement once the wait has seen the original transaction,
+  // then mines it
+  async function replace(
+    nonce: number,
+    transaction: { to: Address; value: bigint }
+  ): Promise<Hash> {
+    await sleep(300)
+    const hash = await sender.sendTransaction({
+      account: sender.account,
+      chain: sender.chain,
+      ...transaction,
+      nonce,
+      maxFeePerGas: parseGwei('20'),
+      maxPriorityFeePerGas: parseGwei('2'),
+    })
+    await chain.mine()
+    return hash
+  }
+
+  it('Should report mined then confirmed with the receipt', async function () {
+    const { hash } = await sendPending(1n)
+    const statuses: TransactionStatus['status'][] = []
+
+    const outcome = waitForTransaction(chain.publicClient, hash, {
+      confirmations: 2,
+      onStatus: ({ status }) => statuses.push(status),
+    })
+    await chain.mine(2)
+
+    const result = await outcome
+    assert.equal(result.status, 'confirmed')
+    assert.equal(
+      result.status === 'confirmed' && result.receipt.transactionHash,
+      hash
+    )
+    assert.deepEqual(statuses, ['mined', 'confirmed'])
+  })
+
+  it('Should follow a speed-up through to the new transaction', async function () {
+    const { hash, nonce } = await sendPending(2n)
+    const statuses: TransactionStatus[] = []
+
+    const outcome = waitForTransaction(chain.publicClient, hash, {
+      onStatus: (update) => statuses.push(update),
+    })
+    const replacementTxHash = await replace(nonce, { to, value: 2n })
+
+    const result = await outcome
+    assert.equal(result.status, 'confirmed')
+    assert.equal(
+      result.status === 'confirmed' && result.receipt.transactionHash,
+      replacementTxHash
+    )
+    assert.deepEqual(statuses[0], {
+      status: 'replaced',
+      txHash: hash,
+      replacementTxHash,
+      reason: 'repriced',
+    })
+  })
+
+  it('Should end as cancelled when the nonce is spent on a 0 ETH self-transfer', async function () {
+    const { hash, nonce } = await sendPending(3n)
+
+    const outcome = waitForTransaction(chain.publicClient, hash)
+    const replacementTxHash = await replace(nonce, { to: from, value: 0n })
+
+    assert.deepEqual(await outcome, {
+      status: 'replaced',
+      txHash: hash,
+      replacementTxHash,
+      reason: 'cancelled',
+    })
+  })
+
+  it('Should end as replaced when another transaction takes the nonce', async function () {
+    const { hash, nonce } = await sendPending(4n)
+    const statuses: TransactionStatus['status'][] = []
+
+    const outcome = waitForTransaction(chain.publicClient, hash, {
+      onStatus: ({ status }) => statuses.push(status),
+    })
+    const replacementTxHash = await replace(nonce, { to, value: 5n })
+
+    assert.deepEqual(await outcome, {
+      status: 'replaced',
+      txHash: hash,
+      replacementTxHash,
+      reason: 'replaced',
+    })
+    assert.deepEqual(statuses, ['replaced'])
+  })
+})
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describe, it } from 'node:test'
+import { getAddress } from 'viem'
+import { ZombieError } from '../src/errors'
+import { ZombieFactory, type ZombieTransferEvent } from '../src/zombieFactory'
+import { connectChain } from './helpers/chain'
+
+describe('ZombieFactory transfers', async function () {
+  const chain = await connectChain()
+  const [alice, bob, carol] = chain.walletClients
+  const [aliceAddress, bobAddress, carolAddress] = chain.walletClients.map(
+    // Checksummed, as viem decodes event and error arguments
+    ({ account }) => getAddress(account.address)
+  )
+
+  // One contract, with a client for each account
+  async function deploy() {
+    const address = await chain.deployContract('ZombieFactory')
+    const [asAlice, asBob] = [alice, bob].map(
+      (walletClient) =>
+        new ZombieFactory(address, {
+          publicClient: chain.publicClient,
+          walletClient,
+        })
+    )
+    const created = await asAlice.createRandomZombie('Ghoul')
+    assert.equal(created.status, 'confirmed')
+    return { asAlice, asBob, zombieId: created.zombieId }
+  }
+
+  function ids(zombies: { id: bigint }[]) {
+    return zombies.map(({ id }) => id)
+  }
+
+  it('Should transfer a zombie to another account', async function () {
+    const { asAlice, zombieId } = await deploy()
+
+    const result = await asAlice.transfer(bobAddress, zombieId)
+
+    assert.equal(result.status, 'confirmed')
+    assert.deepEqual(ids(await asAlice.getZombiesByOwner(aliceAddress)), [])
+    assert.deepEqual(ids(await asAlice.getZombiesByOwner(bobAddress)), [
+      zombieId,
+    ])
+  })
+
+  it('Should let an approved account transfer the zombie', async function () {
+    const { asAlice, asBob, zombieId } = await deploy()
+
+    assert.equal(
+      (await asAlice.approve(bobAddress, zombieId)).status,
+      'confirmed'
+    )
+    const result = await asBob.transferFrom(
+      aliceAddress,
+      carolAddress,
+      zombieId
+    )
+
+    assert.equal(result.status, 'confirmed')
+    assert.deepEqual(ids(await asBob.getZombiesByOwner(carolAddress)), [
+      zombieId,
+    ])
+    // The approval went with the zombie
+    await assert.rejects(
+      asBob.transferFrom(carolAddress, bobAddress, zombieId),
+      (error) =>
+        error instanceof ZombieError &&
+        error.details.kind === 'CONTRACT_REVERTED' &&
+        error.details.errorName === 'ERC721InsufficientApproval'
+    )
+  })
+
+  it('Should throw CONTRACT_REVERTED when a non-owner transfers a zombie', async function () {
+    const { asAlice, asBob, zombieId } = await deploy()
+
+    await assert.rejects(asBob.transfer(bobAddress, zombieId), (error) => {
+      assert.ok(error instanceof ZombieError)
+      assert.equal(error.details.kind, 'CONTRACT_REVERTED')
+      assert.equal(error.details.errorName, 'ERC721IncorrectOwner')
+      assert.deepEqual(error.details.args, [bobAddress, zombieId, aliceAddress])
+      return true
+    })
+    assert.deepEqual(ids(await asAlice.getZombiesByOwner(aliceAddress)), [
+      zombieId,
+    ])
+  })
+
+  it('Should pass each transfer to the watcher', async function () {
+    const { asAlice, zombieId } = await deploy()
+    const events: ZombieTransferEvent[] = []
+    const errors: ZombieError[] = []
+    const unwatch = asAlice.watchTransferEvents(
+      (event) => events.push(event),
+      (error) => errors.push(error),
+      { from: aliceAddress }
+    )
+
+    try {
+      // Let the watcher take its starting block before the transfer
+      await sleep(200)
+      await asAlice.transfer(bobAddress, zombieId)
+      while (events.length < 1 && errors.length < 1) await sleep(20)
+    } finally {
+      unwatch()
+    }
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(events, [{ from: aliceAddress, to: bobAddress, zombieId }])
+  })
+})
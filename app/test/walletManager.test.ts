@@ -0,0 +1,408 @@
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'node:events'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describe, it } from 'node:test'
+import {
+  getAddress,
+  numberToHex,
+  type Address,
+  type EIP1193Provider,
+} from 'viem'
+import { mainnet, sepolia } from 'viem/chains'
+import { isZombieError } from '../src/errors'
+import {
+  WalletManager,
+  type WalletInfo,
+  type WalletStorage,
+} from '../src/walletManager'
+
+const ALICE = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+const BOB = '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
+
+type Handler = (params: unknown) => unknown
+
+// An EIP-1193 wallet played from a script: it knows mainnet and whatever
+// chain it is on, and `overrides` replace any answer
+class FakeWallet extends EventEmitter {
+  calls: { method: string; params: unknown }[] = []
+  overrides: Record<string, Handler> = {}
+  knownChains: Set<number>
+
+  constructor(
+    public accounts: Address[] = [ALICE],
+    public chainId: number = mainnet.id
+  ) {
+    super()
+    this.knownChains = new Set([mainnet.id, chainId])
+  }
+
+  get provider(): EIP1193Provider {
+    return this as unknown as EIP1193Provider
+  }
+
+  methods(): string[] {
+    return this.calls.map(({ method }) => method)
+  }
+
+  async request({ method, params }: { method: string; params?: unknown }) {
+    this.calls.push({ method, params })
+    const override = this.overrides[method]
+    if (override) return override(params)
+
+    switch (method) {
+      case 'eth_requestAccounts':
+      case 'eth_accounts':
+        return this.accounts
+      case 'eth_chainId':
+        return numberToHex(this.chainId)
+      case 'wallet_switchEthereumChain': {
+        const chainId = Number((params as [{ chainId: string }])[0].chainId)
+        if (!this.knownChains.has(chainId)) {
+          throw { code: 4902, message: 'Unrecognized chain ID' }
+        }
+        this.moveTo(chainId)
+        return null
+      }
+      case 'wallet_addEthereumChain': {
+        // Like MetaMask, adding the chain also switches to it
+        const chainId = Number((params as [{ chainId: string }])[0].chainId)
+        this.knownChains.add(chainId)
+        this.moveTo(chainId)
+        return null
+      }
+      case 'wallet_revokePermissions':
+        return null
+    }
+    throw { code: 4200, message: `${method} is not supported` }
+  }
+
+  moveTo(chainId: number) {
+    this.chainId = chainId
+    this.emit('chainChanged', numberToHex(chainId))
+  }
+}
+
+function walletInfo(rdns: string): WalletInfo {
+  return { uuid: `uuid-${rdns}`, name: rdns, icon: 'data:,', rdns }
+}
+
+// Announces the wallet now and on every request, as EIP-6963 wallets do
+function announce(target: EventTarget, wallet: FakeWallet, rdns: string) {
+  const dispatch = () =>
+    target.dispatchEvent(
+      new CustomEvent('eip6963:announceProvider', {
+        detail: { info: walletInfo(rdns), provider: wallet.provider },
+      })
+    )
+  target.addEventListener('eip6963:requestProvider', dispatch)
+  dispatch()
+}
+
+function memoryStorage(): WalletStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  }
+}
+
+function createManager(
+  options: { target?: EventTarget; storage?: WalletStorage } = {}
+) {
+  const target = options.target ?? new EventTarget()
+  const storage = options.storage ?? memoryStorage()
+  const manager = new WalletManager({ chain: sepolia, target, storage })
+  return { manager, target, storage }
+}
+
+describe('WalletManager', function () {
+  describe('discover', function () {
+    it('Should list the wallets that answer the request, and the late ones', async function () {
+      const { manager, target } = createManager()
+      const metaMask = new FakeWallet()
+      announce(target, metaMask, 'io.metamask')
+      announce(target, metaMask, 'io.metamask')
+
+      const first = manager.discover()
+      const rabby = new FakeWallet()
+      announce(target, rabby, 'io.rabby')
+
+      assert.deepEqual(
+        first.map(({ info }) => info.rdns),
+        ['io.metamask']
+      )
+      assert.deepEqual(
+        manager.getState().wallets.map(({ info }) => info.rdns),
+        ['io.metamask', 'io.rabby']
+      )
+    })
+
+    it('Should list window.ethereum last, unless a wallet announced it', function () {
+      const target = new EventTarget()
+      const legacy = new FakeWallet()
+      const announced = new FakeWallet()
+      announce(target, announced, 'io.metamask')
+
+      const withLegacy = new WalletManager({
+        chain: sepolia,
+        target,
+        storage: memoryStorage(),
+        injectedProvider: legacy.provider,
+      })
+      const withAnnounced = new WalletManager({
+        chain: sepolia,
+        target,
+        storage: memoryStorage(),
+        injectedProvider: announced.provider,
+      })
+
+      assert.deepEqual(
+        withLegacy.discover().map(({ info }) => info.rdns),
+        ['io.metamask', 'injected']
+      )
+      assert.deepEqual(
+        withAnnounced.discover().map(({ info }) => info.rdns),
+        ['io.metamask']
+      )
+    })
+  })
+
+  describe('connect', function () {
+    it('Should connect to the wallet asked for and remember it', async function () {
+      const { manager, target, storage } = createManager()
+      const wallet = new FakeWallet([ALICE], sepolia.id)
+      announce(target, new FakeWallet([BOB]), 'io.metamask')
+      announce(target, wallet, 'io.rabby')
+
+      const account = await manager.connect('io.rabby')
+
+      assert.equal(account, getAddress(ALICE))
+      assert.deepEqual(wallet.methods(), ['eth_requestAccounts', 'eth_chainId'])
+      assert.equal(storage.getItem('zombies:lastWallet'), 'io.rabby')
+      assert.deepEqual(
+        { ...manager.getState(), wallets: undefined },
+        {
+          wallets: undefined,
+          status: 'connected',
+          wallet: walletInfo('io.rabby'),
+          account: getAddress(ALICE),
+          chainId: sepolia.id,
+          wrongChain: false,
+        }
+      )
+    })
+
+    it('Should throw a rejected prompt as USER_REJECTED and stay disconnected', async function () {
+      const { manager, target, storage } = createManager()
+      const wallet = new FakeWallet()
+      wallet.overrides.eth_requestAccounts = () => {
+        throw { code: 4001, message: 'User rejected the request.' }
+      }
+      announce(target, wallet, 'io.metamask')
+
+      await assert.rejects(manager.connect(), (error) =>
+        isZombieError(error, 'USER_REJECTED')
+      )
+      assert.equal(manager.getState().status, 'disconnected')
+      assert.equal(storage.getItem('zombies:lastWallet'), null)
+    })
+
+    it('Should throw NO_WALLET for a wallet that did not announce itself', async function () {
+      const { manager } = createManager()
+
+      await assert.rejects(manager.connect('io.metamask'), (error) =>
+        isZombieError(error, 'NO_WALLET')
+      )
+    })
+  })
+
+  describe('wallet events', function () {
+    async function connected() {
+      const { manager, target, storage } = createManager()
+      const wallet = new FakeWallet([ALICE], sepolia.id)
+      announce(target, wallet, 'io.metamask')
+      await manager.connect()
+      return { manager, wallet, storage }
+    }
+
+    it('Should follow accountsChanged with a new wallet client', async function () {
+      const { manager, wallet } = await connected()
+      const before = manager.getWalletClient()
+
+      wallet.emit('accountsChanged', [BOB])
+
+      assert.equal(manager.getState().account, getAddress(BOB))
+      const after = manager.getWalletClient()
+      assert.notEqual(after, before)
+      assert.equal(after.account?.address, getAddress(BOB))
+    })
+
+    it('Should flag the wrong chain on chainChanged', async function () {
+      const { manager, wallet } = await connected()
+      const states: boolean[] = []
+      manager.subscribe(({ wrongChain }) => states.push(wrongChain))
+
+      wallet.moveTo(mainnet.id)
+      wallet.moveTo(sepolia.id)
+
+      assert.deepEqual(states, [true, false])
+      assert.equal(manager.getState().chainId, sepolia.id)
+    })
+
+    it('Should forget the wallet once it drops every account', async function () {
+      const { manager, wallet, storage } = await connected()
+
+      wallet.emit('accountsChanged', [])
+
+      assert.equal(manager.getState().status, 'disconnected')
+      assert.equal(storage.getItem('zombies:lastWallet'), null)
+      assert.equal(wallet.listenerCount('chainChanged'), 0)
+    })
+
+    it('Should keep the wallet for reconnect() after a disconnect event', async function () {
+      const { manager, wallet, storage } = await connected()
+
+      wallet.emit('disconnect', { code: 4900, message: 'Disconnected' })
+
+      assert.equal(manager.getState().status, 'disconnected')
+      assert.equal(manager.getState().account, undefined)
+      assert.equal(storage.getItem('zombies:lastWallet'), 'io.metamask')
+      assert.equal(wallet.listenerCount('accountsChanged'), 0)
+    })
+  })
+
+  describe('switchChain', function () {
+    async function onMainnet(wallet: FakeWallet) {
+      const { manager, target } = createManager()
+      announce(target, wallet, 'io.metamask')
+      await manager.connect()
+      assert.equal(manager.getState().wrongChain, true)
+      return manager
+    }
+
+    it('Should switch to a chain the wallet knows', async function () {
+      const wallet = new FakeWallet()
+      wallet.knownChains.add(sepolia.id)
+      const manager = await onMainnet(wallet)
+
+      await manager.switchChain()
+
+      assert.equal(manager.getState().wrongChain, false)
+      assert.ok(!wallet.methods().includes('wallet_addEthereumChain'))
+    })
+
+    for (const [label, error] of [
+      ['4902', { code: 4902, message: 'Unrecognized chain ID' }],
+      [
+        '4902 nested by a mobile wallet',
+        { code: -32603, data: { originalError: { code: 4902 } } },
+      ],
+    ] as const) {
+      it(`Should add the chain when switching fails with ${label}`, async function () {
+        const wallet = new FakeWallet()
+        const manager = await onMainnet(wallet)
+        wallet.overrides.wallet_switchEthereumChain = () => {
+          throw error
+        }
+
+        await manager.switchChain()
+
+        const added = wallet.calls.find(
+          ({ method }) => method === 'wallet_addEthereumChain'
+        )
+        assert.deepEqual(added?.params, [
+          {
+            chainId: numberToHex(sepolia.id),
+            chainName: sepolia.name,
+            nativeCurrency: sepolia.nativeCurrency,
+            rpcUrls: sepolia.rpcUrls.default.http,
+            blockExplorerUrls: [sepolia.blockExplorers.default.url],
+          },
+        ])
+        assert.equal(manager.getState().chainId, sepolia.id)
+        assert.equal(manager.getState().wrongChain, false)
+      })
+    }
+
+    it('Should throw WRONG_CHAIN when the wallet stays where it was', async function () {
+      const wallet = new FakeWallet()
+      wallet.knownChains.add(sepolia.id)
+      const manager = await onMainnet(wallet)
+      // Answers, but does not move
+      wallet.overrides.wallet_switchEthereumChain = () => null
+
+      await assert.rejects(
+        manager.switchChain(),
+        (error) =>
+          isZombieError(error, 'WRONG_CHAIN') &&
+          error.details.kind === 'WRONG_CHAIN' &&
+          error.details.chainId === mainnet.id
+      )
+    })
+  })
+
+  describe('reconnect', function () {
+    it('Should restore the last wallet without a prompt, even if it announces late', async function () {
+      const storage = memoryStorage()
+      storage.setItem('zombies:lastWallet', 'io.rabby')
+      const { manager, target } = createManager({ storage })
+      const wallet = new FakeWallet([ALICE], sepolia.id)
+      announce(target, new FakeWallet([BOB]), 'io.metamask')
+
+      const reconnected = manager.reconnect(500)
+      await sleep(20)
+      announce(target, wallet, 'io.rabby')
+
+      assert.equal(await reconnected, true)
+      assert.equal(manager.getState().account, getAddress(ALICE))
+      assert.deepEqual(wallet.methods(), ['eth_accounts', 'eth_chainId'])
+    })
+
+    it('Should forget a wallet that no longer shares its accounts', async function () {
+      const storage = memoryStorage()
+      storage.setItem('zombies:lastWallet', 'io.metamask')
+      const { manager, target } = createManager({ storage })
+      announce(target, new FakeWallet([]), 'io.metamask')
+
+      assert.equal(await manager.reconnect(), false)
+      assert.equal(manager.getState().status, 'disconnected')
+      assert.equal(storage.getItem('zombies:lastWallet'), null)
+    })
+
+    it('Should give up when the last wallet never shows up', async function () {
+      const storage = memoryStorage()
+      storage.setItem('zombies:lastWallet', 'io.metamask')
+      const { manager } = createManager({ storage })
+
+      assert.equal(await manager.reconnect(20), false)
+      assert.equal(storage.getItem('zombies:lastWallet'), 'io.metamask')
+    })
+
+    it('Should do nothing without a last wallet', async function () {
+      const { manager, target } = createManager()
+      const wallet = new FakeWallet()
+      announce(target, wallet, 'io.metamask')
+
+      assert.equal(await manager.reconnect(), false)
+      assert.deepEqual(wallet.calls, [])
+    })
+  })
+
+  it('Should forget the wallet and revoke the permission on disconnect()', async function () {
+    const { manager, target, storage } = createManager()
+    const wallet = new FakeWallet([ALICE], sepolia.id)
+    announce(target, wallet, 'io.metamask')
+    await manager.connect()
+
+    await manager.disconnect()
+
+    assert.equal(manager.getState().status, 'disconnected')
+    assert.equal(storage.getItem('zombies:lastWallet'), null)
+    assert.deepEqual(wallet.calls.at(-1), {
+      method: 'wallet_revokePermissions',
+      params: [{ eth_accounts: {} }],
+    })
+  })
+})
@@ -0,0 +1,336 @@
+import { createContainer } from './helpers/dom'
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { describe, it } from 'node:test'
+import { createWalletClient, custom, type EIP1193Parameters } from 'viem'
+import { hardhat } from 'viem/chains'
+import { ZombieError } from '../src/errors'
+import type { TransactionStatus } from '../src/transaction'
+import {
+  defineZombieElements,
+  type ZombieCardElement,
+  type ZombieCreateFormElement,
+  type ZombieElementEventMap,
+} from '../src/zombieElements'
+import { decodeZombieDna, ZombieFactory } from '../src/zombieFactory'
+import { validateZombieName } from '../src/zombieName'
+import { connectChain, type TestWalletClient } from './helpers/chain'
+
+// No default factory: each element is given its own
+defineZombieElements()
+
+// Resolves with the next `type` event that reaches the document
+function nextEvent<K extends keyof ZombieElementEventMap>(type: K) {
+  return new Promise<ZombieElementEventMap[K]>((resolve) =>
+    document.addEventListener(type, resolve, { once: true })
+  )
+}
+
+// Every `type` event that reaches the document, until stop()
+function recordEvents<K extends keyof ZombieElementEventMap>(type: K) {
+  const details: ZombieElementEventMap[K]['detail'][] = []
+  const listener = (event: ZombieElementEventMap[K]) =>
+    details.push(event.detail)
+  document.addEventListener(type, listener)
+  return {
+    details,
+    stop: () => document.removeEventListener(type, listener),
+  }
+}
+
+function part<E extends Element = HTMLElement>(
+  element: Element,
+  name: string
+): E {
+  return element.shadowRoot!.querySelector<E>(`[part~='${name}']`)!
+}
+
+describe('Zombie elements', async function () {
+  const chain = await connectChain()
+  const [walletClient] = chain.walletClients
+
+  async function deploy(client: TestWalletClient = walletClient) {
+    return new ZombieFactory(await chain.deployContract('ZombieFactory'), {
+      publicClient: chain.publicClient,
+      walletClient: client,
+    })
+  }
+
+  // The same account, in a wallet where the user rejects every transaction
+  const rejectingWallet = createWalletClient({
+    chain: hardhat,
+    account: walletClient.account.address,
+    transport: custom({
+      async request({ method, params }: EIP1193Parameters) {
+        if (method === 'eth_sendTransaction') {
+          throw { code: 4001, message: 'User rejected the request.' }
+        }
+        return chain.provider.request({ method, params } as never)
+      },
+    }),
+  }) as TestWalletClient
+
+  describe('<zombie-create-form>', function () {
+    function form(zombieFactory?: ZombieFactory) {
+      const element = document.createElement('zombie-create-form')
+      element.zombieFactory = zombieFactory
+      createContainer().append(element)
+      return element
+    }
+
+    function submit(element: ZombieCreateFormElement, name: string) {
+      part<HTMLInputElement>(element, 'input').value = name
+      part<HTMLFormElement>(element, 'form').requestSubmit()
+    }
+
+    // After the event, the form still clears `pending` in a finally block
+    async function settled<T>(event: Promise<T>): Promise<T> {
+      const result = await event
+      await sleep(0)
+      return result
+    }
+
+    it('Should refuse a name the contract would reject without a transaction', async function () {
+      const zombieFactory = await deploy()
+      const element = form(zombieFactory)
+      const statuses = recordEvents('zombie-status')
+
+      submit(element, 'Two  spaces')
+      await sleep(0)
+      statuses.stop()
+
+      const input = part(element, 'input')
+      assert.equal(input.getAttribute('aria-invalid'), 'true')
+      assert.equal(part(element, 'status').getAttribute('part'), 'status error')
+      const validation = validateZombieName('Two  spaces')
+      assert.ok(!validation.valid)
+      assert.equal(part(element, 'status').textContent, validation.message)
+      assert.equal(element.pending, false)
+      assert.deepEqual(statuses.details, [])
+      assert.equal(await zombieFactory.getZombiesCount(), 0n)
+
+      input.dispatchEvent(new window.Event('input'))
+      assert.equal(input.hasAttribute('aria-invalid'), false)
+    })
+
+    it('Should refuse a taken name, case folded, before the wallet is asked', async function () {
+      const zombieFactory = await deploy()
+      await zombieFactory.createRandomZombie('Ghoul')
+      const element = form(zombieFactory)
+
+      submit(element, ' GHOUL ')
+      while (element.pending || !part(element, 'status').textContent) {
+        await sleep(10)
+      }
+
+      assert.equal(
+        part(element, 'status').textContent,
+        'GHOUL is already taken'
+      )
+      assert.equal(part(element, 'input').getAttribute('aria-invalid'), 'true')
+      assert.equal(await zombieFactory.getZombiesCount(), 1n)
+    })
+
+    it('Should stay pending through each step and dispatch zombie-created', async function () {
+      const zombieFactory = await deploy()
+      const element = form(zombieFactory)
+      const button = part<HTMLButtonElement>(element, 'button')
+      const steps: [TransactionStatus['status'], string, boolean][] = []
+      const onStatus = (event: ZombieElementEventMap['zombie-status']) =>
+        steps.push([
+          event.detail.status,
+          part(element, 'status').textContent!,
+          element.pending && button.disabled,
+        ])
+      document.addEventListener('zombie-status', onStatus)
+
+      const created = settled(nextEvent('zombie-created'))
+      submit(element, 'Walker')
+      const { detail } = await created
+      document.removeEventListener('zombie-status', onStatus)
+
+      assert.deepEqual(
+        steps.map(([status]) => status),
+        ['signing', 'submitted', 'mined', 'confirmed']
+      )
+      assert.equal(steps[0][1], 'Confirm in your wallet…')
+      assert.ok(steps.every(([, , pending]) => pending))
+      assert.equal(detail.name, 'Walker')
+      assert.equal(detail.zombieId, 0n)
+      assert.equal(part(element, 'status').textContent, 'Zombie #0 created')
+      assert.equal(part<HTMLInputElement>(element, 'input').value, '')
+      assert.equal(element.pending, false)
+      assert.equal(button.disabled, false)
+    })
+
+    it('Should show the failure and dispatch zombie-error when the user rejects', async function () {
+      const zombieFactory = await deploy(rejectingWallet)
+      const element = form(zombieFactory)
+
+      const failed = settled(nextEvent('zombie-error'))
+      submit(element, 'Crawler')
+      const { detail } = await failed
+
+      assert.ok(detail instanceof ZombieError)
+      assert.equal(detail.kind, 'USER_REJECTED')
+      assert.equal(part(element, 'status').textContent, detail.message)
+      assert.equal(part(element, 'status').getAttribute('part'), 'status error')
+      assert.equal(element.pending, false)
+      assert.equal(part<HTMLButtonElement>(element, 'button').disabled, false)
+      assert.equal(part<HTMLInputElement>(element, 'input').value, 'Crawler')
+    })
+
+    it('Should dispatch zombie-error without a ZombieFactory', async function () {
+      const element = form()
+
+      const failed = nextEvent('zombie-error')
+      submit(element, 'Lurker')
+      const { detail } = await failed
+
+      assert.equal(detail.kind, 'UNKNOWN')
+      assert.equal(element.pending, false)
+    })
+  })
+
+  describe('<zombie-card>', function () {
+    function card(zombieFactory: ZombieFactory, zombieId?: string) {
+      const element = document.createElement('zombie-card')
+      element.zombieFactory = zombieFactory
+      if (zombieId !== undefined) element.setAttribute('zombie-id', zombieId)
+      createContainer().append(element)
+      return element
+    }
+
+    function shown(element: ZombieCardElement) {
+      const cells = [...element.shadowRoot!.querySelectorAll('dt, dd')].map(
+        ({ textContent }) => textContent
+      )
+      return {
+        name: part(element, 'name').textContent,
+        dna: part(element, 'dna').textContent,
+        traits: cells,
+        image: part(element, 'image').innerHTML,
+      }
+    }
+
+    it('Should read the zombie and render its picture, DNA and traits', async function () {
+      const zombieFactory = await deploy()
+      const created = await zombieFactory.createRandomZombie('Ghoul')
+      assert.equal(created.status, 'confirmed')
+
+      const loaded = nextEvent('zombie-load')
+      const element = card(zombieFactory, '0')
+      assert.ok(element.hasAttribute('loading'))
+      const { detail } = await loaded
+
+      const traits = decodeZombieDna(created.dna, 0n)
+      assert.deepEqual(detail, { id: 0n, name: 'Ghoul', dna: created.dna })
+      const { name, dna, traits: cells, image } = shown(element)
+      assert.equal(name, 'Ghoul')
+      assert.equal(dna, created.dna.toString().padStart(16, '0'))
+      assert.deepEqual(cells.slice(0, 4), [
+        'Head',
+        `${traits.headChoice} / 7`,
+        'Eyes',
+        `${traits.eyeChoice} / 11`,
+      ])
+      assert.deepEqual(cells.slice(6, 8), [
+        'Skin Hue',
+        `${traits.skinColorChoice}°`,
+      ])
+      assert.equal(cells.length, 12)
+      assert.match(image, /^<svg/)
+      assert.equal(element.hasAttribute('loading'), false)
+    })
+
+    it('Should show a given zombie without reading it', async function () {
+      const zombieFactory = await deploy()
+      zombieFactory.getZombie = () => assert.fail('read the zombie')
+      const element = card(zombieFactory)
+
+      element.zombie = { id: 4n, name: 'Walker', dna: 1_234_567_890_123_400n }
+
+      assert.equal(element.getAttribute('zombie-id'), '4')
+      assert.equal(shown(element).name, 'Walker')
+      assert.equal(shown(element).dna, '1234567890123400')
+
+      element.zombie = undefined
+      assert.deepEqual(shown(element), {
+        name: '',
+        dna: '',
+        traits: [],
+        image: '',
+      })
+    })
+
+    it('Should show an error for a bad zombie-id or a missing zombie', async function () {
+      const zombieFactory = await deploy()
+      const element = card(zombieFactory, 'abc')
+
+      assert.equal(
+        part(element, 'status').textContent,
+        'Invalid zombie-id: abc'
+      )
+      assert.equal(part(element, 'status').getAttribute('part'), 'status error')
+
+      const failed = nextEvent('zombie-error')
+      element.setAttribute('zombie-id', '7')
+      const { detail } = await failed
+
+      assert.ok(detail instanceof ZombieError)
+      assert.equal(part(element, 'status').textContent, detail.message)
+      assert.equal(shown(element).name, '')
+    })
+  })
+
+  describe('<zombie-feed>', function () {
+    it('Should add a card per new zombie, newest first, trimmed to limit', async function () {
+      const zombieFactory = await deploy()
+      const element = document.createElement('zombie-feed')
+      element.setAttribute('limit', '2')
+      element.zombieFactory = zombieFactory
+      createContainer().append(element)
+      const added = recordEvents('zombie-new')
+
+      const names = ['Ghoul', 'Walker', 'Crawler']
+      for (const name of names) await zombieFactory.createRandomZombie(name)
+      while (added.details.length < names.length) await sleep(20)
+      added.stop()
+
+      const cards = () =>
+        [...part(element, 'list').querySelectorAll('zombie-card')].map(
+          (card) => card.zombie?.name
+        )
+      assert.deepEqual(
+        added.details.map(({ name }) => name),
+        names
+      )
+      assert.deepEqual(cards(), ['Crawler', 'Walker'])
+
+      element.setAttribute('limit', '1')
+      assert.deepEqual(cards(), ['Crawler'])
+      // Stops its watcher, which would keep the process alive
+      element.remove()
+    })
+
+    it('Should stop watching once removed from the page', async function () {
+      const zombieFactory = await deploy()
+      const element = document.createElement('zombie-feed')
+      element.zombieFactory = zombieFactory
+      createContainer().append(element)
+      const added = recordEvents('zombie-new')
+
+      await zombieFactory.createRandomZombie('Ghoul')
+      while (added.details.length < 1) await sleep(20)
+      element.remove()
+      await zombieFactory.createRandomZombie('Walker')
+      await sleep(300)
+      added.stop()
+
+      assert.deepEqual(
+        added.details.map(({ name }) => name),
+        ['Ghoul']
+      )
+    })
+  })
+})
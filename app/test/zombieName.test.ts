@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { BaseError, ContractFunctionRevertedError } from 'viem'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { ZombieFactory } from '../src/zombieFactory'
+import { MAX_NAME_LENGTH, validateZombieName } from '../src/zombieName'
+import { connectChain } from './helpers/chain'
+
+const VALID = [
+  'Ghoul',
+  'a',
+  '7',
+  'Zombie 42',
+  'ghoul-walker_2',
+  'x'.repeat(MAX_NAME_LENGTH),
+]
+
+const INVALID = [
+  '',
+  'x'.repeat(MAX_NAME_LENGTH + 1),
+  // 2 bytes each: too long in bytes, not in characters
+  'é'.repeat(MAX_NAME_LENGTH / 2 + 1),
+  ' Ghoul',
+  'Ghoul-',
+  'Two  spaces',
+  'Mixed-_separators',
+  'Tab\tname',
+  'semi;colon',
+  'Zoé',
+  '日本',
+  'Brain 🧟',
+]
+
+describe('Zombie names in the app and the contract', async function () {
+  const chain = await connectChain()
+  const [walletClient] = chain.walletClients
+  const address = await chain.deployContract('ZombieFactory')
+  const zombieFactory = new ZombieFactory(address, {
+    publicClient: chain.publicClient,
+    walletClient,
+  })
+
+  // What _nameKey makes of `name`: accepted, or its revert
+  async function contractVerdict(name: string) {
+    try {
+      await chain.publicClient.simulateContract({
+        address,
+        abi: ZombieFactoryAbi,
+        functionName: 'createRandomZombie',
+        args: [name],
+        account: walletClient.account,
+      })
+      return { valid: true }
+    } catch (error) {
+      const reverted =
+        error instanceof BaseError &&
+        error.walk((cause) => cause instanceof ContractFunctionRevertedError)
+      if (!(reverted instanceof ContractFunctionRevertedError)) throw error
+      return {
+        valid: false,
+        errorName: reverted.data?.errorName,
+        args: reverted.data?.args,
+      }
+    }
+  }
+
+  // The same verdict from validateZombieName, as the contract would put it
+  function appVerdict(name: string) {
+    const validation = validateZombieName(name)
+    if (validation.valid) return { valid: true }
+    return validation.reason === 'length'
+      ? {
+          valid: false,
+          errorName: 'InvalidNameLength',
+          args: [BigInt(validation.length)],
+        }
+      : {
+          valid: false,
+          errorName: 'InvalidNameCharacter',
+          args: [BigInt(validation.index)],
+        }
+  }
+
+  it('Should accept and refuse the same names, for the same reasons', async function () {
+    for (const name of [...VALID, ...INVALID]) {
+      assert.deepEqual(
+        appVerdict(name),
+        await contractVerdict(name),
+        JSON.stringify(name)
+      )
+    }
+    assert.ok(INVALID.every((name) => !validateZombieName(name).valid))
+  })
+
+  it('Should compute the nameTaken key of the contract', async function () {
+    for (const name of VALID) {
+      const validation = validateZombieName(name)
+      assert.ok(validation.valid)
+
+      await zombieFactory.createRandomZombie(name)
+
+      assert.equal(
+        await chain.publicClient.readContract({
+          address,
+          abi: ZombieFactoryAbi,
+          functionName: 'nameTaken',
+          args: [validation.key],
+        }),
+        true,
+        name
+      )
+    }
+  })
+
+  it('Should fold the case like the contract, which then refuses the name', async function () {
+    await zombieFactory.createRandomZombie('Walker')
+
+    assert.deepEqual(validateZombieName('WALKER'), validateZombieName('walker'))
+    assert.deepEqual(await contractVerdict('WALKER'), {
+      valid: false,
+      errorName: 'NameTaken',
+      args: ['WALKER'],
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import { describe, it, type TestContext } from 'node:test'
+import { DNA_SCHEMAS } from '../src/dnaSchema'
+import { decodeZombieDna, type ZombieTraits } from '../src/zombieFactory'
+import { renderZombieSvg, ZOMBIE_PARTS } from '../src/zombieRenderer'
+
+// Choice 1 of every part and the base hues: each case changes one trait
+const BASE: ZombieTraits = {
+  headChoice: 1,
+  eyeChoice: 1,
+  shirtChoice: 1,
+  skinColorChoice: 0,
+  eyeColorChoice: 0,
+  clothesColorChoice: 0,
+}
+
+const range = (count: number) =>
+  Array.from({ length: count }, (_, index) => index + 1)
+
+// The SVG as it is in the snapshot file, not JSON-quoted. Refresh them with
+// `npx tsx --test --test-update-snapshots test/zombieRenderer.test.ts`
+function assertSvgSnapshot(t: TestContext, svg: string) {
+  t.assert.snapshot(svg, { serializers: [(value) => value as string] })
+}
+
+describe('renderZombieSvg', function () {
+  for (const headChoice of range(ZOMBIE_PARTS.heads)) {
+    it(`Should draw head ${headChoice}`, function (t) {
+      assertSvgSnapshot(t, renderZombieSvg({ ...BASE, headChoice }))
+    })
+  }
+
+  for (const eyeChoice of range(ZOMBIE_PARTS.eyes)) {
+    it(`Should draw eyes ${eyeChoice}`, function (t) {
+      assertSvgSnapshot(t, renderZombieSvg({ ...BASE, eyeChoice }))
+    })
+  }
+
+  for (const shirtChoice of range(ZOMBIE_PARTS.shirts)) {
+    it(`Should draw shirt ${shirtChoice}`, function (t) {
+      assertSvgSnapshot(t, renderZombieSvg({ ...BASE, shirtChoice }))
+    })
+  }
+
+  for (const dna of [0n, 9_999_999_999_999_999n]) {
+    it(`Should draw DNA ${dna}`, function (t) {
+      assertSvgSnapshot(t, renderZombieSvg(decodeZombieDna(dna, 0n)))
+    })
+  }
+
+  it('Should give the same bytes for the same DNA', function () {
+    const dna = 4_821_379_560_213_748n
+    const first = renderZombieSvg(decodeZombieDna(dna, 0n), { size: 96 })
+
+    assert.equal(renderZombieSvg(decodeZombieDna(dna, 0n), { size: 96 }), first)
+    // Digits 10-11 are the clothes hue
+    assert.notEqual(
+      renderZombieSvg(decodeZombieDna(dna + 10n ** 4n, 0n), { size: 96 }),
+      first
+    )
+  })
+
+  it('Should have a variant for every value the DNA schemas allow', function () {
+    const parts = {
+      headChoice: ZOMBIE_PARTS.heads,
+      eyeChoice: ZOMBIE_PARTS.eyes,
+      shirtChoice: ZOMBIE_PARTS.shirts,
+    }
+
+    for (const { traits } of DNA_SCHEMAS) {
+      for (const trait of traits) {
+        if (trait.kind !== 'variant') continue
+        assert.equal(parts[trait.name as keyof typeof parts], trait.variants)
+      }
+    }
+  })
+
+  it('Should escape the name in the title', function () {
+    const svg = renderZombieSvg({ ...BASE, zombieName: 'Bob <&> "Jr"' })
+
+    assert.match(svg, /<title>Bob &lt;&amp;&gt; &quot;Jr&quot;<\/title>/)
+  })
+
+  it('Should refuse a choice outside the parts', function () {
+    assert.throws(
+      () => renderZombieSvg({ ...BASE, eyeChoice: ZOMBIE_PARTS.eyes + 1 }),
+      RangeError
+    )
+    assert.throws(() => renderZombieSvg({ ...BASE, headChoice: 0 }), RangeError)
+  })
+})
@@ -0,0 +1,371 @@
+import 'fake-indexeddb/auto'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { after, describe, it } from 'node:test'
+import { getAddress, type Address, type Hash } from 'viem'
+import { ZombieFactoryAbi } from '../src/contracts/ZombieFactory.abi'
+import { FileZombieStore } from '../src/fileZombieStore'
+import { IndexedDbZombieStore } from '../src/indexedDbZombieStore'
+import { ZombieIndexer, type IndexedTransfer } from '../src/indexer'
+import {
+  applyQuery,
+  MemoryZombieStore,
+  toStoredZombie,
+  type StoredZombie,
+  type ZombieQuery,
+  type ZombieSortKey,
+  type ZombieStore,
+} from '../src/zombieStore'
+import { connectChain } from './helpers/chain'
+
+const ALICE = getAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8')
+const BOB = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')
+const CAROL = getAddress('0x90f79bf6eb2c4f970365e785d35ebd23dbd2cb1e')
+
+const TX_HASH: Hash = `0x${'ab'.repeat(32)}`
+const NAMES = ['Ghoul', 'walker', 'Crawler', 'bob', 'Bob', 'alice', 'Zed']
+
+// Twelve zombies, three per block from block 100, owned by Alice and Bob in
+// turns. Two are called Bob, in different cases, to check name ties
+const ZOMBIES: StoredZombie[] = Array.from({ length: 12 }, (_, index) =>
+  toStoredZombie({
+    zombieId: BigInt(index),
+    name: `${NAMES[index % NAMES.length]}${index < NAMES.length ? '' : index}`,
+    dna: (BigInt(index) * 1_234_567_890_123n) % 10n ** 16n,
+    owner: index % 2 === 0 ? ALICE : BOB,
+    blockNumber: 100n + BigInt(Math.floor(index / 3)),
+    blockHash: TX_HASH,
+    txHash: TX_HASH,
+    logIndex: 0,
+  })
+)
+
+// The expected order, worked out apart from the stores
+function sortedIds(
+  zombies: StoredZombie[],
+  sortBy: ZombieSortKey,
+  order: 'asc' | 'desc'
+): bigint[] {
+  const sorted = [...zombies].sort((a, b) => {
+    const byKey =
+      sortBy === 'name'
+        ? a.name.localeCompare(b.name)
+        : Number(a[sortBy] - b[sortBy])
+    return byKey !== 0 ? byKey : Number(a.id - b.id)
+  })
+  if (order === 'desc') sorted.reverse()
+  return sorted.map(({ id }) => id)
+}
+
+// Follows nextCursor to the end, checking every page but the last is full
+async function readAllPages(
+  store: ZombieStore,
+  query: ZombieQuery
+): Promise<bigint[]> {
+  const ids: bigint[] = []
+  let cursor: string | undefined
+  do {
+    const page = await store.query({ ...query, cursor })
+    if (page.nextCursor) assert.equal(page.zombies.length, query.limit)
+    ids.push(...page.zombies.map(({ id }) => id))
+    cursor = page.nextCursor
+  } while (cursor)
+  return ids
+}
+
+function transfer(
+  zombieId: bigint,
+  from: Address,
+  to: Address
+): IndexedTransfer {
+  return {
+    zombieId,
+    from,
+    to,
+    blockNumber: 200n,
+    blockHash: TX_HASH,
+    txHash: TX_HASH,
+    logIndex: 0,
+  }
+}
+
+interface StoreFactory {
+  name: string
+  create(): ZombieStore
+  // A second instance over the same data, as after a restart
+  reopen?(store: ZombieStore): ZombieStore
+}
+
+const dir = await mkdtemp(path.join(tmpdir(), 'zombie-store-'))
+let count = 0
+const filePaths = new WeakMap<ZombieStore, string>()
+const dbNames = new WeakMap<ZombieStore, string>()
+
+const factories: StoreFactory[] = [
+  { name: 'MemoryZombieStore', create: () => new MemoryZombieStore() },
+  {
+    name: 'FileZombieStore',
+    create() {
+      const filePath = path.join(dir, `zombies-${count++}.json`)
+      const store = new FileZombieStore(filePath)
+      filePaths.set(store, filePath)
+      return store
+    },
+    reopen: (store) => new FileZombieStore(filePaths.get(store)!),
+  },
+  {
+    name: 'IndexedDbZombieStore',
+    create() {
+      const dbName = `zombies-${count++}`
+      const store = new IndexedDbZombieStore(dbName)
+      dbNames.set(store, dbName)
+      return store
+    },
+    reopen: (store) => new IndexedDbZombieStore(dbNames.get(store)!),
+  },
+]
+
+after(async function () {
+  await rm(dir, { recursive: true, force: true })
+})
+
+for (const factory of factories) {
+  describe(factory.name, function () {
+    async function seeded(): Promise<ZombieStore> {
+      const store = factory.create()
+      // Out of order, as a store cannot count on insertion order
+      await store.put([...ZOMBIES].reverse())
+      return store
+    }
+
+    for (const sortBy of ['id', 'name', 'blockNumber'] as const) {
+      for (const order of ['asc', 'desc'] as const) {
+        it(`Should page by cursor sorted by ${sortBy} ${order}`, async function () {
+          const store = await seeded()
+
+          assert.deepEqual(
+            await readAllPages(store, { sortBy, order, limit: 5 }),
+            sortedIds(ZOMBIES, sortBy, order)
+          )
+        })
+      }
+    }
+
+    it('Should page through filtered ranges', async function () {
+      const store = await seeded()
+      const inRange = ZOMBIES.filter(
+        ({ id, blockNumber }) => id >= 2n && id <= 9n && blockNumber <= 102n
+      )
+
+      assert.deepEqual(
+        await readAllPages(store, {
+          id: { min: 2n, max: 9n },
+          blockNumber: { max: 102n },
+          sortBy: 'blockNumber',
+          order: 'desc',
+          limit: 2,
+        }),
+        sortedIds(inRange, 'blockNumber', 'desc')
+      )
+      assert.deepEqual(
+        await readAllPages(store, { id: { max: 3n }, order: 'desc', limit: 2 }),
+        [3n, 2n, 1n, 0n]
+      )
+    })
+
+    it('Should list the zombies of an owner, in any address case', async function () {
+      const store = await seeded()
+
+      const page = await store.query({
+        owner: BOB.toLowerCase() as Address,
+        sortBy: 'blockNumber',
+        order: 'desc',
+        limit: 4,
+      })
+
+      assert.deepEqual(
+        page.zombies.map(({ id }) => id),
+        [11n, 9n, 7n, 5n]
+      )
+      assert.deepEqual(await readAllPages(store, { owner: BOB, limit: 4 }), [
+        1n,
+        3n,
+        5n,
+        7n,
+        9n,
+        11n,
+      ])
+    })
+
+    it('Should move zombies to their new owner, in order', async function () {
+      const store = await seeded()
+
+      await store.applyTransfers([
+        transfer(0n, ALICE, BOB),
+        transfer(0n, BOB, CAROL),
+        transfer(1n, BOB, CAROL),
+        transfer(99n, ALICE, CAROL),
+      ])
+
+      assert.deepEqual(
+        (await store.query({ owner: CAROL })).zombies.map(({ id }) => id),
+        [0n, 1n]
+      )
+      assert.equal((await store.get(0n))?.owner, CAROL)
+      assert.equal(await store.get(99n), undefined)
+      assert.equal(
+        (await store.query({ owner: ALICE })).zombies.some(
+          ({ id }) => id === 0n
+        ),
+        false
+      )
+    })
+
+    it('Should give zombies the owners read from the contract', async function () {
+      const store = await seeded()
+      await store.applyTransfers([transfer(0n, ALICE, BOB)])
+
+      await store.setOwners([
+        { zombieId: 0n, owner: ALICE },
+        { zombieId: 99n, owner: CAROL },
+      ])
+
+      assert.equal((await store.get(0n))?.owner, ALICE)
+      assert.equal(await store.get(99n), undefined)
+      assert.ok(
+        (await store.query({ owner: ALICE })).zombies.some(
+          ({ id }) => id === 0n
+        )
+      )
+    })
+
+    it('Should drop the zombies created from a block on', async function () {
+      const store = await seeded()
+
+      await store.removeFromBlock(102n)
+
+      assert.equal(await store.count(), 6)
+      assert.deepEqual(
+        (await store.query({ order: 'desc', limit: 1 })).zombies.map(
+          ({ id }) => id
+        ),
+        [5n]
+      )
+    })
+
+    it('Should keep the checkpoint until cleared', async function () {
+      const store = await seeded()
+      const checkpoint = { blockNumber: 103n, blockHash: TX_HASH }
+
+      await store.checkpoints.save(checkpoint)
+      assert.deepEqual(await store.checkpoints.load(), checkpoint)
+
+      await store.clear()
+      assert.equal(await store.checkpoints.load(), undefined)
+      assert.equal(await store.count(), 0)
+    })
+
+    if (factory.reopen) {
+      const reopen = factory.reopen
+      it('Should find zombies, owners and checkpoint after a restart', async function () {
+        const store = await seeded()
+        const checkpoint = { blockNumber: 103n, blockHash: TX_HASH }
+        await store.checkpoints.save(checkpoint)
+        await store.applyTransfers([transfer(4n, ALICE, CAROL)])
+
+        const restarted = reopen(store)
+
+        assert.equal(await restarted.count(), ZOMBIES.length)
+        assert.deepEqual(await restarted.get(4n), {
+          ...ZOMBIES[4],
+          owner: CAROL,
+        })
+        assert.deepEqual(await restarted.checkpoints.load(), checkpoint)
+      })
+    }
+  })
+}
+
+describe('applyQuery', function () {
+  it('Should resume after the cursor even once its zombie is gone', function () {
+    const first = applyQuery(ZOMBIES, { sortBy: 'name', limit: 4 })
+    const last = first.zombies[3]
+
+    const next = applyQuery(
+      ZOMBIES.filter(({ id }) => id !== last.id),
+      { sortBy: 'name', limit: 4, cursor: first.nextCursor }
+    )
+
+    assert.deepEqual(
+      [...first.zombies, ...next.zombies].map(({ id }) => id),
+      sortedIds(ZOMBIES, 'name', 'asc').slice(0, 8)
+    )
+  })
+
+  it('Should end on a full last page without a cursor', function () {
+    const page = applyQuery(ZOMBIES, { limit: ZOMBIES.length })
+
+    assert.equal(page.zombies.length, ZOMBIES.length)
+    assert.equal(page.nextCursor, undefined)
+  })
+})
+
+describe('ZombieIndexer with a store', async function () {
+  const chain = await connectChain()
+
+  it('Should give the store each owner, through mints and transfers', async function () {
+    const [alice, bob] = chain.walletClients
+    const address = await chain.deployContract('ZombieFactory')
+    for (const [walletClient, name] of [
+      [alice, 'Ghoul'],
+      [bob, 'Walker'],
+    ] as const) {
+      await chain.publicClient.waitForTransactionReceipt({
+        hash: await walletClient.writeContract({
+          address,
+          abi: ZombieFactoryAbi,
+          functionName: 'createRandomZombie',
+          args: [name],
+          account: walletClient.account,
+          chain: walletClient.chain,
+        }),
+      })
+    }
+    await chain.publicClient.waitForTransactionReceipt({
+      hash: await alice.writeContract({
+        address,
+        abi: ZombieFactoryAbi,
+        functionName: 'transferFrom',
+        args: [alice.account.address, bob.account.address, 0n],
+        account: alice.account,
+        chain: alice.chain,
+      }),
+    })
+
+    const store = new MemoryZombieStore()
+    await new ZombieIndexer({
+      publicClient: chain.publicClient,
+      address,
+      fromBlock: 0n,
+      checkpointStore: store.checkpoints,
+      onZombies: (zombies) => store.put(zombies.map(toStoredZombie)),
+      onTransfers: (transfers) => store.applyTransfers(transfers),
+    }).sync()
+
+    assert.deepEqual(
+      (await store.query({ owner: bob.account.address })).zombies.map(
+        ({ id, name }) => [id, name]
+      ),
+      [
+        [0n, 'Ghoul'],
+        [1n, 'Walker'],
+      ]
+    )
+    assert.equal(
+      (await store.query({ owner: alice.account.address })).zombies.length,
+      0
+    )
+  })
+})
@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+/// @notice Implemented by contracts that accept tokens from safeTransferFrom
+interface IERC721Receiver {
+  function onERC721Received(
+    address operator,
+    address from,
+    uint tokenId,
+    bytes calldata data
+  ) external returns (bytes4);
+}
+
+/// @title ERC721
+/// @notice ERC-721 ownership, transfers and approvals, with ERC-165
+/// @dev Minting is up to the inheriting contract, through _mint. Failures use
+/// the ERC-6093 custom errors, which the app decodes by name
+abstract contract ERC721 {
+  event Transfer(address indexed from, address indexed to, uint indexed tokenId);
+  event Approval(
+    address indexed owner,
+    address indexed approved,
+    uint indexed tokenId
+  );
+  event ApprovalForAll(
+    address indexed owner,
+    address indexed operator,
+    bool approved
+  );
+
+  error ERC721InvalidOwner(address owner);
+  error ERC721NonexistentToken(uint tokenId);
+  error ERC721IncorrectOwner(address sender, uint tokenId, address owner);
+  error ERC721InsufficientApproval(address operator, uint tokenId);
+  error ERC721InvalidReceiver(address receiver);
+  error ERC721InvalidApprover(address approver);
+  error ERC721InvalidOperator(address operator);
+
+  mapping(uint => address) private _owners;
+  mapping(address => uint) private _balances;
+  mapping(uint => address) private _tokenApprovals;
+  mapping(address => mapping(address => bool)) private _operatorApprovals;
+
+  function supportsInterface(bytes4 interfaceId) public pure returns (bool) {
+    return
+      interfaceId == 0x01ffc9a7 || // ERC-165
+      interfaceId == 0x80ac58cd; // ERC-721
+  }
+
+  function balanceOf(address owner) public view returns (uint) {
+    if (owner == address(0)) revert ERC721InvalidOwner(address(0));
+    return _balances[owner];
+  }
+
+  function ownerOf(uint tokenId) public view returns (address) {
+    address owner = _owners[tokenId];
+    if (owner == address(0)) revert ERC721NonexistentToken(tokenId);
+    return owner;
+  }
+
+  function getApproved(uint tokenId) public view returns (address) {
+    ownerOf(tokenId);
+    return _tokenApprovals[tokenId];
+  }
+
+  function isApprovedForAll(
+    address owner,
+    address operator
+  ) public view returns (bool) {
+    return _operatorApprovals[owner][operator];
+  }
+
+  /// @notice Lets `to` transfer `tokenId` once; address(0) clears it. The
+  /// owner or one of its operators can approve
+  function approve(address to, uint tokenId) public {
+    address owner = ownerOf(tokenId);
+    if (msg.sender != owner && !isApprovedForAll(owner, msg.sender)) {
+      revert ERC721InvalidApprover(msg.sender);
+    }
+    _tokenApprovals[tokenId] = to;
+    emit Approval(owner, to, tokenId);
+  }
+
+  /// @notice Lets `operator` transfer and approve every token of the sender
+  function setApprovalForAll(address operator, bool approved) public {
+    if (operator == address(0)) revert ERC721InvalidOperator(address(0));
+    _operatorApprovals[msg.sender][operator] = approved;
+    emit ApprovalForAll(msg.sender, operator, approved);
+  }
+
+  /// @notice Moves `tokenId` without checking that a contract `to` can
+  /// handle it; prefer safeTransferFrom
+  function transferFrom(address from, address to, uint tokenId) public {
+    if (to == address(0)) revert ERC721InvalidReceiver(address(0));
+    address owner = ownerOf(tokenId);
+    if (owner != from) revert ERC721IncorrectOwner(from, tokenId, owner);
+    if (
+      msg.sender != owner &&
+      !isApprovedForAll(owner, msg.sender) &&
+      _tokenApprovals[tokenId] != msg.sender
+    ) {
+      revert ERC721InsufficientApproval(msg.sender, tokenId);
+    }
+
+    delete _tokenApprovals[tokenId];
+    _balances[from] -= 1;
+    _balances[to] += 1;
+    _owners[tokenId] = to;
+    emit Transfer(from, to, tokenId);
+  }
+
+  function safeTransferFrom(address from, address to, uint tokenId) public {
+    safeTransferFrom(from, to, tokenId, "");
+  }
+
+  /// @notice Like transferFrom, but reverts if `to` is a contract that does
+  /// not accept ERC-721 tokens
+  function safeTransferFrom(
+    address from,
+    address to,
+    uint tokenId,
+    bytes memory data
+  ) public {
+    transferFrom(from, to, tokenId);
+    _checkOnERC721Received(from, to, tokenId, data);
+  }
+
+  /// @dev `tokenId` must not exist yet
+  function _mint(address to, uint tokenId) internal {
+    if (to == address(0)) revert ERC721InvalidReceiver(address(0));
+    _balances[to] += 1;
+    _owners[tokenId] = to;
+    emit Transfer(address(0), to, tokenId);
+  }
+
+  function _checkOnERC721Received(
+    address from,
+    address to,
+    uint tokenId,
+    bytes memory data
+  ) private {
+    if (to.code.length == 0) return;
+
+    try
+      IERC721Receiver(to).onERC721Received(msg.sender, from, tokenId, data)
+    returns (bytes4 selector) {
+      if (selector != IERC721Receiver.onERC721Received.selector) {
+        revert ERC721InvalidReceiver(to);
+      }
+    } catch (bytes memory reason) {
+      if (reason.length == 0) revert ERC721InvalidReceiver(to);
+      // Bubble up the receiver's own revert
+      assembly {
+        revert(add(reason, 32), mload(reason))
+      }
+    }
+  }
+}
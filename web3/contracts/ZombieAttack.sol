@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+import {ZombieFeeding} from "./ZombieFeeding.sol";
+
+/// @title ZombieAttack
+/// @notice The game loop: zombies attack each other, winners level up and
+/// multiply, and anyone can pay LEVEL_UP_FEE to level a zombie up
+contract ZombieAttack is ZombieFeeding {
+  /// @notice The attacker won: it gained a level, and the loser's DNA gave
+  /// the attacker's owner zombie `newZombieId`
+  event AttackWon(
+    uint indexed zombieId,
+    uint indexed targetId,
+    uint newZombieId
+  );
+  event AttackLost(uint indexed zombieId, uint indexed targetId);
+  /// @notice Emitted on every level change, paid or won
+  event LevelUp(uint indexed zombieId, uint level);
+
+  error NotZombieOwner(address sender, uint zombieId);
+  error CannotAttackItself(uint zombieId);
+  error IncorrectLevelUpFee(uint sent, uint fee);
+  error WithdrawFailed();
+
+  /// @notice Chances out of 100 that the attacker wins
+  uint public constant ATTACK_VICTORY_PROBABILITY = 70;
+  uint public constant LEVEL_UP_FEE = 0.001 ether;
+
+  /// @notice Receives the level-up fees, through withdraw
+  address payable public immutable treasury;
+
+  uint private randNonce;
+
+  constructor(address _kittyContract) ZombieFeeding(_kittyContract) {
+    treasury = payable(msg.sender);
+  }
+
+  /// @notice Fights `_targetId` with a ready zombie of the sender. Win or
+  /// lose, the attacker goes on cooldown
+  function attack(uint _zombieId, uint _targetId) external {
+    if (ownerOf(_zombieId) != msg.sender) {
+      revert NotZombieOwner(msg.sender, _zombieId);
+    }
+    ownerOf(_targetId);
+    if (_zombieId == _targetId) revert CannotAttackItself(_zombieId);
+    _requireReady(_zombieId);
+
+    Zombie storage myZombie = zombies[_zombieId];
+    Zombie storage enemyZombie = zombies[_targetId];
+    if (_roll() < ATTACK_VICTORY_PROBABILITY) {
+      myZombie.winCount++;
+      myZombie.level++;
+      enemyZombie.lossCount++;
+      uint newZombieId = _multiply(_zombieId, enemyZombie.dna, ZOMBIE_SPECIES);
+      emit LevelUp(_zombieId, myZombie.level);
+      emit AttackWon(_zombieId, _targetId, newZombieId);
+    } else {
+      myZombie.lossCount++;
+      enemyZombie.winCount++;
+      emit AttackLost(_zombieId, _targetId);
+    }
+    _triggerCooldown(_zombieId);
+  }
+
+  /// @notice Levels any zombie up, for exactly LEVEL_UP_FEE
+  function levelUp(uint _zombieId) external payable {
+    ownerOf(_zombieId);
+    if (msg.value != LEVEL_UP_FEE) {
+      revert IncorrectLevelUpFee(msg.value, LEVEL_UP_FEE);
+    }
+    zombies[_zombieId].level++;
+    emit LevelUp(_zombieId, zombies[_zombieId].level);
+  }
+
+  /// @notice Sends the collected fees to the treasury. Anyone can call it
+  function withdraw() external {
+    (bool sent, ) = treasury.call{value: address(this).balance}("");
+    if (!sent) revert WithdrawFailed();
+  }
+
+  /// @dev 0 to 99. Validators can sway it, which is fine for a game but not
+  /// for real stakes. Tests override it (mocks/ZombieAttackMock.sol)
+  function _roll() internal virtual returns (uint) {
+    randNonce++;
+    return
+      uint(keccak256(abi.encodePacked(block.timestamp, msg.sender, randNonce))) %
+      100;
+  }
+}
@@ -1,23 +1,81 @@
 // SPDX-License-Identifier: Unlicense
 pragma solidity ^0.8.28;
 
-contract ZombieFactory {
+import {ERC721} from "./ERC721.sol";
+
+/// @notice Every zombie is an ERC-721 token, its id being its index in
+/// `zombies`, owned by whoever created it
+/// @dev The last two DNA digits are the species marker: 00 for the zombies
+/// created here, see ZombieFeeding for the others.
+/// Names chosen by players follow a policy, checked by _claimName: 1 to
+/// MAX_NAME_LENGTH bytes of ASCII letters and digits, with single spaces,
+/// hyphens or underscores between them, unique regardless of case
+contract ZombieFactory is ERC721 {
   event NewZombie(uint zombieId, string name, uint dna);
+  event ZombieCommitted(
+    address indexed owner,
+    bytes32 indexed commitment,
+    uint revealBlock
+  );
+
+  error UnknownCommitment(bytes32 commitment);
+  error RevealTooEarly(uint revealBlock);
+  error CommitmentExpired(uint revealBlock);
+  error InvalidNameLength(uint length);
+  error InvalidNameCharacter(uint index);
+  error NameTaken(string name);
+
+  /// @notice Longest name, in bytes
+  uint public constant MAX_NAME_LENGTH = 32;
+  /// @dev Given to the zombies born from feeding and battles, and reserved
+  string internal constant OFFSPRING_NAME = "NoName";
+
+  /// @notice Blocks from a commitment to the block whose hash seeds its DNA
+  uint public constant REVEAL_DELAY = 2;
+  /// @notice Blocks after that one during which the reveal stays possible:
+  /// contracts cannot read older block hashes
+  uint public constant REVEAL_WINDOW = 256;
 
   uint dnaDigits = 16;
   uint dnaModulus = 10 ** dnaDigits;
+  uint cooldownTime = 1 days;
 
+  /// @dev readyTime is a unix timestamp: new zombies are ready right away
   struct Zombie {
     string name;
     uint dna;
+    uint32 level;
+    uint32 readyTime;
+    uint16 winCount;
+    uint16 lossCount;
   }
 
   Zombie[] public zombies;
 
-  function _createZombie(string memory _name, uint _dna) private {
+  /// @notice Who created each zombie. Unlike the owner, it never changes
+  mapping(uint => address) public zombieToCreator;
+
+  /// @notice Block each pending commitment of an account was made in, 0 once
+  /// revealed or if there is none
+  mapping(address => mapping(bytes32 => uint)) public commitments;
+
+  /// @notice Whether a name is used, by keccak256 of its lowercase bytes
+  mapping(bytes32 => bool) public nameTaken;
+
+  constructor() {
+    nameTaken[_nameKey(OFFSPRING_NAME)] = true;
+  }
+
+  function _createZombie(
+    string memory _name,
+    uint _dna
+  ) internal returns (uint) {
     uint id = zombies.length;
-    zombies.push(Zombie(_name, _dna));
+    zombies.push(Zombie(_name, _dna, 1, uint32(block.timestamp), 0, 0));
+    zombieToCreator[id] = msg.sender;
+    _mint(msg.sender, id);
     emit NewZombie(id, _name, _dna);
+    return id;
   }
 
   function _generateRandomDna(string memory _str) private view returns (uint) {
@@ -25,12 +83,103 @@ contract ZombieFactory {
     return rand % dnaModulus;
   }
 
+  /// @dev Checks `_name` against the name policy and marks it as used
+  function _claimName(string memory _name) internal {
+    bytes32 key = _nameKey(_name);
+    if (nameTaken[key]) revert NameTaken(_name);
+    nameTaken[key] = true;
+  }
+
+  /// @dev keccak256 of the lowercase name, after checking its length and
+  /// characters
+  function _nameKey(string memory _name) internal pure returns (bytes32) {
+    bytes memory name = bytes(_name);
+    if (name.length == 0 || name.length > MAX_NAME_LENGTH) {
+      revert InvalidNameLength(name.length);
+    }
+
+    bytes memory folded = new bytes(name.length);
+    for (uint i = 0; i < name.length; i++) {
+      bytes1 char = name[i];
+      if (char >= "A" && char <= "Z") {
+        folded[i] = bytes1(uint8(char) + 32);
+        continue;
+      }
+      folded[i] = char;
+      if ((char >= "a" && char <= "z") || (char >= "0" && char <= "9")) {
+        continue;
+      }
+      bool isSeparator = char == " " || char == "-" || char == "_";
+      // Separators go between two letters or digits
+      if (
+        !isSeparator ||
+        i == 0 ||
+        i == name.length - 1 ||
+        folded[i - 1] == " " ||
+        folded[i - 1] == "-" ||
+        folded[i - 1] == "_"
+      ) {
+        revert InvalidNameCharacter(i);
+      }
+    }
+    return keccak256(folded);
+  }
+
   function createRandomZombie(string memory _name) public {
+    _claimName(_name);
     uint randDna = _generateRandomDna(_name);
+    randDna = randDna - (randDna % 100);
     _createZombie(_name, randDna);
   }
 
+  /// @notice First step of the commit-reveal mint, which unlike
+  /// createRandomZombie gives DNA nobody can predict from the name.
+  /// `_commitment` is keccak256(abi.encode(name, secret)), the secret being
+  /// 32 random bytes kept off-chain until the reveal. Committing the same
+  /// hash again restarts it
+  function commitZombie(bytes32 _commitment) external {
+    commitments[msg.sender][_commitment] = block.number;
+    emit ZombieCommitted(msg.sender, _commitment, block.number + REVEAL_DELAY);
+  }
+
+  /// @notice Mints the committed zombie, after its reveal block and at most
+  /// REVEAL_WINDOW blocks later. Its DNA mixes the secret with the hash of
+  /// the reveal block, which was unknown when committing. The name is only
+  /// checked and claimed here
+  function revealZombie(string memory _name, bytes32 _secret) external {
+    bytes32 commitment = keccak256(abi.encode(_name, _secret));
+    uint committedAt = commitments[msg.sender][commitment];
+    if (committedAt == 0) revert UnknownCommitment(commitment);
+    uint revealBlock = committedAt + REVEAL_DELAY;
+    if (block.number <= revealBlock) revert RevealTooEarly(revealBlock);
+    if (block.number > revealBlock + REVEAL_WINDOW) {
+      revert CommitmentExpired(revealBlock);
+    }
+
+    delete commitments[msg.sender][commitment];
+    _claimName(_name);
+    uint dna = uint(keccak256(abi.encode(_secret, blockhash(revealBlock)))) %
+      dnaModulus;
+    _createZombie(_name, dna - (dna % 100));
+  }
+
   function getZombiesCount() public view returns (uint) {
     return zombies.length;
   }
+
+  /// @notice Ids of the zombies `_owner` has, in creation order
+  /// @dev Scans every zombie: free to call, but not for use in transactions
+  function getZombiesByOwner(
+    address _owner
+  ) external view returns (uint[] memory) {
+    uint[] memory result = new uint[](balanceOf(_owner));
+    uint counter = 0;
+    for (uint i = 0; i < zombies.length && counter < result.length; i++) {
+      if (ownerOf(i) == _owner) {
+        result[counter] = i;
+        counter++;
+      }
+    }
+    return result;
+  }
 }
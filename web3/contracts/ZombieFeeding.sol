@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+import {ZombieFactory} from "./ZombieFactory.sol";
+
+/// @notice The part of the CryptoKitties contract zombies feed on
+interface KittyInterface {
+  function getKitty(
+    uint256 _id
+  )
+    external
+    view
+    returns (
+      bool isGestating,
+      bool isReady,
+      uint256 cooldownIndex,
+      uint256 nextActionAt,
+      uint256 siringWithId,
+      uint256 birthTime,
+      uint256 matronId,
+      uint256 sireId,
+      uint256 generation,
+      uint256 genes
+    );
+}
+
+/// @title ZombieFeeding
+/// @notice Zombies feed on kitties and multiply: the offspring's DNA is the
+/// average of the zombie's and the kitty's, with the kitty species marker.
+/// Feeding puts the zombie on cooldown
+contract ZombieFeeding is ZombieFactory {
+  error NotZombieCreator(address sender, uint zombieId);
+  error ZombieNotReady(uint zombieId, uint readyTime);
+
+  /// @notice Last two DNA digits of the zombies born from another zombie
+  uint public constant ZOMBIE_SPECIES = 0;
+  /// @notice Last two DNA digits of the zombies born from a kitty
+  uint public constant KITTY_SPECIES = 99;
+
+  KittyInterface public immutable kittyContract;
+
+  /// @param _kittyContract CryptoKitties, or KittyMock on local networks
+  constructor(address _kittyContract) {
+    kittyContract = KittyInterface(_kittyContract);
+  }
+
+  /// @notice Creates a zombie with the DNA of `_zombieId` blended with the
+  /// kitty's genes, for the sender. Only the zombie's creator can feed it,
+  /// once it is ready
+  function feedOnKitty(uint _zombieId, uint _kittyId) external {
+    (, , , , , , , , , uint kittyDna) = kittyContract.getKitty(_kittyId);
+    _feedAndMultiply(_zombieId, kittyDna, KITTY_SPECIES);
+  }
+
+  function _feedAndMultiply(
+    uint _zombieId,
+    uint _targetDna,
+    uint _species
+  ) internal {
+    ownerOf(_zombieId);
+    if (zombieToCreator[_zombieId] != msg.sender) {
+      revert NotZombieCreator(msg.sender, _zombieId);
+    }
+    _requireReady(_zombieId);
+
+    _multiply(_zombieId, _targetDna, _species);
+    _triggerCooldown(_zombieId);
+  }
+
+  /// @dev Mints the offspring of `_zombieId` to the sender, without any check
+  function _multiply(
+    uint _zombieId,
+    uint _targetDna,
+    uint _species
+  ) internal returns (uint) {
+    uint newDna = (zombies[_zombieId].dna + (_targetDna % dnaModulus)) / 2;
+    newDna = newDna - (newDna % 100) + _species;
+    return _createZombie(OFFSPRING_NAME, newDna);
+  }
+
+  function _requireReady(uint _zombieId) internal view {
+    uint readyTime = zombies[_zombieId].readyTime;
+    if (readyTime > block.timestamp) {
+      revert ZombieNotReady(_zombieId, readyTime);
+    }
+  }
+
+  function _triggerCooldown(uint _zombieId) internal {
+    zombies[_zombieId].readyTime = uint32(block.timestamp + cooldownTime);
+  }
+}
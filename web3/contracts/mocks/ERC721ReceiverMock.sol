@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+import {IERC721Receiver} from "../ERC721.sol";
+
+/// @notice Test double for safeTransferFrom: accepts tokens, answers with the
+/// wrong selector, or reverts, depending on `behavior`
+contract ERC721ReceiverMock is IERC721Receiver {
+  enum Behavior {
+    Accept,
+    WrongSelector,
+    Revert
+  }
+
+  event Received(address operator, address from, uint tokenId, bytes data);
+
+  Behavior public behavior;
+
+  constructor(Behavior _behavior) {
+    behavior = _behavior;
+  }
+
+  function onERC721Received(
+    address operator,
+    address from,
+    uint tokenId,
+    bytes calldata data
+  ) external returns (bytes4) {
+    if (behavior == Behavior.Revert) revert("ERC721ReceiverMock: rejected");
+    emit Received(operator, from, tokenId, data);
+    if (behavior == Behavior.WrongSelector) return 0xdeadbeef;
+    return IERC721Receiver.onERC721Received.selector;
+  }
+}
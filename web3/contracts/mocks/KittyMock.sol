@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+import {KittyInterface} from "../ZombieFeeding.sol";
+
+/// @notice Stand-in for CryptoKitties on local networks: kitties are
+/// whatever genes were set for them, and getKitty reverts for the others
+contract KittyMock is KittyInterface {
+  error KittyNotFound(uint256 id);
+
+  mapping(uint256 => uint256) private _genes;
+
+  function setKitty(uint256 _id, uint256 _kittyGenes) external {
+    require(_kittyGenes != 0, "KittyMock: genes must not be zero");
+    _genes[_id] = _kittyGenes;
+  }
+
+  function getKitty(
+    uint256 _id
+  )
+    external
+    view
+    returns (
+      bool,
+      bool,
+      uint256,
+      uint256,
+      uint256,
+      uint256,
+      uint256,
+      uint256,
+      uint256,
+      uint256
+    )
+  {
+    uint256 genes = _genes[_id];
+    if (genes == 0) revert KittyNotFound(_id);
+    // Ready, generation 0, no parents
+    return (false, true, 0, 0, 0, 0, 0, 0, 0, genes);
+  }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.28;
+
+import {ZombieAttack} from "../ZombieAttack.sol";
+
+/// @notice ZombieAttack with deterministic odds: every attack rolls
+/// `nextRoll`, so 0 always wins and 99 always loses
+contract ZombieAttackMock is ZombieAttack {
+  uint public nextRoll;
+
+  constructor(address _kittyContract) ZombieAttack(_kittyContract) {}
+
+  function setNextRoll(uint _nextRoll) external {
+    nextRoll = _nextRoll;
+  }
+
+  function _roll() internal view override returns (uint) {
+    return nextRoll;
+  }
+}
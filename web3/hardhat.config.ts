@@ -1,8 +1,57 @@
 import hardhatToolboxViemPlugin from '@nomicfoundation/hardhat-toolbox-viem'
-import { configVariable, defineConfig } from 'hardhat/config'
+import { configVariable, defineConfig, task } from 'hardhat/config'
+import { ArgumentType } from 'hardhat/types/arguments'
 
 export default defineConfig({
   plugins: [hardhatToolboxViemPlugin],
+  tasks: [
+    task('generate-abis', 'Generate the ABI modules and typed wrappers')
+      .addFlag({
+        name: 'check',
+        description: 'Fail if a checked-in ABI differs from the compiled one',
+      })
+      .setAction(() => import('./tasks/generate-abis.js'))
+      .build(),
+    task(
+      'generate-registry',
+      'Generate the chainId → network and deployed address registry'
+    )
+      .addFlag({
+        name: 'check',
+        description: 'Fail if the checked-in registry is out of date',
+      })
+      .setAction(() => import('./tasks/generate-registry.js'))
+      .build(),
+    task(
+      'dev',
+      'Start a local node with ZombieAttack deployed and zombies seeded'
+    )
+      .addOption({
+        name: 'zombies',
+        description:
+          'How many zombies to seed, with generated names (100,000 at most)',
+        type: ArgumentType.INT,
+        defaultValue: 10,
+      })
+      .addOption({
+        name: 'names',
+        description: 'Comma-separated names to seed instead',
+        defaultValue: '',
+      })
+      .addOption({
+        name: 'accounts',
+        description: 'How many of the funded accounts create the zombies',
+        type: ArgumentType.INT,
+        defaultValue: 4,
+      })
+      .addFlag({
+        name: 'reset',
+        description:
+          'Deploy and seed a new ZombieAttack on a node that has one',
+      })
+      .setAction(() => import('./tasks/dev.js'))
+      .build(),
+  ],
   solidity: {
     profiles: {
       default: {
@@ -28,9 +77,17 @@ export default defineConfig({
       type: 'edr-simulated',
       chainType: 'op',
     },
+    // `npx hardhat node`, and `npx hardhat dev` which starts one
+    localhost: {
+      type: 'http',
+      chainType: 'l1',
+      chainId: 31337,
+      url: 'http://127.0.0.1:8545',
+    },
     sepolia: {
       type: 'http',
       chainType: 'l1',
+      chainId: 11155111,
       url: configVariable('SEPOLIA_RPC_URL'),
       accounts: [configVariable('SEPOLIA_PRIVATE_KEY')],
     },
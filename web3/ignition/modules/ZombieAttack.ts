@@ -0,0 +1,9 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+// The whole game, with KittyMock as its kitty contract, for local networks
+export default buildModule('ZombieAttackModule', (m) => {
+  const kittyMock = m.contract('KittyMock')
+  const zombieAttack = m.contract('ZombieAttack', [kittyMock])
+
+  return { kittyMock, zombieAttack }
+})
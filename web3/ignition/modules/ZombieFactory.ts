@@ -0,0 +1,7 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('ZombieFactoryModule', (m) => {
+  const zombieFactory = m.contract('ZombieFactory')
+
+  return { zombieFactory }
+})
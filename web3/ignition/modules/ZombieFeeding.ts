@@ -0,0 +1,9 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+// ZombieFeeding with KittyMock as its kitty contract, for local networks
+export default buildModule('ZombieFeedingModule', (m) => {
+  const kittyMock = m.contract('KittyMock')
+  const zombieFeeding = m.contract('ZombieFeeding', [kittyMock])
+
+  return { kittyMock, zombieFeeding }
+})
@@ -0,0 +1,152 @@
+import hre, { network } from 'hardhat'
+import { formatEther, parseGwei, type Address } from 'viem'
+import {
+  assertChainId,
+  deployDependency,
+  deployZombieAttack,
+  resolveKittyContract,
+  runPreflightChecks,
+  type GasOverrides,
+} from './lib/deploy.js'
+import { DeploymentTracker } from './lib/deployments.js'
+import {
+  readNetworkConfigVariables,
+  validateEnvironment,
+} from './lib/environment.js'
+import { DeploymentError } from './lib/errors.js'
+
+// Deploys ZombieAttack, the whole game on top of ZombieFactory, after
+// pre-flight checks, records it in deployments.json and regenerates the
+// network registry. KITTY_CONTRACT is the kitty contract it feeds on,
+// required but on the local chain, where a new KittyMock stands in when it
+// is unset. Nothing is sent before every check passed, the mock's cost
+// included. GAS_PRICE (gwei) and GAS_LIMIT override the estimates.
+//   npx hardhat --build-profile production run scripts/deploy-zombie-attack.ts --network sepolia
+
+// Config variables are checked before connecting: connecting already needs them
+const networkName = hre.globalOptions.network ?? 'default'
+
+try {
+  const configValues = await readNetworkConfigVariables(hre, networkName)
+  const validation = validateEnvironment(
+    {
+      ...configValues,
+      KITTY_CONTRACT: process.env.KITTY_CONTRACT,
+      GAS_PRICE: process.env.GAS_PRICE,
+      GAS_LIMIT: process.env.GAS_LIMIT,
+    },
+    Object.keys(configValues)
+  )
+  if (!validation.isValid) {
+    throw new DeploymentError(
+      `Invalid configuration for ${networkName}: ${validation.errors.join(', ')}`,
+      'INVALID_CONFIG',
+      true,
+      'Set them with `npx hardhat keystore set <NAME>` or as environment variables'
+    )
+  }
+
+  const overrides: GasOverrides = {
+    gasPrice: process.env.GAS_PRICE
+      ? parseGwei(process.env.GAS_PRICE)
+      : undefined,
+    gasLimit: process.env.GAS_LIMIT ? BigInt(process.env.GAS_LIMIT) : undefined,
+  }
+
+  const { viem, networkConfig } = await network.connect(networkName)
+  const publicClient = await viem.getPublicClient().catch((error) => {
+    throw new DeploymentError(
+      `Could not reach ${networkName}: ${error.message}`,
+      'RPC_UNREACHABLE',
+      true,
+      'Check the RPC URL and your connection'
+    )
+  })
+  const [walletClient] = await viem.getWalletClients()
+  const expectedChainId =
+    networkConfig.chainId ?? (await publicClient.getChainId())
+
+  console.log(
+    `Deploying ZombieAttack to ${networkName} (chainId ${expectedChainId})`
+  )
+  console.log('Deployer:', walletClient.account.address)
+
+  // Before KITTY_CONTRACT is looked up on the wrong chain
+  await assertChainId(publicClient, expectedChainId)
+  const kitty = await resolveKittyContract(
+    publicClient,
+    walletClient.account.address,
+    await hre.artifacts.readArtifact('KittyMock'),
+    process.env.KITTY_CONTRACT as Address | undefined
+  )
+  const artifact = {
+    ...(await hre.artifacts.readArtifact('ZombieAttack')),
+    args: [kitty.address],
+  }
+
+  const estimate = await runPreflightChecks({
+    publicClient,
+    account: walletClient.account.address,
+    artifact,
+    expectedChainId,
+    overrides,
+    dependencies: kitty.mock ? [kitty.mock] : [],
+  })
+
+  console.log('Gas limit:', estimate.gasLimit)
+  console.log('Gas price:', formatEther(estimate.gasPrice, 'gwei'), 'gwei')
+  if (kitty.mock) {
+    console.log('KittyMock gas limit:', estimate.dependencies[0].gasLimit)
+  }
+  console.log('Estimated cost:', formatEther(estimate.totalCost), 'ETH')
+
+  const kittyAddress = kitty.mock
+    ? await deployDependency(
+        publicClient,
+        walletClient,
+        kitty.mock,
+        estimate.dependencies[0]
+      )
+    : kitty.address
+  console.log(
+    kitty.mock ? 'KittyMock deployed at:' : 'Kitty contract:',
+    kittyAddress
+  )
+
+  const result = await deployZombieAttack(
+    publicClient,
+    walletClient,
+    { ...artifact, args: [kittyAddress] },
+    estimate
+  )
+
+  const tracker = new DeploymentTracker()
+  await tracker.saveDeployment({
+    contractName: 'ZombieAttack',
+    network: networkName,
+    chainId: expectedChainId,
+    address: result.contractAddress,
+    transactionHash: result.transactionHash,
+    blockNumber: result.blockNumber.toString(),
+    gasUsed: result.gasUsed.toString(),
+    compilerProfile: hre.globalOptions.buildProfile ?? 'default',
+    constructorArguments: result.constructorArguments,
+    timestamp: new Date().toISOString(),
+  })
+
+  console.log('ZombieAttack deployed at:', result.contractAddress)
+  console.log('Transaction:', result.transactionHash)
+  console.log('Block:', result.blockNumber, 'Gas used:', result.gasUsed)
+  console.log('Actual cost:', formatEther(result.deploymentCost), 'ETH')
+  console.log('getZombiesCount():', result.zombiesCount)
+  console.log('Saved to', tracker.filePath)
+
+  // Lets the app resolve the new address by chainId
+  await hre.tasks.getTask('generate-registry').run({ check: false })
+} catch (error) {
+  if (!(error instanceof DeploymentError)) throw error
+
+  console.error(`❌ ${error.message}`)
+  if (error.instructions) console.error(`💡 ${error.instructions}`)
+  process.exitCode = 1
+}
@@ -0,0 +1,316 @@
+import {
+  encodeDeployData,
+  formatEther,
+  getContractAddress,
+  parseAbi,
+  type Abi,
+  type Account,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { DeploymentError } from './errors.js'
+
+// The chain of `hardhat node` and the simulated networks, the only one on
+// which the deploy tooling deploys a KittyMock
+export const LOCAL_CHAIN_ID = 31337
+
+export const SEPOLIA_FAUCET_INSTRUCTIONS =
+  'Get Sepolia test ETH from https://sepoliafaucet.com or https://www.alchemy.com/faucets/ethereum-sepolia and try again'
+
+const zombieFactoryCheckAbi = parseAbi([
+  'function getZombiesCount() view returns (uint256)',
+])
+
+export interface DeployableArtifact {
+  abi: Abi
+  bytecode: Hex
+  // Constructor arguments, ex: the kitty contract of ZombieAttack
+  args?: readonly unknown[]
+}
+
+export interface GasOverrides {
+  gasPrice?: bigint
+  gasLimit?: bigint
+}
+
+export interface GasEstimate {
+  gasLimit: bigint
+  gasPrice: bigint
+  // gasLimit * gasPrice, in wei
+  cost: bigint
+}
+
+export interface PreflightOptions {
+  publicClient: PublicClient
+  account: Address
+  artifact: DeployableArtifact
+  expectedChainId: number
+  // Applies to `artifact`; the dependencies only take the gas price
+  overrides?: GasOverrides
+  // Deployed before `artifact` by the same account, ex: its KittyMock
+  dependencies?: DeployableArtifact[]
+}
+
+export interface DeploymentEstimate extends GasEstimate {
+  // One per dependency, in order
+  dependencies: GasEstimate[]
+  // What the balance must cover: cost plus the dependencies' costs
+  totalCost: bigint
+}
+
+// The kitty contract ZombieAttack feeds on. `mock` when it is a KittyMock
+// still to deploy, which will get `address`
+export interface KittyContract {
+  address: Address
+  mock?: DeployableArtifact
+}
+
+export interface DeploymentResult {
+  contractAddress: Address
+  transactionHash: Hash
+  blockNumber: bigint
+  gasUsed: bigint
+  // gasUsed * effectiveGasPrice, in wei
+  deploymentCost: bigint
+  zombiesCount: bigint
+  // ABI-encoded artifact.args, as explorers verify them
+  constructorArguments?: Hex
+}
+
+export async function assertChainId(
+  publicClient: PublicClient,
+  expectedChainId: number
+): Promise<void> {
+  let chainId: number
+  try {
+    chainId = await publicClient.getChainId()
+  } catch (error) {
+    throw new DeploymentError(
+      `Could not reach the RPC: ${(error as Error).message}`,
+      'RPC_UNREACHABLE',
+      true,
+      'Check the RPC URL and your connection'
+    )
+  }
+
+  if (chainId !== expectedChainId) {
+    throw new DeploymentError(
+      `RPC is on chainId ${chainId}, expected ${expectedChainId}`,
+      'CHAIN_MISMATCH',
+      true,
+      'Check that the RPC URL points to the network you are deploying to'
+    )
+  }
+}
+
+export async function estimateDeploymentGas(
+  publicClient: PublicClient,
+  account: Address,
+  artifact: DeployableArtifact,
+  overrides: GasOverrides = {}
+): Promise<GasEstimate> {
+  const gasLimit =
+    overrides.gasLimit ??
+    (await publicClient.estimateGas({
+      account,
+      data: encodeDeployData(artifact),
+    }))
+  const gasPrice = overrides.gasPrice ?? (await publicClient.getGasPrice())
+
+  return { gasLimit, gasPrice, cost: gasLimit * gasPrice }
+}
+
+export async function assertSufficientBalance(
+  publicClient: PublicClient,
+  account: Address,
+  cost: bigint
+): Promise<bigint> {
+  const balance = await publicClient.getBalance({ address: account })
+  if (balance < cost) {
+    throw new DeploymentError(
+      `Insufficient balance: ${formatEther(balance)} ETH, needed ${formatEther(cost)} ETH`,
+      'INSUFFICIENT_BALANCE',
+      true,
+      SEPOLIA_FAUCET_INSTRUCTIONS
+    )
+  }
+  return balance
+}
+
+/**
+ * Checks that the RPC is on the expected chain and that the deployer can pay
+ * for the deployment and its dependencies. Returns the gas estimates the
+ * deployments will use.
+ */
+export async function runPreflightChecks({
+  publicClient,
+  account,
+  artifact,
+  expectedChainId,
+  overrides = {},
+  dependencies = [],
+}: PreflightOptions): Promise<DeploymentEstimate> {
+  await assertChainId(publicClient, expectedChainId)
+  const dependencyEstimates: GasEstimate[] = []
+  for (const dependency of dependencies) {
+    dependencyEstimates.push(
+      await estimateDeploymentGas(publicClient, account, dependency, {
+        gasPrice: overrides.gasPrice,
+      })
+    )
+  }
+  const estimate = await estimateDeploymentGas(
+    publicClient,
+    account,
+    artifact,
+    overrides
+  )
+  const totalCost = dependencyEstimates.reduce(
+    (total, { cost }) => total + cost,
+    estimate.cost
+  )
+  await assertSufficientBalance(publicClient, account, totalCost)
+  return { ...estimate, dependencies: dependencyEstimates, totalCost }
+}
+
+/**
+ * The kitty contract ZombieAttack feeds on: `kittyContract` when given (ex:
+ * KITTY_CONTRACT, the CryptoKitties address), else, on the local chain only,
+ * a KittyMock for `account` to deploy next, at the address it will get.
+ * Sends nothing: the mock goes out with deployDependency after the
+ * pre-flight checks.
+ */
+export async function resolveKittyContract(
+  publicClient: PublicClient,
+  account: Address,
+  kittyMockArtifact: DeployableArtifact,
+  kittyContract?: Address
+): Promise<KittyContract> {
+  if (kittyContract) {
+    const code = await publicClient.getCode({ address: kittyContract })
+    if (code === undefined || code === '0x') {
+      throw new DeploymentError(
+        `KITTY_CONTRACT ${kittyContract} has no code on this network`,
+        'INVALID_CONFIG',
+        true,
+        'Point KITTY_CONTRACT at the kitty contract of this network'
+      )
+    }
+    return { address: kittyContract }
+  }
+
+  const chainId = await publicClient.getChainId()
+  if (chainId !== LOCAL_CHAIN_ID) {
+    throw new DeploymentError(
+      `KITTY_CONTRACT is required on chainId ${chainId}`,
+      'INVALID_CONFIG',
+      true,
+      'Set KITTY_CONTRACT to the kitty contract of this network: KittyMock is only deployed on the local chain'
+    )
+  }
+  const nonce = await publicClient.getTransactionCount({
+    address: account,
+    blockTag: 'pending',
+  })
+  return {
+    address: getContractAddress({ from: account, nonce: BigInt(nonce) }),
+    mock: kittyMockArtifact,
+  }
+}
+
+/**
+ * Deploys a dependency of the main contract, ex: KittyMock, with its
+ * pre-flight estimate. Returns its address.
+ */
+export async function deployDependency(
+  publicClient: PublicClient,
+  walletClient: WalletClient & { account: Account },
+  artifact: DeployableArtifact,
+  estimate: GasEstimate
+): Promise<Address> {
+  const { receipt } = await sendDeployment(
+    publicClient,
+    walletClient,
+    artifact,
+    estimate
+  )
+  return receipt.contractAddress
+}
+
+/**
+ * Deploys ZombieAttack with the given gas settings, then calls
+ * getZombiesCount() to make sure the contract answers at its new address.
+ */
+export async function deployZombieAttack(
+  publicClient: PublicClient,
+  walletClient: WalletClient & { account: Account },
+  artifact: DeployableArtifact,
+  estimate: GasEstimate
+): Promise<DeploymentResult> {
+  const { hash, receipt } = await sendDeployment(
+    publicClient,
+    walletClient,
+    artifact,
+    estimate
+  )
+
+  let zombiesCount: bigint
+  try {
+    zombiesCount = await publicClient.readContract({
+      address: receipt.contractAddress,
+      abi: zombieFactoryCheckAbi,
+      functionName: 'getZombiesCount',
+    })
+  } catch (error) {
+    throw new DeploymentError(
+      `getZombiesCount() failed on ${receipt.contractAddress}: ${(error as Error).message}`,
+      'POST_DEPLOY_CHECK_FAILED'
+    )
+  }
+
+  return {
+    contractAddress: receipt.contractAddress,
+    transactionHash: hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    deploymentCost: receipt.gasUsed * receipt.effectiveGasPrice,
+    zombiesCount,
+    constructorArguments: artifact.args?.length
+      ? `0x${encodeDeployData(artifact).slice(artifact.bytecode.length)}`
+      : undefined,
+  }
+}
+
+async function sendDeployment(
+  publicClient: PublicClient,
+  walletClient: WalletClient & { account: Account },
+  artifact: DeployableArtifact,
+  estimate: GasEstimate
+) {
+  const hash = await walletClient.deployContract({
+    abi: artifact.abi,
+    bytecode: artifact.bytecode,
+    args: artifact.args,
+    account: walletClient.account,
+    chain: walletClient.chain,
+    gas: estimate.gasLimit,
+    gasPrice: estimate.gasPrice,
+  })
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success' || !receipt.contractAddress) {
+    throw new DeploymentError(
+      `Deployment transaction ${hash} reverted`,
+      'DEPLOY_FAILED',
+      true,
+      'Raise GAS_LIMIT if the deployment ran out of gas'
+    )
+  }
+  return {
+    hash,
+    receipt: { ...receipt, contractAddress: receipt.contractAddress },
+  }
+}
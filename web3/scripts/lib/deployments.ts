@@ -0,0 +1,207 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import {
+  isAddress,
+  isAddressEqual,
+  isHash,
+  isHex,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem'
+import { DeploymentError } from './errors.js'
+
+export const DEPLOYMENTS_FILE_VERSION = 1
+
+export const DEFAULT_DEPLOYMENTS_PATH = fileURLToPath(
+  new URL('../../deployments.json', import.meta.url)
+)
+
+// The `hardhat dev` deployment on the local node, left out of git: it only
+// lives as long as the node
+export const LOCAL_DEPLOYMENTS_PATH = fileURLToPath(
+  new URL('../../deployments.local.json', import.meta.url)
+)
+
+export interface DeploymentRecord {
+  contractName: string
+  network: string
+  chainId: number
+  address: Address
+  transactionHash: Hash
+  // bigints are kept as decimal strings so the file stays plain JSON
+  blockNumber: string
+  gasUsed: string
+  compilerProfile: string
+  // ABI-encoded, for the explorer verification. Absent when there are none
+  constructorArguments?: Hex
+  // ISO 8601
+  timestamp: string
+}
+
+interface DeploymentsFile {
+  version: number
+  checksum: string
+  deployments: DeploymentRecord[]
+}
+
+export interface DeploymentQuery {
+  network?: string
+  chainId?: number
+  contractName?: string
+  address?: Address
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Persistent registry of every deployment made from this project, stored in
+ * a versioned `deployments.json`. The file is append-only: re-deploying adds
+ * a new entry and the latest one per network is the live contract.
+ */
+export class DeploymentTracker {
+  constructor(public readonly filePath: string = DEFAULT_DEPLOYMENTS_PATH) {}
+
+  async saveDeployment(record: DeploymentRecord): Promise<void> {
+    const problems = validateRecord(record)
+    if (problems.length > 0) {
+      throw new DeploymentError(
+        `Refusing to save invalid deployment: ${problems.join(', ')}`,
+        'DEPLOYMENTS_FILE_CORRUPTED'
+      )
+    }
+
+    const deployments = await this.getDeploymentHistory()
+    deployments.push(record)
+    await this.write(deployments)
+  }
+
+  async getDeploymentHistory(): Promise<DeploymentRecord[]> {
+    let raw: string
+    try {
+      raw = await readFile(this.filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    return parseDeploymentsFile(raw, this.filePath)
+  }
+
+  async query(query: DeploymentQuery = {}): Promise<DeploymentRecord[]> {
+    const deployments = await this.getDeploymentHistory()
+    return deployments.filter((deployment) => matches(deployment, query))
+  }
+
+  async getLatestDeployment(
+    query: DeploymentQuery = {}
+  ): Promise<DeploymentRecord | null> {
+    const deployments = await this.query(query)
+    return deployments.at(-1) ?? null
+  }
+
+  private async write(deployments: DeploymentRecord[]) {
+    const file: DeploymentsFile = {
+      version: DEPLOYMENTS_FILE_VERSION,
+      checksum: checksumOf(deployments),
+      deployments,
+    }
+
+    // Write to a temp file first so a crash never leaves half a JSON behind
+    await mkdir(path.dirname(this.filePath), { recursive: true })
+    const tmpPath = `${this.filePath}.tmp`
+    await writeFile(tmpPath, JSON.stringify(file, null, 2) + '\n')
+    await rename(tmpPath, this.filePath)
+  }
+}
+
+function parseDeploymentsFile(
+  raw: string,
+  filePath: string
+): DeploymentRecord[] {
+  const corrupted = (reason: string) =>
+    new DeploymentError(
+      `${filePath} failed the integrity check: ${reason}`,
+      'DEPLOYMENTS_FILE_CORRUPTED',
+      false,
+      'Restore the file from git history instead of editing it by hand'
+    )
+
+  let file: DeploymentsFile
+  try {
+    file = JSON.parse(raw)
+  } catch {
+    throw corrupted('invalid JSON')
+  }
+
+  if (file.version !== DEPLOYMENTS_FILE_VERSION) {
+    throw corrupted(`unsupported version ${file.version}`)
+  }
+  if (!Array.isArray(file.deployments)) {
+    throw corrupted('missing deployments list')
+  }
+
+  file.deployments.forEach((record, index) => {
+    const problems = validateRecord(record)
+    if (problems.length > 0) {
+      throw corrupted(`entry ${index}: ${problems.join(', ')}`)
+    }
+  })
+
+  if (file.checksum !== checksumOf(file.deployments)) {
+    throw corrupted('checksum mismatch')
+  }
+
+  return file.deployments
+}
+
+function validateRecord(record: DeploymentRecord): string[] {
+  const problems: string[] = []
+  const isUint = (value: unknown) =>
+    typeof value === 'string' && /^\d+$/.test(value)
+
+  if (!record.contractName) problems.push('missing contractName')
+  if (!record.network) problems.push('missing network')
+  if (!Number.isInteger(record.chainId) || record.chainId <= 0) {
+    problems.push('invalid chainId')
+  }
+  if (!isAddress(record.address)) problems.push('invalid address')
+  if (!isHash(record.transactionHash)) problems.push('invalid transactionHash')
+  if (!isUint(record.blockNumber)) problems.push('invalid blockNumber')
+  if (!isUint(record.gasUsed)) problems.push('invalid gasUsed')
+  if (!record.compilerProfile) problems.push('missing compilerProfile')
+  if (
+    record.constructorArguments !== undefined &&
+    !isHex(record.constructorArguments)
+  ) {
+    problems.push('invalid constructorArguments')
+  }
+  if (Number.isNaN(Date.parse(record.timestamp))) {
+    problems.push('invalid timestamp')
+  }
+
+  return problems
+}
+
+function matches(deployment: DeploymentRecord, query: DeploymentQuery) {
+  const deployedAt = new Date(deployment.timestamp)
+
+  if (query.network && deployment.network !== query.network) return false
+  if (query.chainId && deployment.chainId !== query.chainId) return false
+  if (query.contractName && deployment.contractName !== query.contractName) {
+    return false
+  }
+  if (query.address && !isAddressEqual(deployment.address, query.address)) {
+    return false
+  }
+  if (query.from && deployedAt < query.from) return false
+  if (query.to && deployedAt > query.to) return false
+
+  return true
+}
+
+function checksumOf(deployments: DeploymentRecord[]): string {
+  return createHash('sha256').update(JSON.stringify(deployments)).digest('hex')
+}
@@ -0,0 +1,124 @@
+import type { HardhatUserConfig } from 'hardhat/config'
+import type {
+  ConfigurationVariable,
+  ResolvedConfigurationVariable,
+} from 'hardhat/types/config'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+
+export interface ValidationResult {
+  isValid: boolean
+  missingVariables: string[]
+  errors: string[]
+}
+
+// Format rules are picked from the variable name, so new networks following
+// the <NETWORK>_RPC_URL / <NETWORK>_PRIVATE_KEY convention are covered too
+const FORMATS: Array<{
+  pattern: RegExp
+  isValid: (value: string) => boolean
+  expected: string
+}> = [
+  {
+    pattern: /_URL$/,
+    isValid: (value) => {
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol)
+      } catch {
+        return false
+      }
+    },
+    expected: 'an http(s) URL',
+  },
+  {
+    pattern: /_PRIVATE_KEY$/,
+    isValid: (value) => /^(0x)?[0-9a-fA-F]{64}$/.test(value.trim()),
+    expected: 'a 32-byte hex private key',
+  },
+  {
+    pattern: /_CONTRACT$/,
+    isValid: (value) => /^0x[0-9a-fA-F]{40}$/.test(value.trim()),
+    expected: 'a 0x-prefixed contract address',
+  },
+  {
+    pattern: /^GAS_PRICE$/,
+    isValid: (value) => /^\d+(\.\d+)?$/.test(value.trim()),
+    expected: 'a gas price in gwei',
+  },
+  {
+    pattern: /^GAS_LIMIT$/,
+    isValid: (value) => /^\d+$/.test(value.trim()),
+    expected: 'a whole number of gas units',
+  },
+]
+
+/**
+ * Checks that every required variable is set and that every set variable is
+ * well formed. Optional variables (ex: GAS_PRICE) are only format-checked.
+ */
+export function validateEnvironment(
+  values: Record<string, string | undefined>,
+  required: string[] = Object.keys(values)
+): ValidationResult {
+  const missingVariables = required.filter((name) => !values[name])
+  const errors = missingVariables.map((name) => `${name} is not set`)
+
+  for (const [name, value] of Object.entries(values)) {
+    if (!value) continue
+
+    const format = FORMATS.find(({ pattern }) => pattern.test(name))
+    if (format && !format.isValid(value)) {
+      errors.push(`${name} should be ${format.expected}`)
+    }
+  }
+
+  return { isValid: errors.length === 0, missingVariables, errors }
+}
+
+/**
+ * Reads the configuration variables (`configVariable(...)`) used by an http
+ * network, keyed by variable name. Unset variables map to undefined instead
+ * of throwing, so they can all be reported at once.
+ */
+export async function readNetworkConfigVariables(
+  hre: HardhatRuntimeEnvironment,
+  networkName: string
+): Promise<Record<string, string | undefined>> {
+  const userNetwork = (hre.userConfig as HardhatUserConfig).networks?.[
+    networkName
+  ]
+  const network = hre.config.networks[networkName]
+  const values: Record<string, string | undefined> = {}
+
+  if (userNetwork?.type !== 'http' || network?.type !== 'http') return values
+
+  const read = async (
+    variable: unknown,
+    resolved: ResolvedConfigurationVariable
+  ) => {
+    if (!isConfigurationVariable(variable)) return
+    try {
+      values[variable.name] = await resolved.get()
+    } catch {
+      values[variable.name] = undefined
+    }
+  }
+
+  await read(userNetwork.url, network.url)
+  if (Array.isArray(userNetwork.accounts) && Array.isArray(network.accounts)) {
+    for (const [index, account] of userNetwork.accounts.entries()) {
+      await read(account, network.accounts[index])
+    }
+  }
+
+  return values
+}
+
+export function isConfigurationVariable(
+  value: unknown
+): value is ConfigurationVariable {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as ConfigurationVariable)._type === 'ConfigurationVariable'
+  )
+}
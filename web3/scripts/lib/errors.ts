@@ -0,0 +1,25 @@
+export type DeploymentErrorCode =
+  | 'INVALID_CONFIG'
+  | 'RPC_UNREACHABLE'
+  | 'CHAIN_MISMATCH'
+  | 'INSUFFICIENT_BALANCE'
+  | 'DEPLOY_FAILED'
+  | 'POST_DEPLOY_CHECK_FAILED'
+  | 'VERIFICATION_FAILED'
+  | 'DEPLOYMENTS_FILE_CORRUPTED'
+
+/**
+ * Error raised by the deploy tooling. `instructions` tells the developer what
+ * to do next, `recoverable` whether retrying after following them can work.
+ */
+export class DeploymentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: DeploymentErrorCode,
+    public readonly recoverable: boolean = false,
+    public readonly instructions?: string
+  ) {
+    super(message)
+    this.name = 'DeploymentError'
+  }
+}
@@ -0,0 +1,30 @@
+import type { ArtifactManager } from 'hardhat/types/artifacts'
+import type { EthereumProvider } from 'hardhat/types/providers'
+import type { Address, PublicClient } from 'viem'
+
+// Where Multicall3 lives on mainnet and most chains, and where viem's chain
+// definitions expect it
+export const MULTICALL3_ADDRESS: Address =
+  '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+/**
+ * Puts the Multicall3 runtime code at its canonical address on a local
+ * Hardhat network (EDR or `hardhat node`), which starts without it. Does
+ * nothing if the code is already there. Takes only the methods it calls, so
+ * the app's tests can share it with their own viem and hardhat.
+ */
+export async function installMulticall3(
+  provider: Pick<EthereumProvider, 'request'>,
+  publicClient: Pick<PublicClient, 'getCode'>,
+  artifacts: Pick<ArtifactManager, 'readArtifact'>
+): Promise<Address> {
+  const code = await publicClient.getCode({ address: MULTICALL3_ADDRESS })
+  if (code !== undefined && code !== '0x') return MULTICALL3_ADDRESS
+
+  const { deployedBytecode } = await artifacts.readArtifact('Multicall3')
+  await provider.request({
+    method: 'hardhat_setCode',
+    params: [MULTICALL3_ADDRESS, deployedBytecode],
+  })
+  return MULTICALL3_ADDRESS
+}
@@ -0,0 +1,113 @@
+import type { Address, Hash } from 'viem'
+import type { DeploymentRecord } from './deployments.js'
+
+// What the registry needs from a hardhat.config.ts network
+export interface RegistryNetworkConfig {
+  type: 'http' | 'edr-simulated'
+  chainId?: number
+  chainType?: string
+  // Name of the configuration variable holding the RPC URL
+  rpcUrlVariable?: string
+}
+
+export interface RegistryContract {
+  address: Address
+  // Block of the deployment transaction, where event scans can start
+  startBlock: bigint
+  transactionHash: Hash
+}
+
+export interface RegistryNetwork {
+  network: string
+  chainType: string
+  rpcUrlVariable?: string
+  contracts: Record<string, RegistryContract>
+}
+
+export type NetworkRegistry = Record<number, RegistryNetwork>
+
+/**
+ * Maps each chainId to the network that reaches it and the latest deployment
+ * of every contract there. Networks without a fixed chainId and in-memory
+ * (edr-simulated) networks are left out: the contracts deployed there are
+ * gone once the process exits.
+ */
+export function buildNetworkRegistry(
+  networks: Record<string, RegistryNetworkConfig>,
+  deployments: DeploymentRecord[]
+): NetworkRegistry {
+  const registry: NetworkRegistry = {}
+
+  for (const [name, config] of Object.entries(networks)) {
+    if (config.type !== 'http' || config.chainId === undefined) continue
+    registry[config.chainId] = {
+      network: name,
+      chainType: config.chainType ?? 'generic',
+      rpcUrlVariable: config.rpcUrlVariable,
+      contracts: {},
+    }
+  }
+
+  // deployments.json is append-only, so later records replace earlier ones
+  for (const record of deployments) {
+    if (networks[record.network]?.type === 'edr-simulated') continue
+    if (record.network === 'default') continue
+
+    registry[record.chainId] ??= {
+      network: record.network,
+      chainType: 'generic',
+      contracts: {},
+    }
+    registry[record.chainId].contracts[record.contractName] = {
+      address: record.address,
+      startBlock: BigInt(record.blockNumber),
+      transactionHash: record.transactionHash,
+    }
+  }
+
+  return registry
+}
+
+/**
+ * TypeScript module exporting the registry, typed without depending on
+ * Hardhat, so the app can import it as is.
+ */
+export function renderRegistryModule(registry: NetworkRegistry): string {
+  return `// Generated by \`npx hardhat generate-registry\` from hardhat.config.ts and deployments.json. Do not edit.
+import type { Address, Hash } from 'viem'
+
+export interface DeployedContract {
+  address: Address
+  // Block of the deployment transaction, where event scans can start
+  startBlock: bigint
+  transactionHash: Hash
+}
+
+export interface RegistryNetwork {
+  // Network name in hardhat.config.ts
+  network: string
+  chainType: string
+  // Configuration variable holding the RPC URL, ex: SEPOLIA_RPC_URL
+  rpcUrlVariable?: string
+  // Latest deployment of each contract
+  contracts: Partial<Record<string, DeployedContract>>
+}
+
+export const networkRegistry: Record<number, RegistryNetwork> = ${toSource(registry)}
+`
+}
+
+// Like JSON.stringify, with bigint literals and without undefined fields
+function toSource(value: unknown): string {
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value !== 'object' || value === null) return JSON.stringify(value)
+
+  const entries = Object.entries(value)
+    .filter(([, field]) => field !== undefined)
+    .map(([key, field]) => {
+      // chainIds stay numeric keys
+      const name = /^\d+$/.test(key) ? key : JSON.stringify(key)
+      return `${name}: ${toSource(field)}`
+    })
+  return `{${entries.join(', ')}}`
+}
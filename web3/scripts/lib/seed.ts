@@ -0,0 +1,108 @@
+import {
+  parseEventLogs,
+  type Account,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { ZombieFactoryAbi } from '../../abis/ZombieFactory.abi.js'
+
+const NAME_PREFIXES = [
+  'Zombie',
+  'Undead',
+  'Rotten',
+  'Decayed',
+  'Ghoul',
+  'Walker',
+  'Shambler',
+  'Crawler',
+  'Stalker',
+  'Hunter',
+]
+
+const NAME_SUFFIXES = [
+  'Killer',
+  'Destroyer',
+  'Eater',
+  'Biter',
+  'Ripper',
+  'Terror',
+  'Nightmare',
+  'Horror',
+  'Doom',
+  'Death',
+]
+
+export interface SeededZombie {
+  zombieId: bigint
+  name: string
+  owner: Address
+}
+
+// Ex: GhoulRipper42, within ZombieFactory's name policy
+export function generateRandomZombieName(): string {
+  const pick = (words: string[]) =>
+    words[Math.floor(Math.random() * words.length)]
+  const number = Math.floor(Math.random() * 1000)
+  return `${pick(NAME_PREFIXES)}${pick(NAME_SUFFIXES)}${number}`
+}
+
+// How many different names generateRandomZombieName can return
+export const MAX_GENERATED_NAMES =
+  NAME_PREFIXES.length * NAME_SUFFIXES.length * 1000
+
+// `count` different names, as ZombieFactory refuses a name twice. Throws
+// for more than MAX_GENERATED_NAMES, which it could never draw
+export function generateZombieNames(count: number): string[] {
+  if (count > MAX_GENERATED_NAMES) {
+    throw new Error(
+      `Cannot generate ${count} different names, at most ${MAX_GENERATED_NAMES}`
+    )
+  }
+  const names = new Set<string>()
+  while (names.size < count) names.add(generateRandomZombieName())
+  return [...names]
+}
+
+/**
+ * Creates a zombie for each name with createRandomZombie, the wallets taking
+ * turns so the zombies end up with several owners. Each transaction is
+ * mined before the next is sent.
+ */
+export async function seedZombies(
+  publicClient: PublicClient,
+  walletClients: (WalletClient & { account: Account })[],
+  zombieFactory: Address,
+  names: string[]
+): Promise<SeededZombie[]> {
+  const seeded: SeededZombie[] = []
+
+  for (const [index, name] of names.entries()) {
+    const walletClient = walletClients[index % walletClients.length]
+    const hash = await walletClient.writeContract({
+      address: zombieFactory,
+      abi: ZombieFactoryAbi,
+      functionName: 'createRandomZombie',
+      args: [name],
+      account: walletClient.account,
+      chain: walletClient.chain,
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    const [log] = parseEventLogs({
+      abi: ZombieFactoryAbi,
+      eventName: 'NewZombie',
+      logs: receipt.logs,
+    })
+    if (receipt.status !== 'success' || !log) {
+      throw new Error(`createRandomZombie("${name}") failed in ${hash}`)
+    }
+
+    seeded.push({
+      zombieId: log.args.zombieId,
+      name,
+      owner: walletClient.account.address,
+    })
+  }
+
+  return seeded
+}
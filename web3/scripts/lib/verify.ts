@@ -0,0 +1,244 @@
+import { readFile } from 'node:fs/promises'
+import type { ChainDescriptorsConfig } from 'hardhat/types/config'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+import type { SolidityBuildInfo } from 'hardhat/types/solidity'
+import type { Address, Hex } from 'viem'
+import { DeploymentError } from './errors.js'
+
+export const ETHERSCAN_API_URL = 'https://api.etherscan.io/v2/api'
+
+export interface VerificationInput {
+  // Fully qualified name as Etherscan expects it, ex: project/contracts/ZombieFactory.sol:ZombieFactory
+  contractName: string
+  compilerVersion: string
+  // solc standard JSON input, exactly as it was compiled
+  input: SolidityBuildInfo['input']
+}
+
+export interface VerificationResult {
+  success: boolean
+  // Unless the chain has no explorer
+  etherscanUrl?: string
+  guid?: string
+  error?: string
+  manualInstructions?: string
+}
+
+export type VerificationStatus = 'pending' | 'verified' | 'failed'
+
+export interface ContractVerifierOptions {
+  apiKey: string
+  chainId: number
+  // Etherscan-compatible API endpoint, ex: a local stand-in in tests
+  apiUrl?: string
+  // Explorer web UI the links point to, see getBrowserUrl. Without one, the
+  // results have no links
+  browserUrl?: string
+  pollIntervalMs?: number
+  maxPollAttempts?: number
+}
+
+interface EtherscanResponse {
+  status: '0' | '1'
+  message: string
+  result: string
+}
+
+/**
+ * Reads the standard JSON input ZombieFactory (or any contract) was compiled
+ * with, and makes sure it was compiled with the given build profile's
+ * settings so the bytecode matches what was deployed.
+ */
+export async function loadVerificationInput(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  profileName = 'production'
+): Promise<VerificationInput> {
+  const artifact = await hre.artifacts.readArtifact(contractName)
+  const buildInfoPath =
+    artifact.buildInfoId !== undefined
+      ? await hre.artifacts.getBuildInfoPath(artifact.buildInfoId)
+      : undefined
+  if (buildInfoPath === undefined) {
+    throw new DeploymentError(
+      `No build info for ${contractName}`,
+      'VERIFICATION_FAILED',
+      true,
+      'Compile the contracts first with `npx hardhat --build-profile production compile`'
+    )
+  }
+
+  const buildInfo: SolidityBuildInfo = JSON.parse(
+    await readFile(buildInfoPath, 'utf8')
+  )
+  const profile = hre.config.solidity.profiles[profileName]
+  const expected = profile?.compilers.find(
+    ({ version }) => version === buildInfo.solcVersion
+  )
+  const optimizer = buildInfo.input.settings.optimizer ?? {}
+
+  if (
+    expected === undefined ||
+    Boolean(optimizer.enabled) !==
+      Boolean(expected.settings.optimizer?.enabled) ||
+    (optimizer.runs ?? 200) !== (expected.settings.optimizer?.runs ?? 200)
+  ) {
+    throw new DeploymentError(
+      `${contractName} was not compiled with the ${profileName} profile settings`,
+      'VERIFICATION_FAILED',
+      true,
+      `Recompile with \`npx hardhat --build-profile ${profileName} compile\``
+    )
+  }
+
+  return {
+    contractName: `${artifact.inputSourceName}:${artifact.contractName}`,
+    compilerVersion: `v${buildInfo.solcLongVersion}`,
+    input: buildInfo.input,
+  }
+}
+
+// The Etherscan web UI of `chainId` in Hardhat's chain descriptors: its
+// built-in chains plus chainDescriptors in hardhat.config.ts. Undefined for
+// a chain without one, ex: a local network
+export function getBrowserUrl(
+  chainDescriptors: ChainDescriptorsConfig,
+  chainId: number
+): string | undefined {
+  return chainDescriptors.get(BigInt(chainId))?.blockExplorers.etherscan?.url
+}
+
+/**
+ * Submits source code to an Etherscan-compatible API and polls until the
+ * explorer accepts or rejects it.
+ */
+export class ContractVerifier {
+  private apiUrl: string
+  private browserUrl?: string
+  private pollIntervalMs: number
+  private maxPollAttempts: number
+
+  constructor(private options: ContractVerifierOptions) {
+    this.apiUrl = options.apiUrl ?? ETHERSCAN_API_URL
+    this.browserUrl = options.browserUrl?.replace(/\/$/, '')
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000
+    this.maxPollAttempts = options.maxPollAttempts ?? 20
+  }
+
+  getExplorerUrl(address: Address): string | undefined {
+    return this.browserUrl && `${this.browserUrl}/address/${address}#code`
+  }
+
+  async verifyContract(
+    address: Address,
+    source: VerificationInput,
+    constructorArguments: Hex = '0x'
+  ): Promise<VerificationResult> {
+    const etherscanUrl = this.getExplorerUrl(address)
+
+    let submission: EtherscanResponse
+    try {
+      submission = await this.request('POST', {
+        action: 'verifysourcecode',
+        codeformat: 'solidity-standard-json-input',
+        sourceCode: JSON.stringify(source.input),
+        contractaddress: address,
+        contractname: source.contractName,
+        compilerversion: source.compilerVersion,
+        constructorArguements: constructorArguments.replace(/^0x/, ''),
+      })
+    } catch (error) {
+      return this.failed(address, source, (error as Error).message)
+    }
+
+    if (submission.status !== '1') {
+      if (/already verified/i.test(submission.result)) {
+        return { success: true, etherscanUrl }
+      }
+      return this.failed(address, source, submission.result)
+    }
+
+    const guid = submission.result
+    for (let attempt = 0; attempt < this.maxPollAttempts; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs))
+
+      // A poll that throws (network, HTTP error) still leaves the contract
+      // to verify by hand
+      const polled = await this.getVerificationStatus(guid).catch(
+        (error: Error) => error
+      )
+      if (polled instanceof Error) {
+        return this.failed(
+          address,
+          source,
+          `Polling ${guid} failed: ${polled.message}`
+        )
+      }
+      const { status, result } = polled
+      if (status === 'verified') return { success: true, etherscanUrl, guid }
+      if (status === 'failed') return this.failed(address, source, result)
+    }
+
+    return this.failed(address, source, `Still pending after polling ${guid}`)
+  }
+
+  async getVerificationStatus(
+    guid: string
+  ): Promise<{ status: VerificationStatus; result: string }> {
+    const { status, result } = await this.request('GET', {
+      action: 'checkverifystatus',
+      guid,
+    })
+
+    if (status === '1' || /already verified/i.test(result)) {
+      return { status: 'verified', result }
+    }
+    if (/pending/i.test(result)) return { status: 'pending', result }
+    return { status: 'failed', result }
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    params: Record<string, string>
+  ): Promise<EtherscanResponse> {
+    const query = new URLSearchParams({
+      chainid: String(this.options.chainId),
+      module: 'contract',
+      apikey: this.options.apiKey,
+      ...params,
+    })
+
+    const response =
+      method === 'GET'
+        ? await fetch(`${this.apiUrl}?${query}`)
+        : await fetch(this.apiUrl, { method, body: query })
+    if (!response.ok) {
+      throw new Error(`${this.apiUrl} answered HTTP ${response.status}`)
+    }
+
+    return (await response.json()) as EtherscanResponse
+  }
+
+  private failed(
+    address: Address,
+    source: VerificationInput,
+    error: string
+  ): VerificationResult {
+    const manualInstructions = [
+      this.browserUrl
+        ? `Verify it by hand at ${this.browserUrl}/verifyContract?a=${address}`
+        : `Verify ${address} by hand on the chain's explorer`,
+      '  Compiler type: Solidity (Standard-Json-Input)',
+      `  Compiler version: ${source.compilerVersion}`,
+      `  Contract name: ${source.contractName}`,
+      '  Standard JSON input: the "input" field of the build info in artifacts/build-info',
+    ].join('\n')
+
+    return {
+      success: false,
+      etherscanUrl: this.getExplorerUrl(address),
+      error,
+      manualInstructions,
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import hre from 'hardhat'
+import { DeploymentTracker } from './lib/deployments.js'
+import { validateEnvironment } from './lib/environment.js'
+import { DeploymentError } from './lib/errors.js'
+import {
+  ContractVerifier,
+  getBrowserUrl,
+  loadVerificationInput,
+} from './lib/verify.js'
+
+// Verifies the latest ZombieAttack deployment of a network on Etherscan, or
+// its ZombieFactory on networks deployed before ZombieAttack, with the
+// constructor arguments recorded in deployments.json. The explorer links are
+// the chain's in Hardhat's chain descriptors, ex: sepolia.etherscan.io.
+// ETHERSCAN_API_URL / ETHERSCAN_BROWSER_URL point it at another explorer.
+//   npx hardhat --build-profile production run scripts/verify-zombie-factory.ts --network sepolia
+const networkName = hre.globalOptions.network ?? 'default'
+
+try {
+  const validation = validateEnvironment(
+    {
+      ETHERSCAN_API_KEY: process.env.ETHERSCAN_API_KEY,
+      ETHERSCAN_API_URL: process.env.ETHERSCAN_API_URL,
+      ETHERSCAN_BROWSER_URL: process.env.ETHERSCAN_BROWSER_URL,
+    },
+    ['ETHERSCAN_API_KEY']
+  )
+  if (!validation.isValid) {
+    throw new DeploymentError(
+      `Invalid configuration: ${validation.errors.join(', ')}`,
+      'INVALID_CONFIG',
+      true,
+      'Create an API key at https://etherscan.io/myapikey'
+    )
+  }
+
+  const tracker = new DeploymentTracker()
+  const deployment =
+    (await tracker.getLatestDeployment({
+      network: networkName,
+      contractName: 'ZombieAttack',
+    })) ??
+    (await tracker.getLatestDeployment({
+      network: networkName,
+      contractName: 'ZombieFactory',
+    }))
+  if (!deployment) {
+    throw new DeploymentError(
+      `No ZombieAttack deployment recorded for ${networkName}`,
+      'VERIFICATION_FAILED',
+      true,
+      'Deploy it first with scripts/deploy-zombie-attack.ts'
+    )
+  }
+
+  const source = await loadVerificationInput(hre, deployment.contractName)
+  const verifier = new ContractVerifier({
+    apiKey: process.env.ETHERSCAN_API_KEY!,
+    chainId: deployment.chainId,
+    apiUrl: process.env.ETHERSCAN_API_URL,
+    browserUrl:
+      process.env.ETHERSCAN_BROWSER_URL ??
+      getBrowserUrl(hre.config.chainDescriptors, deployment.chainId),
+  })
+
+  console.log(
+    `Verifying ${deployment.contractName} at ${deployment.address}...`
+  )
+  const result = await verifier.verifyContract(
+    deployment.address,
+    source,
+    deployment.constructorArguments
+  )
+
+  if (result.success) {
+    console.log(
+      '✅ Contract verified:',
+      result.etherscanUrl ?? deployment.address
+    )
+  } else {
+    console.error('❌ Verification failed:', result.error)
+    console.error(result.manualInstructions)
+    process.exitCode = 1
+  }
+} catch (error) {
+  if (!(error instanceof DeploymentError)) throw error
+
+  console.error(`❌ ${error.message}`)
+  if (error.instructions) console.error(`💡 ${error.instructions}`)
+  process.exitCode = 1
+}
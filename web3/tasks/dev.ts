@@ -0,0 +1,238 @@
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+import type { EthereumProvider } from 'hardhat/types/providers'
+import type { Address } from 'viem'
+import {
+  deployDependency,
+  deployZombieAttack,
+  resolveKittyContract,
+  runPreflightChecks,
+} from '../scripts/lib/deploy.js'
+import {
+  DeploymentTracker,
+  LOCAL_DEPLOYMENTS_PATH,
+} from '../scripts/lib/deployments.js'
+import { DeploymentError } from '../scripts/lib/errors.js'
+import { installMulticall3 } from '../scripts/lib/multicall3.js'
+import { generateZombieNames, seedZombies } from '../scripts/lib/seed.js'
+
+interface DevArguments {
+  zombies: number
+  names: string
+  accounts: number
+  reset: boolean
+}
+
+const NETWORK = 'localhost'
+const NODE_START_TIMEOUT = 30_000
+
+/**
+ * One command to a populated local chain: starts `hardhat node` in this
+ * process (or reuses the one already answering on localhost), deploys
+ * ZombieAttack, on KITTY_CONTRACT or a new KittyMock, and seeds zombies from
+ * several funded accounts. The deployment goes to deployments.local.json and
+ * to app/.env.local, whose variables point the app at it (networks.ts): the
+ * checked-in network registry is left alone, the deployment dies with the
+ * node. A reused node that already has the recorded deployment is left as
+ * is, unless --reset: then a new ZombieAttack replaces it (the node cannot
+ * wipe its chain, a new node starts empty).
+ */
+export default async function dev(
+  { zombies, names, accounts, reset }: DevArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { provider, viem } = await hre.network.connect(NETWORK)
+  const tracker = new DeploymentTracker(LOCAL_DEPLOYMENTS_PATH)
+  // Before the node starts: too many zombies for the generated names throws
+  const nameList = names
+    ? names
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    : generateZombieNames(zombies)
+
+  // Resolves when the node started here stops, ex: on Ctrl+C
+  let node: Promise<unknown> | undefined
+  try {
+    if (await isReachable(provider)) {
+      const current = await tracker.getLatestDeployment({ network: NETWORK })
+      const code =
+        current &&
+        (await provider.request({
+          method: 'eth_getCode',
+          params: [current.address, 'latest'],
+        }))
+      if (!reset && current && code !== '0x') {
+        console.log(
+          '✅ The running node already has ZombieAttack at',
+          current.address
+        )
+        console.log('💡 Run "npx hardhat dev --reset" to start over')
+        return
+      }
+    } else {
+      console.log('Starting a local Hardhat node')
+      node = hre.tasks.getTask('node').run({})
+      await waitUntilReachable(provider, node)
+    }
+
+    const publicClient = await viem.getPublicClient()
+    const walletClients = (await viem.getWalletClients()).slice(
+      0,
+      Math.max(accounts, 1)
+    )
+    const [deployer] = walletClients
+    const chainId = await publicClient.getChainId()
+
+    await installMulticall3(provider, publicClient, hre.artifacts)
+    const kitty = await resolveKittyContract(
+      publicClient,
+      deployer.account.address,
+      await hre.artifacts.readArtifact('KittyMock'),
+      process.env.KITTY_CONTRACT as Address | undefined
+    )
+    const artifact = {
+      ...(await hre.artifacts.readArtifact('ZombieAttack')),
+      args: [kitty.address],
+    }
+    const estimate = await runPreflightChecks({
+      publicClient,
+      account: deployer.account.address,
+      artifact,
+      expectedChainId: chainId,
+      dependencies: kitty.mock ? [kitty.mock] : [],
+    })
+    const kittyAddress = kitty.mock
+      ? await deployDependency(
+          publicClient,
+          deployer,
+          kitty.mock,
+          estimate.dependencies[0]
+        )
+      : kitty.address
+    const result = await deployZombieAttack(
+      publicClient,
+      deployer,
+      { ...artifact, args: [kittyAddress] },
+      estimate
+    )
+
+    const seeded = await seedZombies(
+      publicClient,
+      walletClients,
+      result.contractAddress,
+      nameList
+    )
+
+    // The file only holds the deployment on the current local chain
+    await rm(tracker.filePath, { force: true })
+    await tracker.saveDeployment({
+      contractName: 'ZombieAttack',
+      network: NETWORK,
+      chainId,
+      address: result.contractAddress,
+      transactionHash: result.transactionHash,
+      blockNumber: result.blockNumber.toString(),
+      gasUsed: result.gasUsed.toString(),
+      compilerProfile: hre.globalOptions.buildProfile ?? 'default',
+      constructorArguments: result.constructorArguments,
+      timestamp: new Date().toISOString(),
+    })
+    const envPath = path.join(hre.config.paths.root, '..', 'app', '.env.local')
+    await writeEnvFile(envPath, {
+      ZOMBIE_CHAIN_ID: String(chainId),
+      LOCALHOST_ZOMBIE_FACTORY_ADDRESS: result.contractAddress,
+      LOCALHOST_ZOMBIE_FACTORY_START_BLOCK: result.blockNumber.toString(),
+    })
+
+    console.log()
+    console.log('ZombieAttack deployed at:', result.contractAddress)
+    console.log(
+      kitty.mock ? 'KittyMock deployed at:' : 'Kitty contract:',
+      kittyAddress
+    )
+    console.log('Start block:', result.blockNumber)
+    for (const walletClient of walletClients) {
+      const owned = seeded.filter(
+        ({ owner }) => owner === walletClient.account.address
+      )
+      console.log(
+        `${walletClient.account.address}: ${owned.map(({ name }) => name).join(', ') || 'no zombies'}`
+      )
+    }
+    console.log(
+      'Saved to',
+      path.relative(process.cwd(), tracker.filePath),
+      'and',
+      path.relative(process.cwd(), envPath)
+    )
+  } catch (error) {
+    if (!node && !(error instanceof DeploymentError)) throw error
+
+    if (error instanceof DeploymentError) {
+      console.error(`❌ ${error.message}`)
+      if (error.instructions) console.error(`💡 ${error.instructions}`)
+    } else {
+      console.error(error)
+    }
+    process.exitCode = 1
+    // The node started here would keep the process running
+    if (node) process.exit()
+    return
+  }
+
+  if (node) {
+    console.log('Local node running, Ctrl+C to stop it')
+    await node
+  }
+}
+
+async function isReachable(provider: EthereumProvider): Promise<boolean> {
+  try {
+    await provider.request({ method: 'eth_chainId' })
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function waitUntilReachable(
+  provider: EthereumProvider,
+  node: Promise<unknown>
+): Promise<void> {
+  let failure: unknown
+  node.catch((error) => (failure = error))
+
+  const deadline = Date.now() + NODE_START_TIMEOUT
+  while (!(await isReachable(provider))) {
+    // Ex: the port is taken by something that is not a JSON-RPC node
+    if (failure) throw failure
+    if (Date.now() > deadline) {
+      throw new DeploymentError(
+        `The local node did not answer within ${NODE_START_TIMEOUT / 1000}s`,
+        'RPC_UNREACHABLE',
+        true,
+        'Check that nothing else is listening on 127.0.0.1:8545'
+      )
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250))
+  }
+}
+
+// Sets `variables` in a dotenv file, keeping the other lines it has
+async function writeEnvFile(
+  filePath: string,
+  variables: Record<string, string>
+): Promise<void> {
+  const current = await readFile(filePath, 'utf8').catch(() => '')
+  const kept = current
+    .split('\n')
+    .filter(
+      (line) => line && !Object.keys(variables).includes(line.split('=')[0])
+    )
+  const assignments = Object.entries(variables).map(
+    ([name, value]) => `${name}=${value}`
+  )
+  await writeFile(filePath, [...kept, ...assignments].join('\n') + '\n')
+}
@@ -0,0 +1,306 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+import { format, resolveConfig } from 'prettier'
+import type { Abi, AbiFunction } from 'viem'
+
+interface GenerateAbisArguments {
+  check: boolean
+}
+
+interface GeneratedFile {
+  path: string
+  content: string
+}
+
+const GENERATED_FILE = /\.(abi|contract)\.ts$/
+
+/**
+ * Generates `<Name>.abi.ts` for every contract under contracts/ but the
+ * mocks, identical in web3/abis and app/src/contracts, plus a typed
+ * `<Name>.contract.ts` wrapper for the app. With --check nothing is written:
+ * it fails if any checked-in file differs from what the current artifacts
+ * would generate.
+ */
+export default async function generateAbis(
+  { check }: GenerateAbisArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  await hre.tasks.getTask('build').run({ quiet: true, noTests: true })
+
+  const root = hre.config.paths.root
+  const web3AbisDir = path.join(root, 'abis')
+  const appContractsDir = path.join(root, '..', 'app', 'src', 'contracts')
+
+  const files: GeneratedFile[] = []
+  for (const fullyQualifiedName of await hre.artifacts.getAllFullyQualifiedNames()) {
+    if (!fullyQualifiedName.startsWith('contracts/')) continue
+    // Test doubles and local stand-ins, ex: Multicall3, whose ABI viem has
+    if (fullyQualifiedName.startsWith('contracts/mocks/')) continue
+
+    const artifact = await hre.artifacts.readArtifact(fullyQualifiedName)
+    const { contractName, sourceName } = artifact
+    const abi = artifact.abi as Abi
+    const abiModule = renderAbiModule(contractName, sourceName, abi)
+
+    files.push(
+      {
+        path: path.join(web3AbisDir, `${contractName}.abi.ts`),
+        content: abiModule,
+      },
+      {
+        path: path.join(appContractsDir, `${contractName}.abi.ts`),
+        content: abiModule,
+      },
+      {
+        path: path.join(appContractsDir, `${contractName}.contract.ts`),
+        content: renderWrapperModule(contractName, sourceName, abi),
+      }
+    )
+  }
+
+  const prettierConfig = await resolveConfig(path.join(root, 'abis', 'x.ts'))
+  for (const file of files) {
+    file.content = await format(file.content, {
+      ...prettierConfig,
+      parser: 'typescript',
+    })
+  }
+
+  const expected = new Set(files.map((file) => file.path))
+  const stale: string[] = []
+  for (const dir of [web3AbisDir, appContractsDir]) {
+    for (const name of await readdir(dir).catch(() => [])) {
+      const filePath = path.join(dir, name)
+      if (GENERATED_FILE.test(name) && !expected.has(filePath)) {
+        stale.push(filePath)
+      }
+    }
+  }
+
+  const changed: string[] = []
+  for (const file of files) {
+    const current = await readFile(file.path, 'utf8').catch(() => undefined)
+    if (current !== file.content) changed.push(file.path)
+  }
+
+  const relative = (filePath: string) => path.relative(process.cwd(), filePath)
+
+  if (check) {
+    if (changed.length === 0 && stale.length === 0) {
+      console.log('✅ ABIs are up to date')
+      return
+    }
+
+    for (const filePath of changed) {
+      console.error('❌ Out of date:', relative(filePath))
+    }
+    for (const filePath of stale) {
+      console.error('❌ No matching contract:', relative(filePath))
+    }
+    console.error('💡 Run "npx hardhat generate-abis" to update them')
+    process.exitCode = 1
+    return
+  }
+
+  for (const file of files) {
+    if (!changed.includes(file.path)) continue
+    await mkdir(path.dirname(file.path), { recursive: true })
+    await writeFile(file.path, file.content)
+    console.log('📁 Updated', relative(file.path))
+  }
+  for (const filePath of stale) {
+    await rm(filePath)
+    console.log('🗑️ Removed', relative(filePath))
+  }
+
+  console.log(`✅ ABIs generated for ${files.length / 3} contracts`)
+}
+
+function renderAbiModule(
+  contractName: string,
+  sourceName: string,
+  abi: Abi
+): string {
+  return `${header(sourceName)}
+import type { Abi } from 'viem'
+
+export const ${contractName}Abi = ${JSON.stringify(abi, null, 2)} as const satisfies Abi
+`
+}
+
+function renderWrapperModule(
+  contractName: string,
+  sourceName: string,
+  abi: Abi
+): string {
+  const functions = withMethodNames(
+    abi.filter((item): item is AbiFunction => item.type === 'function')
+  )
+  const reads = functions.filter(({ stateMutability }) =>
+    ['view', 'pure'].includes(stateMutability)
+  )
+  const writes = functions.filter(({ stateMutability }) =>
+    ['nonpayable', 'payable'].includes(stateMutability)
+  )
+  const events = abi.filter((item) => item.type === 'event')
+  const overloadedEvent = events.find(
+    ({ name }, index) =>
+      events.findIndex((other) => other.name === name) !== index
+  )
+  if (overloadedEvent) {
+    // watchContractEvent finds the event by name only
+    throw new Error(
+      `${contractName} overloads event ${overloadedEvent.name}, which the wrapper cannot watch`
+    )
+  }
+
+  const typeImports = ['Address', 'PublicClient', 'WalletClient']
+  if (functions.some(({ inputs }) => inputs.length > 0)) {
+    typeImports.push('ContractFunctionArgs')
+  }
+  if (writes.length > 0) typeImports.push('Account', 'Hash')
+  if (events.length > 0) typeImports.push('WatchContractEventOnLogsFn')
+
+  const methods = [
+    ...reads.map(
+      ({ name, methodName, overloaded, inputs }) => `
+  ${methodName}(${inputs.length > 0 ? `args: ${argsType(name, "'pure' | 'view'", inputs.length, overloaded)}` : ''}) {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi,
+      functionName: '${name}',${inputs.length > 0 ? '\n      args,' : ''}
+    })
+  }`
+    ),
+    ...writes.map(
+      ({ name, methodName, overloaded, inputs, stateMutability }) => {
+        const params = [
+          inputs.length > 0 &&
+            `args: ${argsType(name, "'nonpayable' | 'payable'", inputs.length, overloaded)}`,
+          stateMutability === 'payable' && 'value?: bigint',
+        ].filter(Boolean)
+
+        return `
+  async ${methodName}(${params.join(', ')}): Promise<Hash> {
+    const walletClient = this.requireWalletClient()
+    const { request } = await this.publicClient.simulateContract({
+      address: this.address,
+      abi,
+      functionName: '${name}',${inputs.length > 0 ? '\n      args,' : ''}${stateMutability === 'payable' ? '\n      value,' : ''}
+      account: await this.getAccount(walletClient),
+    })
+    return walletClient.writeContract({ ...request, chain: walletClient.chain })
+  }`
+      }
+    ),
+    ...events.map(
+      ({ name }) => `
+  watch${name}(onLogs: WatchContractEventOnLogsFn<typeof abi, '${name}', true>) {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi,
+      eventName: '${name}',
+      strict: true,
+      onLogs,
+    })
+  }`
+    ),
+  ]
+
+  const walletHelpers =
+    writes.length > 0
+      ? `
+  private requireWalletClient(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('${contractName}Contract needs a wallet client to write')
+    }
+    return this.walletClient
+  }
+
+  private async getAccount(walletClient: WalletClient): Promise<Account | Address> {
+    if (walletClient.account) return walletClient.account
+    const [address] = await walletClient.requestAddresses()
+    return address
+  }`
+      : ''
+
+  return `${header(sourceName)}
+import type { ${typeImports.sort().join(', ')} } from 'viem'
+import { ${contractName}Abi as abi } from './${contractName}.abi'
+
+// Typed reads, writes and event watchers for a deployed ${contractName}
+export class ${contractName}Contract {
+  readonly abi = abi
+
+  constructor(
+    readonly address: Address,
+    private readonly publicClient: PublicClient,
+    private readonly walletClient?: WalletClient
+  ) {}
+${methods.join('\n')}
+${walletHelpers}
+}
+`
+}
+
+function header(sourceName: string): string {
+  return `// Generated by \`npx hardhat generate-abis\` from ${sourceName}. Do not edit.`
+}
+
+type WrappedFunction = AbiFunction & {
+  methodName: string
+  overloaded: boolean
+}
+
+// One method per function. Of overloads, the one with the fewest inputs keeps
+// the name and the others add the inputs it lacks, ex: safeTransferFrom and
+// safeTransferFromWithData, or their types when those are unnamed
+function withMethodNames(functions: AbiFunction[]): WrappedFunction[] {
+  return functions.map((item) => {
+    const overloads = functions
+      .filter(({ name }) => name === item.name)
+      .toSorted((a, b) => a.inputs.length - b.inputs.length)
+    if (
+      overloads.some(
+        (other) => other !== item && other.inputs.length === item.inputs.length
+      )
+    ) {
+      throw new Error(
+        `Overloads of ${item.name} with ${item.inputs.length} inputs cannot be told apart by their arguments`
+      )
+    }
+    const [base] = overloads
+    if (item === base) {
+      return {
+        ...item,
+        methodName: item.name,
+        overloaded: overloads.length > 1,
+      }
+    }
+
+    const extra = item.inputs.slice(base.inputs.length)
+    const words = extra.every(({ name }) => name)
+      ? extra.map(({ name }) => name!.replace(/^_/, ''))
+      : extra.map(({ type }) => type.replace(/\W/g, ''))
+    const suffix = words
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join('And')
+    return {
+      ...item,
+      methodName: `${item.name}With${suffix}`,
+      overloaded: true,
+    }
+  })
+}
+
+// The args of a function, narrowed by their count to one overload
+function argsType(
+  name: string,
+  mutability: string,
+  inputCount: number,
+  overloaded: boolean
+): string {
+  const args = `ContractFunctionArgs<typeof abi, ${mutability}, '${name}'>`
+  return overloaded ? `Extract<${args}, { length: ${inputCount} }>` : args
+}
@@ -0,0 +1,79 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { HardhatUserConfig } from 'hardhat/config'
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+import { format, resolveConfig } from 'prettier'
+import { DeploymentTracker } from '../scripts/lib/deployments.js'
+import { isConfigurationVariable } from '../scripts/lib/environment.js'
+import {
+  buildNetworkRegistry,
+  renderRegistryModule,
+  type RegistryNetworkConfig,
+} from '../scripts/lib/registry.js'
+
+interface GenerateRegistryArguments {
+  check: boolean
+}
+
+/**
+ * Generates `registry.ts`, identical in web3/abis and app/src/contracts: the
+ * networks of hardhat.config.ts by chainId, with the latest deployment of
+ * each contract from deployments.json. With --check nothing is written: it
+ * fails if a checked-in file is out of date.
+ */
+export default async function generateRegistry(
+  { check }: GenerateRegistryArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const userNetworks = (hre.userConfig as HardhatUserConfig).networks ?? {}
+  const networks: Record<string, RegistryNetworkConfig> = {}
+  for (const [name, config] of Object.entries(hre.config.networks)) {
+    const url = userNetworks[name]?.type === 'http' && userNetworks[name].url
+    networks[name] = {
+      type: config.type,
+      chainId: config.chainId,
+      chainType: config.chainType,
+      rpcUrlVariable: isConfigurationVariable(url) ? url.name : undefined,
+    }
+  }
+
+  const root = hre.config.paths.root
+  const deployments = await new DeploymentTracker().getDeploymentHistory()
+  const prettierConfig = await resolveConfig(path.join(root, 'abis', 'x.ts'))
+  const content = await format(
+    renderRegistryModule(buildNetworkRegistry(networks, deployments)),
+    { ...prettierConfig, parser: 'typescript' }
+  )
+
+  const targets = [
+    path.join(root, 'abis', 'registry.ts'),
+    path.join(root, '..', 'app', 'src', 'contracts', 'registry.ts'),
+  ]
+  const relative = (filePath: string) => path.relative(process.cwd(), filePath)
+
+  const changed: string[] = []
+  for (const filePath of targets) {
+    const current = await readFile(filePath, 'utf8').catch(() => undefined)
+    if (current !== content) changed.push(filePath)
+  }
+
+  if (check) {
+    if (changed.length === 0) {
+      console.log('✅ Network registry is up to date')
+      return
+    }
+    for (const filePath of changed) {
+      console.error('❌ Out of date:', relative(filePath))
+    }
+    console.error('💡 Run "npx hardhat generate-registry" to update it')
+    process.exitCode = 1
+    return
+  }
+
+  for (const filePath of changed) {
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, content)
+    console.log('📁 Updated', relative(filePath))
+  }
+  console.log('✅ Network registry generated')
+}
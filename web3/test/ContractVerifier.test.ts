@@ -0,0 +1,202 @@
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { describe, it } from 'node:test'
+import hre from 'hardhat'
+import { DeploymentError } from '../scripts/lib/errors.js'
+import {
+  ContractVerifier,
+  getBrowserUrl,
+  loadVerificationInput,
+  type ContractVerifierOptions,
+} from '../scripts/lib/verify.js'
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3'
+const GUID = 'ezq878u486pzijkvvmerl6a9mzwhv6sefgvqi5tkwceejc7tvn'
+
+// Stand-in for Etherscan's contract API, answering checkverifystatus with
+// each of `statuses` in turn. A number is answered as that HTTP status
+async function startEtherscanStandIn(statuses: (string | number)[]) {
+  const submissions: URLSearchParams[] = []
+
+  const server = createServer(async (req, res) => {
+    let body = ''
+    for await (const chunk of req) body += chunk
+    const params =
+      req.method === 'POST'
+        ? new URLSearchParams(body)
+        : new URL(req.url!, 'http://localhost').searchParams
+
+    let response: object
+    if (params.get('action') === 'verifysourcecode') {
+      submissions.push(params)
+      response = { status: '1', message: 'OK', result: GUID }
+    } else {
+      const result = statuses.shift() ?? 'Unknown UID'
+      if (typeof result === 'number') {
+        res.statusCode = result
+        res.end()
+        return
+      }
+      response = {
+        status: result.startsWith('Pass') ? '1' : '0',
+        message: result.startsWith('Pass') ? 'OK' : 'NOTOK',
+        result,
+      }
+    }
+
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify(response))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    apiUrl: `http://127.0.0.1:${port}/api`,
+    submissions,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  }
+}
+
+describe('ContractVerifier', async function () {
+  const buildProfile = hre.globalOptions.buildProfile ?? 'default'
+  const source = await loadVerificationInput(hre, 'ZombieFactory', buildProfile)
+
+  function createVerifier(
+    apiUrl: string,
+    options: Partial<ContractVerifierOptions> = {}
+  ) {
+    return new ContractVerifier({
+      apiKey: 'test-key',
+      chainId: 11155111,
+      apiUrl,
+      browserUrl: 'https://sepolia.etherscan.io/',
+      pollIntervalMs: 1,
+      ...options,
+    })
+  }
+
+  it("Should take the explorer from the chain's descriptor", function () {
+    const { chainDescriptors } = hre.config
+
+    assert.equal(
+      getBrowserUrl(chainDescriptors, 11155111),
+      'https://sepolia.etherscan.io'
+    )
+    assert.equal(
+      getBrowserUrl(chainDescriptors, 10),
+      'https://optimistic.etherscan.io'
+    )
+    assert.equal(getBrowserUrl(chainDescriptors, 31337), undefined)
+  })
+
+  it('Should leave the links out for a chain without an explorer', async function () {
+    const etherscan = await startEtherscanStandIn(['Fail - Unable to verify'])
+
+    try {
+      const result = await createVerifier(etherscan.apiUrl, {
+        browserUrl: undefined,
+      }).verifyContract(ADDRESS, source)
+
+      assert.equal(result.success, false)
+      assert.equal(result.etherscanUrl, undefined)
+      assert.match(
+        result.manualInstructions!,
+        new RegExp(`Verify ${ADDRESS} by hand on the chain's explorer`)
+      )
+      assert.doesNotMatch(result.manualInstructions!, /https?:/)
+    } finally {
+      await etherscan.close()
+    }
+  })
+
+  it('Should submit the standard JSON input and poll until verified', async function () {
+    const etherscan = await startEtherscanStandIn([
+      'Pending in queue',
+      'Pending in queue',
+      'Pass - Verified',
+    ])
+
+    try {
+      const result = await createVerifier(etherscan.apiUrl).verifyContract(
+        ADDRESS,
+        source
+      )
+
+      assert.equal(result.success, true)
+      assert.equal(result.guid, GUID)
+      assert.equal(
+        result.etherscanUrl,
+        `https://sepolia.etherscan.io/address/${ADDRESS}#code`
+      )
+
+      const [submission] = etherscan.submissions
+      assert.equal(submission.get('chainid'), '11155111')
+      assert.equal(submission.get('codeformat'), 'solidity-standard-json-input')
+      assert.equal(submission.get('contractaddress'), ADDRESS)
+      assert.equal(
+        submission.get('contractname'),
+        'project/contracts/ZombieFactory.sol:ZombieFactory'
+      )
+      assert.match(submission.get('compilerversion')!, /^v0\.8\.28\+commit/)
+      assert.deepEqual(
+        JSON.parse(submission.get('sourceCode')!).settings,
+        source.input.settings
+      )
+    } finally {
+      await etherscan.close()
+    }
+  })
+
+  it('Should give manual instructions when verification fails', async function () {
+    const etherscan = await startEtherscanStandIn([
+      'Fail - Unable to verify. Compiled contract deployment bytecode does NOT match the transaction deployment bytecode.',
+    ])
+
+    try {
+      const result = await createVerifier(etherscan.apiUrl).verifyContract(
+        ADDRESS,
+        source
+      )
+
+      assert.equal(result.success, false)
+      assert.match(result.error!, /Unable to verify/)
+      assert.match(
+        result.manualInstructions!,
+        new RegExp(`verifyContract\\?a=${ADDRESS}`)
+      )
+      assert.match(result.manualInstructions!, /Standard-Json-Input/)
+    } finally {
+      await etherscan.close()
+    }
+  })
+
+  it('Should give manual instructions when polling the status fails', async function () {
+    const etherscan = await startEtherscanStandIn(['Pending in queue', 502])
+
+    try {
+      const result = await createVerifier(etherscan.apiUrl).verifyContract(
+        ADDRESS,
+        source
+      )
+
+      assert.equal(result.success, false)
+      assert.match(result.error!, new RegExp(`Polling ${GUID} failed`))
+      assert.match(result.error!, /HTTP 502/)
+      assert.match(result.manualInstructions!, /Standard-Json-Input/)
+    } finally {
+      await etherscan.close()
+    }
+  })
+
+  it('Should reject a build made with another profile', async function () {
+    const otherProfile =
+      buildProfile === 'production' ? 'default' : 'production'
+
+    await assert.rejects(
+      loadVerificationInput(hre, 'ZombieFactory', otherProfile),
+      (error) =>
+        error instanceof DeploymentError && error.code === 'VERIFICATION_FAILED'
+    )
+  })
+})
@@ -0,0 +1,298 @@
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { describe, it } from 'node:test'
+import hre, { network } from 'hardhat'
+import {
+  createPublicClient,
+  encodeAbiParameters,
+  http,
+  isAddressEqual,
+  parseGwei,
+  toHex,
+} from 'viem'
+import {
+  deployDependency,
+  deployZombieAttack,
+  resolveKittyContract,
+  runPreflightChecks,
+  SEPOLIA_FAUCET_INSTRUCTIONS,
+} from '../scripts/lib/deploy.js'
+import { validateEnvironment } from '../scripts/lib/environment.js'
+import { DeploymentError } from '../scripts/lib/errors.js'
+
+const SEPOLIA_CHAIN_ID = 11155111
+const DEPLOYER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+// The constructor only stores it: any address does for gas and deployment
+const KITTY_CONTRACT = '0x06012c8cf97BEaD5deAe237070F9587f8E7A266d'
+
+// Minimal JSON-RPC node answering each method with a canned result
+async function startJsonRpcStandIn(results: Record<string, unknown>) {
+  const server = createServer(async (req, res) => {
+    let body = ''
+    for await (const chunk of req) body += chunk
+    const { id, method } = JSON.parse(body)
+
+    res.setHeader('content-type', 'application/json')
+    res.end(
+      JSON.stringify(
+        method in results
+          ? { jsonrpc: '2.0', id, result: results[method] }
+          : {
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32601, message: `${method} not supported` },
+            }
+      )
+    )
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    publicClient: createPublicClient({
+      transport: http(`http://127.0.0.1:${port}`, { retryCount: 0 }),
+    }),
+    close: () => new Promise((resolve) => server.close(resolve)),
+  }
+}
+
+function isDeploymentError(code: DeploymentError['code']) {
+  return (error: unknown) =>
+    error instanceof DeploymentError && error.code === code
+}
+
+describe('Deploy ZombieAttack', async function () {
+  const { viem } = await network.connect('hardhatMainnet')
+  const publicClient = await viem.getPublicClient()
+  const [walletClient] = await viem.getWalletClients()
+  const kittyMock = await hre.artifacts.readArtifact('KittyMock')
+  const artifact = {
+    ...(await hre.artifacts.readArtifact('ZombieAttack')),
+    args: [KITTY_CONTRACT],
+  }
+
+  it('Should deploy with the gas overrides and check getZombiesCount()', async function () {
+    const overrides = { gasPrice: parseGwei('2'), gasLimit: 4_000_000n }
+
+    const estimate = await runPreflightChecks({
+      publicClient,
+      account: walletClient.account.address,
+      artifact,
+      expectedChainId: await publicClient.getChainId(),
+      overrides,
+    })
+    assert.equal(estimate.cost, 4_000_000n * parseGwei('2'))
+
+    const result = await deployZombieAttack(
+      publicClient,
+      walletClient,
+      artifact,
+      estimate
+    )
+    const tx = await publicClient.getTransaction({
+      hash: result.transactionHash,
+    })
+
+    assert.equal(tx.gas, overrides.gasLimit)
+    assert.equal(tx.gasPrice, overrides.gasPrice)
+    assert.equal(result.deploymentCost, result.gasUsed * overrides.gasPrice)
+    assert(result.gasUsed <= overrides.gasLimit)
+    assert.equal(result.zombiesCount, 0n)
+  })
+
+  it('Should estimate gas close to what the deployment uses', async function () {
+    const estimate = await runPreflightChecks({
+      publicClient,
+      account: walletClient.account.address,
+      artifact,
+      expectedChainId: await publicClient.getChainId(),
+    })
+    const result = await deployZombieAttack(
+      publicClient,
+      walletClient,
+      artifact,
+      estimate
+    )
+
+    assert.equal(result.gasUsed, estimate.gasLimit)
+  })
+
+  it('Should deploy ZombieAttack on a new KittyMock with its constructor arguments', async function () {
+    const kitty = await resolveKittyContract(
+      publicClient,
+      walletClient.account.address,
+      kittyMock
+    )
+    assert.equal(kitty.mock, kittyMock)
+    const zombieAttack = { ...artifact, args: [kitty.address] }
+
+    const estimate = await runPreflightChecks({
+      publicClient,
+      account: walletClient.account.address,
+      artifact: zombieAttack,
+      expectedChainId: await publicClient.getChainId(),
+      dependencies: [kitty.mock!],
+    })
+    assert.equal(
+      estimate.totalCost,
+      estimate.cost + estimate.dependencies[0].cost
+    )
+    const kittyAddress = await deployDependency(
+      publicClient,
+      walletClient,
+      kitty.mock!,
+      estimate.dependencies[0]
+    )
+    const result = await deployZombieAttack(
+      publicClient,
+      walletClient,
+      zombieAttack,
+      estimate
+    )
+    const deployed = await viem.getContractAt(
+      'ZombieAttack',
+      result.contractAddress
+    )
+
+    assert(isAddressEqual(kittyAddress, kitty.address))
+    assert(isAddressEqual(await deployed.read.kittyContract(), kitty.address))
+    assert.equal(
+      result.constructorArguments,
+      encodeAbiParameters([{ type: 'address' }], [kitty.address])
+    )
+    assert.deepEqual(
+      await resolveKittyContract(
+        publicClient,
+        walletClient.account.address,
+        kittyMock,
+        kitty.address
+      ),
+      { address: kitty.address }
+    )
+  })
+
+  it('Should refuse a KITTY_CONTRACT without code', async function () {
+    await assert.rejects(
+      resolveKittyContract(
+        publicClient,
+        walletClient.account.address,
+        kittyMock,
+        '0x000000000000000000000000000000000000dEaD'
+      ),
+      isDeploymentError('INVALID_CONFIG')
+    )
+  })
+
+  it('Should require KITTY_CONTRACT off the local chain', async function () {
+    const standIn = await startJsonRpcStandIn({
+      eth_chainId: toHex(SEPOLIA_CHAIN_ID),
+      eth_getTransactionCount: toHex(0),
+    })
+
+    try {
+      await assert.rejects(
+        resolveKittyContract(standIn.publicClient, DEPLOYER, kittyMock),
+        isDeploymentError('INVALID_CONFIG')
+      )
+    } finally {
+      await standIn.close()
+    }
+  })
+
+  it('Should refuse to deploy when the RPC is on another chain', async function () {
+    const standIn = await startJsonRpcStandIn({ eth_chainId: toHex(1) })
+
+    try {
+      await assert.rejects(
+        runPreflightChecks({
+          publicClient: standIn.publicClient,
+          account: DEPLOYER,
+          artifact,
+          expectedChainId: SEPOLIA_CHAIN_ID,
+        }),
+        isDeploymentError('CHAIN_MISMATCH')
+      )
+    } finally {
+      await standIn.close()
+    }
+  })
+
+  it('Should refuse to deploy when the balance does not cover the gas', async function () {
+    const standIn = await startJsonRpcStandIn({
+      eth_chainId: toHex(SEPOLIA_CHAIN_ID),
+      eth_estimateGas: toHex(603_165),
+      eth_gasPrice: toHex(parseGwei('1')),
+      eth_getBalance: toHex(parseGwei('1')),
+    })
+
+    try {
+      await assert.rejects(
+        runPreflightChecks({
+          publicClient: standIn.publicClient,
+          account: DEPLOYER,
+          artifact,
+          expectedChainId: SEPOLIA_CHAIN_ID,
+        }),
+        (error) =>
+          isDeploymentError('INSUFFICIENT_BALANCE')(error) &&
+          (error as DeploymentError).instructions ===
+            SEPOLIA_FAUCET_INSTRUCTIONS
+      )
+    } finally {
+      await standIn.close()
+    }
+  })
+
+  it('Should count the dependencies in the balance check', async function () {
+    // Covers one 603,165 gas deployment at 1 gwei, not two
+    const standIn = await startJsonRpcStandIn({
+      eth_chainId: toHex(SEPOLIA_CHAIN_ID),
+      eth_estimateGas: toHex(603_165),
+      eth_gasPrice: toHex(parseGwei('1')),
+      eth_getBalance: toHex(parseGwei('1000000')),
+    })
+    const options = {
+      publicClient: standIn.publicClient,
+      account: DEPLOYER,
+      artifact,
+      expectedChainId: SEPOLIA_CHAIN_ID,
+    } as const
+
+    try {
+      const estimate = await runPreflightChecks(options)
+      assert.equal(estimate.totalCost, estimate.cost)
+      await assert.rejects(
+        runPreflightChecks({ ...options, dependencies: [kittyMock] }),
+        isDeploymentError('INSUFFICIENT_BALANCE')
+      )
+    } finally {
+      await standIn.close()
+    }
+  })
+
+  it('Should report missing and malformed config variables', function () {
+    const result = validateEnvironment(
+      {
+        SEPOLIA_RPC_URL: 'not a url',
+        SEPOLIA_PRIVATE_KEY: undefined,
+        GAS_LIMIT: '1.5',
+        KITTY_CONTRACT: '0x06012c8cf97bead5deae237070f9587f8e7a266',
+      },
+      ['SEPOLIA_RPC_URL', 'SEPOLIA_PRIVATE_KEY']
+    )
+
+    assert.equal(result.isValid, false)
+    assert.deepEqual(result.missingVariables, ['SEPOLIA_PRIVATE_KEY'])
+    assert.equal(result.errors.length, 4)
+
+    assert.equal(
+      validateEnvironment({
+        SEPOLIA_RPC_URL: 'https://sepolia.infura.io/v3/key',
+        SEPOLIA_PRIVATE_KEY: `0x${'1'.repeat(64)}`,
+        KITTY_CONTRACT: '0x06012c8cf97BEaD5deAe237070F9587f8E7A266d',
+      }).isValid,
+      true
+    )
+  })
+})
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import type { Address } from 'viem'
+import {
+  DeploymentTracker,
+  type DeploymentRecord,
+} from '../scripts/lib/deployments.js'
+import { DeploymentError } from '../scripts/lib/errors.js'
+
+async function createTracker() {
+  const dir = await mkdtemp(path.join(tmpdir(), 'deployments-'))
+  return new DeploymentTracker(path.join(dir, 'deployments.json'))
+}
+
+function record(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    contractName: 'ZombieFactory',
+    network: 'sepolia',
+    chainId: 11155111,
+    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    transactionHash: `0x${'ab'.repeat(32)}`,
+    blockNumber: '1',
+    gasUsed: '250000',
+    compilerProfile: 'production',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('DeploymentTracker', async function () {
+  const { viem, networkName } = await network.connect()
+  const publicClient = await viem.getPublicClient()
+
+  it('Should record a deployment of ZombieFactory', async function () {
+    const tracker = await createTracker()
+
+    const { contract: zombieFactory, deploymentTransaction } =
+      await viem.sendDeploymentTransaction('ZombieFactory')
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: deploymentTransaction.hash,
+    })
+
+    await tracker.saveDeployment(
+      record({
+        network: networkName,
+        chainId: await publicClient.getChainId(),
+        address: zombieFactory.address,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber.toString(),
+        gasUsed: receipt.gasUsed.toString(),
+      })
+    )
+
+    const latest = await tracker.getLatestDeployment({ network: networkName })
+    assert.equal(latest?.address, zombieFactory.address)
+    assert(BigInt(latest.gasUsed) > 0n, 'Gas used should be recorded')
+  })
+
+  it('Should keep the full history and query it', async function () {
+    const tracker = await createTracker()
+    const redeployed = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512'
+
+    await tracker.saveDeployment(record())
+    await tracker.saveDeployment(
+      record({ network: 'hardhatMainnet', chainId: 31337 })
+    )
+    await tracker.saveDeployment(
+      record({ address: redeployed, timestamp: '2025-03-01T00:00:00.000Z' })
+    )
+
+    assert.equal((await tracker.getDeploymentHistory()).length, 3)
+    assert.equal((await tracker.query({ network: 'sepolia' })).length, 2)
+    assert.equal(
+      (await tracker.query({ address: redeployed.toLowerCase() as Address }))
+        .length,
+      1
+    )
+    assert.equal(
+      (await tracker.query({ from: new Date('2025-02-01') })).length,
+      1
+    )
+    assert.equal(
+      (await tracker.getLatestDeployment({ network: 'sepolia' }))?.address,
+      redeployed
+    )
+  })
+
+  it('Should reject a tampered deployments file', async function () {
+    const tracker = await createTracker()
+    await tracker.saveDeployment(record())
+
+    const raw = await readFile(tracker.filePath, 'utf8')
+    await writeFile(tracker.filePath, raw.replace('250000', '1'))
+
+    await assert.rejects(
+      tracker.getDeploymentHistory(),
+      (error) =>
+        error instanceof DeploymentError &&
+        error.code === 'DEPLOYMENTS_FILE_CORRUPTED'
+    )
+  })
+
+  it('Should refuse to save an incomplete deployment', async function () {
+    const tracker = await createTracker()
+
+    await assert.rejects(
+      tracker.saveDeployment(record({ address: '0x123' as any })),
+      DeploymentError
+    )
+    await assert.rejects(
+      tracker.saveDeployment(
+        record({ constructorArguments: 'kitty address' as any })
+      ),
+      DeploymentError
+    )
+    assert.deepEqual(await tracker.getDeploymentHistory(), [])
+  })
+})
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import hre, { network } from 'hardhat'
+import {
+  installMulticall3,
+  MULTICALL3_ADDRESS,
+} from '../scripts/lib/multicall3.js'
+
+describe('Multicall3', async function () {
+  const { viem, provider } = await network.connect()
+  const publicClient = await viem.getPublicClient()
+
+  it('Should install Multicall3 at its canonical address only once', async function () {
+    assert.equal(
+      await installMulticall3(provider, publicClient, hre.artifacts),
+      MULTICALL3_ADDRESS
+    )
+    const code = await publicClient.getCode({ address: MULTICALL3_ADDRESS })
+
+    await installMulticall3(provider, publicClient, hre.artifacts)
+    assert.equal(
+      await publicClient.getCode({ address: MULTICALL3_ADDRESS }),
+      code
+    )
+  })
+
+  it('Should batch zombies(i) reads pinned to a block', async function () {
+    await installMulticall3(provider, publicClient, hre.artifacts)
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+    for (const name of ['Ghoul', 'Walker', 'Crawler']) {
+      await zombieFactory.write.createRandomZombie([name])
+    }
+    const blockNumber = await publicClient.getBlockNumber()
+    await zombieFactory.write.createRandomZombie(['Late'])
+
+    const contract = { address: zombieFactory.address, abi: zombieFactory.abi }
+    const zombies = await publicClient.multicall({
+      contracts: [0n, 1n, 2n, 3n].map(
+        (id) => ({ ...contract, functionName: 'zombies', args: [id] }) as const
+      ),
+      multicallAddress: MULTICALL3_ADDRESS,
+      blockNumber,
+    })
+
+    // Zombie 3 did not exist yet at that block
+    assert.deepEqual(
+      zombies.map(({ status, result }) => status === 'success' && result[0]),
+      ['Ghoul', 'Walker', 'Crawler', false]
+    )
+  })
+})
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { DeploymentRecord } from '../scripts/lib/deployments.js'
+import {
+  buildNetworkRegistry,
+  renderRegistryModule,
+  type RegistryNetworkConfig,
+} from '../scripts/lib/registry.js'
+
+const networks: Record<string, RegistryNetworkConfig> = {
+  default: { type: 'edr-simulated', chainId: 31337, chainType: 'generic' },
+  hardhatMainnet: { type: 'edr-simulated', chainId: 31337, chainType: 'l1' },
+  sepolia: {
+    type: 'http',
+    chainId: 11155111,
+    chainType: 'l1',
+    rpcUrlVariable: 'SEPOLIA_RPC_URL',
+  },
+  // chainId read from the node, not known ahead of time
+  custom: { type: 'http' },
+}
+
+function record(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+  return {
+    contractName: 'ZombieFactory',
+    network: 'sepolia',
+    chainId: 11155111,
+    address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    transactionHash: `0x${'ab'.repeat(32)}`,
+    blockNumber: '100',
+    gasUsed: '250000',
+    compilerProfile: 'production',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('NetworkRegistry', function () {
+  it('Should list the http networks with a chainId, even without deployments', function () {
+    assert.deepEqual(buildNetworkRegistry(networks, []), {
+      11155111: {
+        network: 'sepolia',
+        chainType: 'l1',
+        rpcUrlVariable: 'SEPOLIA_RPC_URL',
+        contracts: {},
+      },
+    })
+  })
+
+  it('Should keep the latest deployment per chain and skip in-memory networks', function () {
+    const redeployed = record({
+      address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+      blockNumber: '200',
+    })
+    const registry = buildNetworkRegistry(networks, [
+      record(),
+      record({ network: 'hardhatMainnet', chainId: 31337 }),
+      record({ network: 'default', chainId: 31337 }),
+      redeployed,
+    ])
+
+    assert.deepEqual(Object.keys(registry), ['11155111'])
+    assert.deepEqual(registry[11155111].contracts.ZombieFactory, {
+      address: redeployed.address,
+      startBlock: 200n,
+      transactionHash: redeployed.transactionHash,
+    })
+  })
+
+  it('Should keep deployments of networks no longer in the config', function () {
+    const registry = buildNetworkRegistry(networks, [
+      record({ network: 'holesky', chainId: 17000 }),
+    ])
+
+    assert.equal(registry[17000].network, 'holesky')
+    assert.equal(registry[17000].contracts.ZombieFactory?.startBlock, 100n)
+  })
+
+  it('Should render bigints as literals and drop undefined fields', function () {
+    const source = renderRegistryModule(
+      buildNetworkRegistry({}, [record({ network: 'holesky', chainId: 17000 })])
+    )
+
+    assert.match(source, /17000: \{/)
+    assert.match(source, /"startBlock": 100n/)
+    assert.doesNotMatch(source, /rpcUrlVariable":/)
+  })
+})
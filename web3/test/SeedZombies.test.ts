@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import { getAddress } from 'viem'
+import {
+  generateZombieNames,
+  MAX_GENERATED_NAMES,
+  seedZombies,
+} from '../scripts/lib/seed.js'
+
+describe('SeedZombies', async function () {
+  const { viem } = await network.connect()
+  const publicClient = await viem.getPublicClient()
+  const walletClients = (await viem.getWalletClients()).slice(0, 3)
+
+  it('Should generate distinct names the contract accepts', async function () {
+    const names = generateZombieNames(50)
+
+    assert.equal(new Set(names).size, 50)
+    for (const name of names) assert.match(name, /^[A-Za-z]+\d+$/)
+  })
+
+  it('Should refuse more names than it can generate', function () {
+    assert.equal(MAX_GENERATED_NAMES, 100_000)
+    assert.throws(
+      () => generateZombieNames(MAX_GENERATED_NAMES + 1),
+      /Cannot generate 100001 different names, at most 100000/
+    )
+  })
+
+  it('Should seed one zombie per name, the wallets taking turns', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+    const names = ['Ghoul', 'Walker', 'Crawler', 'Stalker']
+
+    const seeded = await seedZombies(
+      publicClient,
+      walletClients,
+      zombieFactory.address,
+      names
+    )
+
+    assert.deepEqual(
+      seeded.map(({ zombieId, name }) => [zombieId, name]),
+      names.map((name, index) => [BigInt(index), name])
+    )
+    for (const [index, { zombieId, owner }] of seeded.entries()) {
+      const expected = walletClients[index % walletClients.length]
+      assert.equal(owner, expected.account.address)
+      assert.equal(
+        await zombieFactory.read.ownerOf([zombieId]),
+        getAddress(owner)
+      )
+    }
+  })
+})
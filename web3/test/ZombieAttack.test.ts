@@ -0,0 +1,210 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import { getAddress, parseEther } from 'viem'
+
+// ZombieAttackMock rolls: below ATTACK_VICTORY_PROBABILITY (70) wins
+const WIN = 0n
+const LOSE = 99n
+
+const ONE_DAY = 24 * 60 * 60
+const LEVEL_UP_FEE = parseEther('0.001')
+
+describe('ZombieAttack', async function () {
+  const { viem, networkHelpers } = await network.connect()
+  const publicClient = await viem.getPublicClient()
+  const [owner, other] = await viem.getWalletClients()
+  const ownerAddress = getAddress(owner.account.address)
+  const otherAddress = getAddress(other.account.address)
+
+  // Zombie 0 belongs to owner, zombie 1 to other
+  async function deployWithZombies() {
+    const kittyMock = await viem.deployContract('KittyMock')
+    const zombieAttack = await viem.deployContract('ZombieAttackMock', [
+      kittyMock.address,
+    ])
+    await zombieAttack.write.createRandomZombie(['Ghoul'])
+    await zombieAttack.write.createRandomZombie(['Walker'], {
+      account: other.account,
+    })
+    return zombieAttack
+  }
+
+  it('Should create level 1 zombies, ready right away', async function () {
+    const zombieAttack = await deployWithZombies()
+
+    const [name, , level, readyTime, winCount, lossCount] =
+      await zombieAttack.read.zombies([0n])
+    assert.equal(name, 'Ghoul')
+    assert.equal(level, 1)
+    assert(readyTime <= (await networkHelpers.time.latest()))
+    assert.equal(winCount, 0)
+    assert.equal(lossCount, 0)
+  })
+
+  it('Should level up the winner and give it the offspring', async function () {
+    const zombieAttack = await deployWithZombies()
+    const [, enemyDna] = await zombieAttack.read.zombies([1n])
+    const [, zombieDna] = await zombieAttack.read.zombies([0n])
+
+    await zombieAttack.write.setNextRoll([WIN])
+    await viem.assertions.emitWithArgs(
+      zombieAttack.write.attack([0n, 1n]),
+      zombieAttack,
+      'AttackWon',
+      [0n, 1n, 2n]
+    )
+
+    const [, , level, readyTime, winCount] = await zombieAttack.read.zombies([
+      0n,
+    ])
+    assert.equal(level, 2)
+    assert.equal(winCount, 1)
+    assert.equal(readyTime, (await networkHelpers.time.latest()) + ONE_DAY)
+    const [, , , , , enemyLossCount] = await zombieAttack.read.zombies([1n])
+    assert.equal(enemyLossCount, 1)
+
+    const average = (zombieDna + enemyDna) / 2n
+    const [, offspringDna, offspringLevel] = await zombieAttack.read.zombies([
+      2n,
+    ])
+    assert.equal(offspringDna, average - (average % 100n))
+    assert.equal(offspringLevel, 1)
+    assert.equal(await zombieAttack.read.ownerOf([2n]), ownerAddress)
+  })
+
+  it('Should count a defeat for the attacker and a win for the target', async function () {
+    const zombieAttack = await deployWithZombies()
+
+    await zombieAttack.write.setNextRoll([LOSE])
+    await viem.assertions.emitWithArgs(
+      zombieAttack.write.attack([0n, 1n]),
+      zombieAttack,
+      'AttackLost',
+      [0n, 1n]
+    )
+
+    const [, , level, , winCount, lossCount] = await zombieAttack.read.zombies([
+      0n,
+    ])
+    assert.equal(level, 1)
+    assert.equal(winCount, 0)
+    assert.equal(lossCount, 1)
+    const [, , , , enemyWinCount] = await zombieAttack.read.zombies([1n])
+    assert.equal(enemyWinCount, 1)
+    assert.equal(await zombieAttack.read.getZombiesCount(), 2n)
+  })
+
+  it('Should enforce the cooldown after an attack', async function () {
+    const zombieAttack = await deployWithZombies()
+    await zombieAttack.write.setNextRoll([LOSE])
+
+    await zombieAttack.write.attack([0n, 1n])
+    const [, , , readyTime] = await zombieAttack.read.zombies([0n])
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieAttack.write.attack([0n, 1n]),
+      zombieAttack,
+      'ZombieNotReady',
+      [0n, BigInt(readyTime)]
+    )
+    await networkHelpers.time.setNextBlockTimestamp(readyTime - 1)
+    await viem.assertions.revertWithCustomError(
+      zombieAttack.write.attack([0n, 1n]),
+      zombieAttack,
+      'ZombieNotReady'
+    )
+
+    // The other zombies are not affected
+    await zombieAttack.write.attack([1n, 0n], { account: other.account })
+
+    await networkHelpers.time.increaseTo(readyTime)
+    await zombieAttack.write.attack([0n, 1n])
+    const [, , , , , lossCount] = await zombieAttack.read.zombies([0n])
+    assert.equal(lossCount, 2)
+  })
+
+  it('Should put a zombie on cooldown after feeding', async function () {
+    const kittyMock = await viem.deployContract('KittyMock')
+    const zombieAttack = await viem.deployContract('ZombieAttackMock', [
+      kittyMock.address,
+    ])
+    await kittyMock.write.setKitty([1n, 1234567890123456n])
+    await zombieAttack.write.createRandomZombie(['Ghoul'])
+
+    await zombieAttack.write.feedOnKitty([0n, 1n])
+    await viem.assertions.revertWithCustomError(
+      zombieAttack.write.feedOnKitty([0n, 1n]),
+      zombieAttack,
+      'ZombieNotReady'
+    )
+
+    await networkHelpers.time.increase(ONE_DAY)
+    await zombieAttack.write.feedOnKitty([0n, 1n])
+    assert.equal(await zombieAttack.read.getZombiesCount(), 3n)
+  })
+
+  it('Should only let the owner attack, and not the zombie itself', async function () {
+    const zombieAttack = await deployWithZombies()
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieAttack.write.attack([1n, 0n]),
+      zombieAttack,
+      'NotZombieOwner',
+      [ownerAddress, 1n]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieAttack.write.attack([0n, 0n]),
+      zombieAttack,
+      'CannotAttackItself',
+      [0n]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieAttack.write.attack([0n, 5n]),
+      zombieAttack,
+      'ERC721NonexistentToken',
+      [5n]
+    )
+
+    // Owning a zombie is enough, unlike feeding
+    await zombieAttack.write.transferFrom([otherAddress, ownerAddress, 1n], {
+      account: other.account,
+    })
+    await zombieAttack.write.attack([1n, 0n])
+  })
+
+  it('Should level up for exactly the fee, and send fees to the treasury', async function () {
+    const zombieAttack = await deployWithZombies()
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieAttack.write.levelUp([0n], { value: LEVEL_UP_FEE - 1n }),
+      zombieAttack,
+      'IncorrectLevelUpFee',
+      [LEVEL_UP_FEE - 1n, LEVEL_UP_FEE]
+    )
+    await viem.assertions.emitWithArgs(
+      zombieAttack.write.levelUp([1n], {
+        value: LEVEL_UP_FEE,
+        account: owner.account,
+      }),
+      zombieAttack,
+      'LevelUp',
+      [1n, 2n]
+    )
+    const [, , level] = await zombieAttack.read.zombies([1n])
+    assert.equal(level, 2)
+
+    assert.equal(await zombieAttack.read.treasury(), ownerAddress)
+    await viem.assertions.balancesHaveChanged(
+      zombieAttack.write.withdraw({ account: other.account }),
+      [
+        { address: ownerAddress, amount: LEVEL_UP_FEE },
+        { address: zombieAttack.address, amount: -LEVEL_UP_FEE },
+      ]
+    )
+    assert.equal(
+      await publicClient.getBalance({ address: zombieAttack.address }),
+      0n
+    )
+  })
+})
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import {
+  encodeAbiParameters,
+  keccak256,
+  parseAbiParameters,
+  toHex,
+  type Hex,
+} from 'viem'
+
+const REVEAL_DELAY = 2n
+const REVEAL_WINDOW = 256n
+
+function commitmentOf(name: string, secret: Hex): Hex {
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters('string, bytes32'), [name, secret])
+  )
+}
+
+describe('ZombieFactory commit-reveal', async function () {
+  const { viem, networkHelpers } = await network.connect()
+  const publicClient = await viem.getPublicClient()
+  const [owner, other] = await viem.getWalletClients()
+  const secret = toHex(0x5ec12e7n, { size: 32 })
+
+  // Commits `name` and returns the reveal block
+  async function commit(
+    zombieFactory: Awaited<ReturnType<typeof deploy>>,
+    name: string
+  ) {
+    await zombieFactory.write.commitZombie([commitmentOf(name, secret)])
+    return (await publicClient.getBlockNumber()) + REVEAL_DELAY
+  }
+
+  function deploy() {
+    return viem.deployContract('ZombieFactory')
+  }
+
+  it('Should mint with DNA from the secret and the reveal block hash', async function () {
+    const zombieFactory = await deploy()
+    const commitment = commitmentOf('Ghoul', secret)
+
+    await viem.assertions.emit(
+      zombieFactory.write.commitZombie([commitment]),
+      zombieFactory,
+      'ZombieCommitted'
+    )
+    const committedAt = await publicClient.getBlockNumber()
+    assert.equal(
+      await zombieFactory.read.commitments([owner.account.address, commitment]),
+      committedAt
+    )
+
+    const revealBlock = committedAt + REVEAL_DELAY
+    await networkHelpers.mine(Number(REVEAL_DELAY))
+    await zombieFactory.write.revealZombie(['Ghoul', secret])
+
+    const { hash } = await publicClient.getBlock({ blockNumber: revealBlock })
+    const seed = BigInt(
+      keccak256(
+        encodeAbiParameters(parseAbiParameters('bytes32, bytes32'), [
+          secret,
+          hash,
+        ])
+      )
+    )
+    const dna = seed % 10n ** 16n
+    const [name, zombieDna] = await zombieFactory.read.zombies([0n])
+    assert.equal(name, 'Ghoul')
+    assert.equal(zombieDna, dna - (dna % 100n))
+    assert.equal(
+      await zombieFactory.read.ownerOf([0n]),
+      await zombieFactory.read.zombieToCreator([0n])
+    )
+    assert.equal(
+      await zombieFactory.read.commitments([owner.account.address, commitment]),
+      0n
+    )
+  })
+
+  it('Should refuse to reveal before the reveal block is mined', async function () {
+    const zombieFactory = await deploy()
+    const revealBlock = await commit(zombieFactory, 'Ghoul')
+
+    // The next transaction is mined in the reveal block itself
+    await networkHelpers.mine(Number(REVEAL_DELAY) - 1)
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.revealZombie(['Ghoul', secret]),
+      zombieFactory,
+      'RevealTooEarly',
+      [revealBlock]
+    )
+
+    await networkHelpers.mine(1)
+    await zombieFactory.write.revealZombie(['Ghoul', secret])
+    assert.equal(await zombieFactory.read.getZombiesCount(), 1n)
+  })
+
+  it('Should only reveal the committed name and secret, for its committer, once', async function () {
+    const zombieFactory = await deploy()
+    await commit(zombieFactory, 'Ghoul')
+    await networkHelpers.mine(Number(REVEAL_DELAY))
+
+    for (const [name, zombieSecret] of [
+      ['Walker', secret],
+      ['Ghoul', toHex(1n, { size: 32 })],
+    ] as const) {
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        zombieFactory.write.revealZombie([name, zombieSecret]),
+        zombieFactory,
+        'UnknownCommitment',
+        [commitmentOf(name, zombieSecret)]
+      )
+    }
+    await viem.assertions.revertWithCustomError(
+      zombieFactory.write.revealZombie(['Ghoul', secret], {
+        account: other.account,
+      }),
+      zombieFactory,
+      'UnknownCommitment'
+    )
+
+    await zombieFactory.write.revealZombie(['Ghoul', secret])
+    await viem.assertions.revertWithCustomError(
+      zombieFactory.write.revealZombie(['Ghoul', secret]),
+      zombieFactory,
+      'UnknownCommitment'
+    )
+  })
+
+  it('Should expire commitments that are not revealed in time', async function () {
+    const zombieFactory = await deploy()
+    const revealBlock = await commit(zombieFactory, 'Ghoul')
+
+    // The reveal would be mined in revealBlock + REVEAL_WINDOW + 1
+    const blockNumber = await publicClient.getBlockNumber()
+    await networkHelpers.mine(revealBlock + REVEAL_WINDOW - blockNumber)
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.revealZombie(['Ghoul', secret]),
+      zombieFactory,
+      'CommitmentExpired',
+      [revealBlock]
+    )
+
+    // Committing again gives it a new reveal block
+    await commit(zombieFactory, 'Ghoul')
+    await networkHelpers.mine(Number(REVEAL_DELAY))
+    await zombieFactory.write.revealZombie(['Ghoul', secret])
+    assert.equal(await zombieFactory.read.getZombiesCount(), 1n)
+  })
+})
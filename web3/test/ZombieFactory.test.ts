@@ -2,6 +2,7 @@ import assert from 'node:assert/strict'
 import { describe, it } from 'node:test'
 import { network } from 'hardhat'
 import { ZombieFactoryAbi } from '../abis/ZombieFactory.abi.js'
+import ZombieFactoryModule from '../ignition/modules/ZombieFactory.js'
 
 // Função para gerar nomes aleatórios de zombies
 function generateRandomZombieName(): string {
@@ -38,9 +39,15 @@ function generateRandomZombieName(): string {
 }
 
 describe('ZombieFactory', async function () {
-  const { viem } = await network.connect()
+  const { ignition, viem } = await network.connect()
   const publicClient = await viem.getPublicClient()
 
+  it('Should deploy with the Ignition module', async function () {
+    const { zombieFactory } = await ignition.deploy(ZombieFactoryModule)
+
+    assert.equal(await zombieFactory.read.getZombiesCount(), 0n)
+  })
+
   it('Should emit the NewZombie event when calling createRandomZombie()', async function () {
     const zombieFactory = await viem.deployContract('ZombieFactory')
     const zombieName = generateRandomZombieName()
@@ -70,12 +77,14 @@ describe('ZombieFactory', async function () {
     const zombieFactory = await viem.deployContract('ZombieFactory')
     const deploymentBlockNumber = await publicClient.getBlockNumber()
 
-    // Gerar nomes aleatórios e criar zombies
+    // Gerar nomes aleatórios (distintos, o contrato recusa repetidos) e
+    // criar zombies
     const zombieNames: string[] = []
     const numZombies = 5
 
-    for (let i = 0; i < numZombies; i++) {
+    while (zombieNames.length < numZombies) {
       const name = generateRandomZombieName()
+      if (zombieNames.includes(name)) continue
       zombieNames.push(name)
       await zombieFactory.write.createRandomZombie([name])
     }
@@ -105,10 +114,7 @@ describe('ZombieFactory', async function () {
 
     // Validar que podemos ler os zombies do contrato
     for (let i = 0; i < numZombies; i++) {
-      const zombie = (await zombieFactory.read.zombies([BigInt(i)])) as [
-        string,
-        bigint,
-      ]
+      const zombie = await zombieFactory.read.zombies([BigInt(i)])
       assert.equal(zombie[0], zombieNames[i], 'Zombie name should match')
       assert.equal(typeof zombie[1], 'bigint', 'Zombie DNA should be a bigint')
     }
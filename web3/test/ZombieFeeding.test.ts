@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import { getAddress } from 'viem'
+import ZombieFeedingModule from '../ignition/modules/ZombieFeeding.js'
+
+const KITTY_GENES = 5_142_957_193_710_362_812_449n
+
+describe('ZombieFeeding', async function () {
+  const { ignition, viem } = await network.connect('hardhatMainnet')
+  const [owner, other] = await viem.getWalletClients()
+  const ownerAddress = getAddress(owner.account.address)
+  const otherAddress = getAddress(other.account.address)
+
+  async function deployWithKitty() {
+    const { kittyMock, zombieFeeding } =
+      await ignition.deploy(ZombieFeedingModule)
+    await kittyMock.write.setKitty([1n, KITTY_GENES])
+    await zombieFeeding.write.createRandomZombie(['Ghoul'])
+    return { kittyMock, zombieFeeding }
+  }
+
+  it('Should deploy with KittyMock on hardhatMainnet', async function () {
+    const { kittyMock, zombieFeeding } = await deployWithKitty()
+
+    assert.equal(
+      await zombieFeeding.read.kittyContract(),
+      getAddress(kittyMock.address)
+    )
+    assert.equal(await zombieFeeding.read.zombieToCreator([0n]), ownerAddress)
+    const [, dna] = await zombieFeeding.read.zombies([0n])
+    assert.equal(dna % 100n, 0n, 'Created zombies have species marker 00')
+  })
+
+  it('Should create a zombie with the blended DNA and the kitty marker', async function () {
+    const { zombieFeeding } = await deployWithKitty()
+    const [, zombieDna] = await zombieFeeding.read.zombies([0n])
+
+    await zombieFeeding.write.feedOnKitty([0n, 1n])
+
+    const average = (zombieDna + (KITTY_GENES % 10n ** 16n)) / 2n
+    const [name, dna] = await zombieFeeding.read.zombies([1n])
+    assert.equal(name, 'NoName')
+    assert.equal(dna, average - (average % 100n) + 99n)
+    assert.equal(await zombieFeeding.read.ownerOf([1n]), ownerAddress)
+    assert.equal(await zombieFeeding.read.zombieToCreator([1n]), ownerAddress)
+  })
+
+  it('Should only let the creator feed a zombie', async function () {
+    const { zombieFeeding } = await deployWithKitty()
+
+    // Owning the zombie is not enough
+    await zombieFeeding.write.transferFrom([ownerAddress, otherAddress, 0n])
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFeeding.write.feedOnKitty([0n, 1n], { account: other.account }),
+      zombieFeeding,
+      'NotZombieCreator',
+      [otherAddress, 0n]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFeeding.write.feedOnKitty([1n, 1n]),
+      zombieFeeding,
+      'ERC721NonexistentToken',
+      [1n]
+    )
+
+    await zombieFeeding.write.feedOnKitty([0n, 1n])
+    assert.equal(await zombieFeeding.read.ownerOf([1n]), ownerAddress)
+  })
+
+  it('Should revert when the kitty does not exist', async function () {
+    const { kittyMock, zombieFeeding } = await deployWithKitty()
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFeeding.write.feedOnKitty([0n, 2n]),
+      kittyMock,
+      'KittyNotFound',
+      [2n]
+    )
+    assert.equal(await zombieFeeding.read.getZombiesCount(), 1n)
+  })
+})
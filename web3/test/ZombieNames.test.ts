@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import {
+  encodeAbiParameters,
+  keccak256,
+  parseAbiParameters,
+  toBytes,
+} from 'viem'
+
+describe('ZombieFactory names', async function () {
+  const { viem, networkHelpers } = await network.connect()
+  const [, other] = await viem.getWalletClients()
+
+  it('Should accept letters and digits with single separators between them', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+
+    for (const name of [
+      'G',
+      'Ghoul',
+      'Walker 2',
+      'Rot-Eater_99',
+      'x'.repeat(32),
+    ]) {
+      await zombieFactory.write.createRandomZombie([name])
+    }
+    assert.equal(await zombieFactory.read.getZombiesCount(), 5n)
+    assert.equal(
+      await zombieFactory.read.nameTaken([keccak256(toBytes('rot-eater_99'))]),
+      true
+    )
+  })
+
+  it('Should reject names of the wrong length', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+
+    for (const [name, length] of [
+      ['', 0n],
+      ['x'.repeat(33), 33n],
+      // 11 characters, but 33 bytes
+      ['ゾンビゾンビゾンビゾン', 33n],
+    ] as const) {
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        zombieFactory.write.createRandomZombie([name]),
+        zombieFactory,
+        'InvalidNameLength',
+        [length]
+      )
+    }
+  })
+
+  it('Should reject characters outside the policy, by byte index', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+
+    for (const [name, index] of [
+      [' Ghoul', 0n],
+      ['Ghoul ', 5n],
+      ['-Ghoul', 0n],
+      ['Gh  oul', 3n],
+      ['Gh-_oul', 3n],
+      ['Ghoul!', 5n],
+      ['Ghoul\n1', 5n],
+      ['Zoé', 2n],
+    ] as const) {
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        zombieFactory.write.createRandomZombie([name]),
+        zombieFactory,
+        'InvalidNameCharacter',
+        [index]
+      )
+    }
+  })
+
+  it('Should keep names unique regardless of case, and reserve NoName', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+    await zombieFactory.write.createRandomZombie(['Ghoul'])
+
+    for (const name of ['Ghoul', 'GHOUL', 'ghoul', 'noname']) {
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        zombieFactory.write.createRandomZombie([name], {
+          account: other.account,
+        }),
+        zombieFactory,
+        'NameTaken',
+        [name]
+      )
+    }
+  })
+
+  it('Should check and claim committed names when they are revealed', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+    const secret = keccak256(toBytes('secret'))
+    const commit = (name: string) =>
+      zombieFactory.write.commitZombie([
+        keccak256(
+          encodeAbiParameters(parseAbiParameters('string, bytes32'), [
+            name,
+            secret,
+          ])
+        ),
+      ])
+
+    await commit('Ghoul')
+    await commit('Ghoul!')
+    await zombieFactory.write.createRandomZombie(['GHOUL'])
+    await networkHelpers.mine(2)
+
+    await viem.assertions.revertWithCustomError(
+      zombieFactory.write.revealZombie(['Ghoul', secret]),
+      zombieFactory,
+      'NameTaken'
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.revealZombie(['Ghoul!', secret]),
+      zombieFactory,
+      'InvalidNameCharacter',
+      [5n]
+    )
+  })
+})
@@ -0,0 +1,236 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { network } from 'hardhat'
+import { getAddress, zeroAddress } from 'viem'
+
+// ERC721ReceiverMock.Behavior
+const ACCEPT = 0
+const WRONG_SELECTOR = 1
+const REVERT = 2
+
+describe('ZombieOwnership', async function () {
+  const { viem } = await network.connect()
+  const [owner, other, operator] = await viem.getWalletClients()
+  const ownerAddress = getAddress(owner.account.address)
+  const otherAddress = getAddress(other.account.address)
+  const operatorAddress = getAddress(operator.account.address)
+
+  async function deployWithZombies(count: number) {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+    for (let i = 0; i < count; i++) {
+      await zombieFactory.write.createRandomZombie([`Zombie${i}`])
+    }
+    return zombieFactory
+  }
+
+  it('Should mint each new zombie to its creator', async function () {
+    const zombieFactory = await viem.deployContract('ZombieFactory')
+
+    await viem.assertions.emitWithArgs(
+      zombieFactory.write.createRandomZombie(['Ghoul']),
+      zombieFactory,
+      'Transfer',
+      [zeroAddress, ownerAddress, 0n]
+    )
+    await zombieFactory.write.createRandomZombie(['Walker'], {
+      account: other.account,
+    })
+    await zombieFactory.write.createRandomZombie(['Crawler'])
+
+    assert.equal(await zombieFactory.read.ownerOf([1n]), otherAddress)
+    assert.equal(await zombieFactory.read.balanceOf([ownerAddress]), 2n)
+    assert.deepEqual(
+      await zombieFactory.read.getZombiesByOwner([ownerAddress]),
+      [0n, 2n]
+    )
+    assert.deepEqual(
+      await zombieFactory.read.getZombiesByOwner([operatorAddress]),
+      []
+    )
+  })
+
+  it('Should let the owner transfer, and nobody else', async function () {
+    const zombieFactory = await deployWithZombies(2)
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.transferFrom([ownerAddress, otherAddress, 0n], {
+        account: other.account,
+      }),
+      zombieFactory,
+      'ERC721InsufficientApproval',
+      [otherAddress, 0n]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.transferFrom([otherAddress, ownerAddress, 0n]),
+      zombieFactory,
+      'ERC721IncorrectOwner',
+      [otherAddress, 0n, ownerAddress]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.transferFrom([ownerAddress, zeroAddress, 0n]),
+      zombieFactory,
+      'ERC721InvalidReceiver',
+      [zeroAddress]
+    )
+
+    await viem.assertions.emitWithArgs(
+      zombieFactory.write.transferFrom([ownerAddress, otherAddress, 0n]),
+      zombieFactory,
+      'Transfer',
+      [ownerAddress, otherAddress, 0n]
+    )
+    assert.equal(await zombieFactory.read.ownerOf([0n]), otherAddress)
+    assert.equal(await zombieFactory.read.balanceOf([ownerAddress]), 1n)
+    assert.deepEqual(
+      await zombieFactory.read.getZombiesByOwner([ownerAddress]),
+      [1n]
+    )
+    assert.deepEqual(
+      await zombieFactory.read.getZombiesByOwner([otherAddress]),
+      [0n]
+    )
+  })
+
+  it('Should let an approved address transfer once', async function () {
+    const zombieFactory = await deployWithZombies(1)
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.write.approve([otherAddress, 0n], {
+        account: other.account,
+      }),
+      zombieFactory,
+      'ERC721InvalidApprover',
+      [otherAddress]
+    )
+    await viem.assertions.emitWithArgs(
+      zombieFactory.write.approve([otherAddress, 0n]),
+      zombieFactory,
+      'Approval',
+      [ownerAddress, otherAddress, 0n]
+    )
+    assert.equal(await zombieFactory.read.getApproved([0n]), otherAddress)
+
+    await zombieFactory.write.transferFrom(
+      [ownerAddress, operatorAddress, 0n],
+      { account: other.account }
+    )
+    assert.equal(await zombieFactory.read.ownerOf([0n]), operatorAddress)
+    assert.equal(await zombieFactory.read.getApproved([0n]), zeroAddress)
+  })
+
+  it('Should let an operator transfer and approve every zombie of the owner', async function () {
+    const zombieFactory = await deployWithZombies(2)
+
+    await viem.assertions.emitWithArgs(
+      zombieFactory.write.setApprovalForAll([operatorAddress, true]),
+      zombieFactory,
+      'ApprovalForAll',
+      [ownerAddress, operatorAddress, true]
+    )
+    assert.equal(
+      await zombieFactory.read.isApprovedForAll([
+        ownerAddress,
+        operatorAddress,
+      ]),
+      true
+    )
+
+    await zombieFactory.write.transferFrom([ownerAddress, otherAddress, 0n], {
+      account: operator.account,
+    })
+    await zombieFactory.write.approve([otherAddress, 1n], {
+      account: operator.account,
+    })
+    assert.equal(await zombieFactory.read.ownerOf([0n]), otherAddress)
+    assert.equal(await zombieFactory.read.getApproved([1n]), otherAddress)
+
+    await zombieFactory.write.setApprovalForAll([operatorAddress, false])
+    await viem.assertions.revertWithCustomError(
+      zombieFactory.write.transferFrom([ownerAddress, operatorAddress, 1n], {
+        account: operator.account,
+      }),
+      zombieFactory,
+      'ERC721InsufficientApproval'
+    )
+  })
+
+  it('Should only safeTransferFrom to contracts that accept the token', async function () {
+    const zombieFactory = await deployWithZombies(3)
+    const accepting = await viem.deployContract('ERC721ReceiverMock', [ACCEPT])
+    const wrongSelector = await viem.deployContract('ERC721ReceiverMock', [
+      WRONG_SELECTOR,
+    ])
+    const reverting = await viem.deployContract('ERC721ReceiverMock', [REVERT])
+    const counter = await viem.deployContract('Counter')
+
+    await viem.assertions.emitWithArgs(
+      zombieFactory.write.safeTransferFrom([
+        ownerAddress,
+        accepting.address,
+        0n,
+        '0x1234',
+      ]),
+      accepting,
+      'Received',
+      [ownerAddress, ownerAddress, 0n, '0x1234']
+    )
+    assert.equal(
+      await zombieFactory.read.ownerOf([0n]),
+      getAddress(accepting.address)
+    )
+
+    for (const receiver of [wrongSelector, counter]) {
+      await viem.assertions.revertWithCustomErrorWithArgs(
+        zombieFactory.write.safeTransferFrom([
+          ownerAddress,
+          receiver.address,
+          1n,
+        ]),
+        zombieFactory,
+        'ERC721InvalidReceiver',
+        [getAddress(receiver.address)]
+      )
+    }
+    await viem.assertions.revertWith(
+      zombieFactory.write.safeTransferFrom([
+        ownerAddress,
+        reverting.address,
+        1n,
+      ]),
+      'ERC721ReceiverMock: rejected'
+    )
+
+    // Accounts without code always accept
+    await zombieFactory.write.safeTransferFrom([ownerAddress, otherAddress, 2n])
+    assert.equal(await zombieFactory.read.ownerOf([2n]), otherAddress)
+  })
+
+  it('Should reject queries about nobody and about missing zombies', async function () {
+    const zombieFactory = await deployWithZombies(1)
+
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.read.ownerOf([1n]),
+      zombieFactory,
+      'ERC721NonexistentToken',
+      [1n]
+    )
+    await viem.assertions.revertWithCustomErrorWithArgs(
+      zombieFactory.read.balanceOf([zeroAddress]),
+      zombieFactory,
+      'ERC721InvalidOwner',
+      [zeroAddress]
+    )
+    assert.equal(
+      await zombieFactory.read.supportsInterface(['0x80ac58cd']),
+      true
+    )
+    assert.equal(
+      await zombieFactory.read.supportsInterface(['0x01ffc9a7']),
+      true
+    )
+    assert.equal(
+      await zombieFactory.read.supportsInterface(['0xffffffff']),
+      false
+    )
+  })
+})